@@ -31,9 +31,17 @@ export default function RootLayout() {
           name="settings"
           options={{ title: 'Configurações', headerBackTitle: 'Voltar' }}
         />
+        <Stack.Screen
+          name="templates"
+          options={{ title: 'Modelos de Dossiê', headerBackTitle: 'Voltar' }}
+        />
         <Stack.Screen
           name="audio-test"
-          options={{ title: 'Teste de Áudio', headerBackTitle: 'Voltar' }}
+          options={{ title: 'Calibração de Áudio', headerBackTitle: 'Voltar' }}
+        />
+        <Stack.Screen
+          name="benchmark/[id]"
+          options={{ title: 'Comparar Modelos', headerBackTitle: 'Voltar' }}
         />
       </Stack>
     </PaperProvider>
@@ -1,73 +1,46 @@
-import { useState, useRef } from 'react';
-import { View, StyleSheet, ScrollView } from 'react-native';
-import { Text, IconButton, Button, SegmentedButtons, Divider } from 'react-native-paper';
+import { useState, useRef, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, IconButton, Button, Card, Divider, ActivityIndicator } from 'react-native-paper';
 import { AudioModule, type RecordingOptions, createAudioPlayer } from 'expo-audio';
-import { IOSOutputFormat, AudioQuality } from 'expo-audio/src/RecordingConstants';
 import { Paths, File, Directory } from 'expo-file-system';
+import { AUDIO_SOURCES, AUDIO_TEST_PROFILES, AudioTestProfileId, buildRecordingPreset, describeRecordingProfile } from '../src/constants/recordingProfiles';
+import { transcribeAudio } from '../src/services/ai';
+import { getSettings, isProviderConfigured, saveSettings } from '../src/services/settings';
+import { formatErrorForUser } from '../src/services/errors';
+import { recordUsage } from '../src/database/usage';
+import { WerResult, formatWer, wordErrorRate } from '../src/services/wer';
 import { colors } from '../src/constants/theme';
 
-type AudioProfile = 'raw' | 'voice_comm' | 'voice_recog';
+type AudioProfile = AudioTestProfileId;
 
 const PROFILES: Record<AudioProfile, { label: string; description: string; preset: RecordingOptions }> = {
   raw: {
-    label: 'Sem processamento',
-    description: 'Áudio cru do microfone, sem filtros (padrão anterior)',
-    preset: {
-      extension: '.m4a',
-      sampleRate: 44100,
-      numberOfChannels: 1,
-      bitRate: 256000,
-      android: { outputFormat: 'mpeg4', audioEncoder: 'aac' },
-      ios: {
-        outputFormat: IOSOutputFormat.MPEG4AAC,
-        audioQuality: AudioQuality.MAX,
-        linearPCMBitDepth: 16,
-        linearPCMIsBigEndian: false,
-        linearPCMIsFloat: false,
-      },
-      web: { mimeType: 'audio/webm', bitsPerSecond: 256000 },
-    },
+    label: AUDIO_SOURCES.default.label,
+    description: `${AUDIO_SOURCES.default.description} (padrão anterior)`,
+    preset: buildRecordingPreset(AUDIO_TEST_PROFILES.raw),
   },
   voice_comm: {
-    label: 'Comunicação de voz',
-    description: 'Cancelamento de eco + AGC (similar ao WhatsApp)',
-    preset: {
-      extension: '.m4a',
-      sampleRate: 44100,
-      numberOfChannels: 1,
-      bitRate: 256000,
-      android: { outputFormat: 'mpeg4', audioEncoder: 'aac', audioSource: 'voice_communication' },
-      ios: {
-        outputFormat: IOSOutputFormat.MPEG4AAC,
-        audioQuality: AudioQuality.MAX,
-        linearPCMBitDepth: 16,
-        linearPCMIsBigEndian: false,
-        linearPCMIsFloat: false,
-      },
-      web: { mimeType: 'audio/webm', bitsPerSecond: 256000 },
-    },
+    label: AUDIO_SOURCES.voice_communication.label,
+    description: AUDIO_SOURCES.voice_communication.description,
+    preset: buildRecordingPreset(AUDIO_TEST_PROFILES.voice_comm),
   },
   voice_recog: {
-    label: 'Reconhecimento de voz',
-    description: 'Otimizado para transcrição por IA',
-    preset: {
-      extension: '.m4a',
-      sampleRate: 16000,
-      numberOfChannels: 1,
-      bitRate: 96000,
-      android: { outputFormat: 'mpeg4', audioEncoder: 'aac', audioSource: 'voice_recognition' },
-      ios: {
-        outputFormat: IOSOutputFormat.MPEG4AAC,
-        audioQuality: AudioQuality.HIGH,
-        linearPCMBitDepth: 16,
-        linearPCMIsBigEndian: false,
-        linearPCMIsFloat: false,
-      },
-      web: { mimeType: 'audio/webm', bitsPerSecond: 96000 },
-    },
+    label: AUDIO_SOURCES.voice_recognition.label,
+    description: AUDIO_SOURCES.voice_recognition.description,
+    preset: buildRecordingPreset(AUDIO_TEST_PROFILES.voice_recog),
   },
 };
 
+const PROFILE_ORDER: AudioProfile[] = ['raw', 'voice_comm', 'voice_recog'];
+
+// Read aloud under every profile; legal terms and numbers are where profiles differ most.
+// Numbers are in digits, the way the transcription models write them
+const REFERENCE_TEXT =
+  'Excelentíssimo Senhor Doutor Juiz de Direito da Segunda Vara Cível. O requerente, devidamente qualificado nos autos, ' +
+  'vem respeitosamente propor ação de indenização por danos morais e materiais em face da empresa requerida, com fundamento ' +
+  'no artigo 186 do Código Civil e no Código de Defesa do Consumidor. Requer a citação da ré, a inversão ' +
+  'do ônus da prova e a condenação ao pagamento de R$ 15.000,00, acrescidos de juros e correção monetária.';
+
 function getTestDir(): Directory {
   const dir = new Directory(Paths.cache, 'audio_test');
   if (!dir.exists) dir.create();
@@ -79,24 +52,49 @@ type TestResult = {
   uri: string;
   duration: number;
   fileSize: number;
+  transcript?: string;
+  score?: WerResult;
+  error?: string;
 };
 
+type WizardStep = 'intro' | 'record' | 'review';
+
+/** Perfil com menos erros; empate fica com o arquivo menor. */
+function pickBest(results: TestResult[]): TestResult | null {
+  const scored = results.filter((r) => r.score);
+  if (scored.length === 0) return null;
+  return scored.reduce((best, r) =>
+    r.score!.wer < best.score!.wer || (r.score!.wer === best.score!.wer && r.fileSize < best.fileSize) ? r : best
+  );
+}
+
 export default function AudioTestScreen() {
-  const [selectedProfile, setSelectedProfile] = useState<AudioProfile>('voice_comm');
+  const [step, setStep] = useState<WizardStep>('intro');
+  const [profileIndex, setProfileIndex] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
   const [results, setResults] = useState<TestResult[]>([]);
   const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [scoringText, setScoringText] = useState('');
+  const [canScore, setCanScore] = useState(false);
+  const [appliedProfile, setAppliedProfile] = useState<AudioProfile | null>(null);
 
   const recorderRef = useRef<any>(null);
   const playerRef = useRef<any>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const durationRef = useRef(0);
 
+  useEffect(() => {
+    getSettings().then((settings) => setCanScore(isProviderConfigured(settings))).catch(() => {});
+  }, []);
+
+  const currentProfile = PROFILE_ORDER[profileIndex];
+
   async function startTest() {
     const status = await AudioModule.requestRecordingPermissionsAsync();
     if (!status.granted) return;
+    stopPlayback();
 
     await AudioModule.setAudioModeAsync({
       allowsRecording: true,
@@ -104,8 +102,7 @@ export default function AudioTestScreen() {
       interruptionMode: 'doNotMix',
     });
 
-    const profile = PROFILES[selectedProfile];
-    const recorder = new AudioModule.AudioRecorder(profile.preset);
+    const recorder = new AudioModule.AudioRecorder(PROFILES[currentProfile].preset);
     await recorder.prepareToRecordAsync();
     recorderRef.current = recorder;
 
@@ -142,20 +139,71 @@ export default function AudioTestScreen() {
     if (!sourceFile.exists) return;
 
     const testDir = getTestDir();
-    const destFile = new File(testDir, `test_${selectedProfile}_${Date.now()}.m4a`);
+    const destFile = new File(testDir, `test_${currentProfile}_${Date.now()}.m4a`);
     sourceFile.move(destFile);
 
-    const fileSize = destFile.size || 0;
-
-    setResults(prev => [
-      {
-        profile: selectedProfile,
-        uri: destFile.uri,
-        duration: durationRef.current,
-        fileSize,
-      },
-      ...prev,
-    ]);
+    const result: TestResult = {
+      profile: currentProfile,
+      uri: destFile.uri,
+      duration: durationRef.current,
+      fileSize: destFile.size || 0,
+    };
+    // Re-recording a profile replaces its previous take
+    const nextResults = [...results.filter((r) => r.profile !== currentProfile), result];
+    setResults(nextResults);
+
+    if (profileIndex < PROFILE_ORDER.length - 1) {
+      setProfileIndex(profileIndex + 1);
+    } else {
+      setStep('review');
+      if (canScore) scoreResults(nextResults);
+    }
+  }
+
+  /** Transcreve cada gravação com o provedor configurado e compara com o texto lido. */
+  async function scoreResults(toScore: TestResult[]) {
+    const settings = await getSettings();
+    if (!isProviderConfigured(settings)) {
+      Alert.alert('Configuração necessária', 'Configure sua chave de API ou servidor em Configurações.');
+      return;
+    }
+
+    setIsScoring(true);
+    const scored = [...toScore];
+    try {
+      for (let i = 0; i < scored.length; i++) {
+        if (scored[i].score) continue;
+        setScoringText(`Transcrevendo ${PROFILES[scored[i].profile].label} (${i + 1}/${scored.length})...`);
+        try {
+          const transcript = await transcribeAudio(
+            settings.provider,
+            settings.apiKey,
+            scored[i].uri,
+            settings.transcriptionModel,
+            (event) => { recordUsage(null, 'calibration', event).catch(() => {}); }
+          );
+          scored[i] = { ...scored[i], transcript, score: wordErrorRate(REFERENCE_TEXT, transcript), error: undefined };
+        } catch (error: any) {
+          scored[i] = { ...scored[i], error: formatErrorForUser(error, 'Falha ao transcrever') };
+        }
+        setResults([...scored]);
+      }
+    } finally {
+      setIsScoring(false);
+      setScoringText('');
+    }
+  }
+
+  async function applyProfile(profile: AudioProfile) {
+    const settings = await getSettings();
+    // The whole tested profile, so the recorders capture exactly what was scored
+    const tested = AUDIO_TEST_PROFILES[profile];
+    await saveSettings({
+      ...settings,
+      fullRecordingProfile: { ...tested },
+      chunkRecordingProfile: { ...tested },
+    });
+    setAppliedProfile(profile);
   }
 
   async function playResult(index: number) {
@@ -175,12 +223,10 @@ export default function AudioTestScreen() {
 
     const player = createAudioPlayer(result.uri);
     playerRef.current = player;
-    setIsPlaying(true);
     setPlayingIndex(index);
 
     player.addListener('playbackStatusUpdate', (status: any) => {
       if (!status.isLoaded || status.didJustFinish) {
-        setIsPlaying(false);
         setPlayingIndex(null);
       }
     });
@@ -193,11 +239,10 @@ export default function AudioTestScreen() {
       playerRef.current.remove();
       playerRef.current = null;
     }
-    setIsPlaying(false);
     setPlayingIndex(null);
   }
 
-  function clearResults() {
+  function restart() {
     stopPlayback();
     const testDir = getTestDir();
     if (testDir.exists) {
@@ -205,6 +250,9 @@ export default function AudioTestScreen() {
       testDir.create();
     }
     setResults([]);
+    setProfileIndex(0);
+    setAppliedProfile(null);
+    setStep('intro');
   }
 
   function formatBytes(bytes: number): string {
@@ -219,105 +267,182 @@ export default function AudioTestScreen() {
     return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   }
 
-  const profileInfo = PROFILES[selectedProfile];
+  const best = pickBest(results);
+  const hasUnscored = results.some((r) => !r.score);
 
   return (
     <View style={styles.container}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
-        {/* Profile selector */}
-        <Text style={styles.sectionTitle}>Perfil de captura</Text>
-        <SegmentedButtons
-          value={selectedProfile}
-          onValueChange={(v) => setSelectedProfile(v as AudioProfile)}
-          buttons={[
-            { value: 'raw', label: 'Cru' },
-            { value: 'voice_comm', label: 'VoIP' },
-            { value: 'voice_recog', label: 'STT' },
-          ]}
-          style={styles.segmented}
-          density="small"
-        />
-        <Text style={styles.profileDesc}>{profileInfo.description}</Text>
-
-        {/* Recording controls */}
-        <View style={styles.recordSection}>
-          <Text style={styles.timer}>{formatDuration(duration)}</Text>
-          {!isRecording ? (
-            <IconButton
-              icon="microphone"
-              size={40}
-              iconColor={colors.onPrimary}
-              style={styles.recordButton}
-              onPress={startTest}
-            />
-          ) : (
-            <IconButton
-              icon="stop"
-              size={40}
-              iconColor="#ffffff"
-              style={styles.stopButton}
-              onPress={stopTest}
-            />
-          )}
-          <Text style={styles.hint}>
-            {isRecording ? 'Gravando... Fale normalmente' : 'Grave um trecho de teste (5-10s)'}
-          </Text>
-        </View>
-
-        <Divider style={styles.divider} />
-
-        {/* Results */}
-        <View style={styles.resultsHeader}>
-          <Text style={styles.sectionTitle}>Gravações de teste</Text>
-          {results.length > 0 && (
-            <Button mode="text" compact onPress={clearResults} textColor={colors.error}>
-              Limpar
+        {step === 'intro' && (
+          <>
+            <Text style={styles.sectionTitle}>Calibração do áudio</Text>
+            <Text style={styles.profileDesc}>
+              Leia o texto abaixo em voz alta, do jeito e no lugar onde costuma atender, uma vez para cada um dos{' '}
+              {PROFILE_ORDER.length} perfis de captura. Cada gravação é transcrita pelo provedor configurado e comparada
+              com o texto, e o perfil com menos erros é recomendado.
+            </Text>
+            <Card style={styles.referenceCard}>
+              <Card.Content>
+                <Text style={styles.referenceText}>{REFERENCE_TEXT}</Text>
+              </Card.Content>
+            </Card>
+            {!canScore && (
+              <Text style={styles.warningText}>
+                Sem provedor configurado as gravações não são pontuadas; ainda dá para compará-las ouvindo.
+              </Text>
+            )}
+            <Button mode="contained" onPress={() => setStep('record')} style={styles.primaryButton} buttonColor={colors.primary}>
+              Começar
             </Button>
-          )}
-        </View>
-
-        {results.length === 0 ? (
-          <Text style={styles.emptyText}>
-            Grave trechos com diferentes perfis e compare a qualidade reproduzindo cada um.
-          </Text>
-        ) : (
-          results.map((result, index) => (
-            <View key={result.uri} style={styles.resultCard}>
-              <View style={styles.resultInfo}>
-                <Text style={styles.resultProfile}>{PROFILES[result.profile].label}</Text>
-                <Text style={styles.resultMeta}>
-                  {formatDuration(result.duration)} · {formatBytes(result.fileSize)}
-                </Text>
-              </View>
-              <IconButton
-                icon={playingIndex === index ? 'stop' : 'play'}
-                size={28}
-                iconColor={colors.primary}
-                onPress={() => playingIndex === index ? stopPlayback() : playResult(index)}
-              />
+
+            {/* Tips */}
+            <View style={styles.tipsSection}>
+              <Text style={styles.sectionTitle}>Perfis</Text>
+              <Text style={styles.tipText}>
+                {'• '}
+                <Text style={{ fontWeight: 'bold' }}>VoIP (Comunicação)</Text>
+                {' — Ativa cancelamento de eco e controle de ganho. Ideal para a maioria dos casos.'}
+              </Text>
+              <Text style={styles.tipText}>
+                {'• '}
+                <Text style={{ fontWeight: 'bold' }}>STT (Reconhecimento)</Text>
+                {' — Otimizado para reconhecimento de fala. Melhor para transcrição em ambientes silenciosos.'}
+              </Text>
+              <Text style={styles.tipText}>
+                {'• '}
+                <Text style={{ fontWeight: 'bold' }}>Cru</Text>
+                {' — Sem processamento. Útil como referência para comparação.'}
+              </Text>
+            </View>
+          </>
+        )}
+
+        {step === 'record' && (
+          <>
+            <Text style={styles.stepLabel}>Perfil {profileIndex + 1} de {PROFILE_ORDER.length}</Text>
+            <Text style={styles.sectionTitle}>{PROFILES[currentProfile].label}</Text>
+            <Text style={styles.profileDesc}>{PROFILES[currentProfile].description}</Text>
+
+            <Card style={styles.referenceCard}>
+              <Card.Content>
+                <Text style={styles.referenceText}>{REFERENCE_TEXT}</Text>
+              </Card.Content>
+            </Card>
+
+            <View style={styles.recordSection}>
+              <Text style={styles.timer}>{formatDuration(duration)}</Text>
+              {!isRecording ? (
+                <IconButton
+                  icon="microphone"
+                  size={40}
+                  iconColor={colors.onPrimary}
+                  style={styles.recordButton}
+                  onPress={startTest}
+                />
+              ) : (
+                <IconButton
+                  icon="stop"
+                  size={40}
+                  iconColor="#ffffff"
+                  style={styles.stopButton}
+                  onPress={stopTest}
+                />
+              )}
+              <Text style={styles.hint}>
+                {isRecording ? 'Gravando... Leia o texto inteiro e toque em parar' : 'Toque no microfone e leia o texto'}
+              </Text>
             </View>
-          ))
+
+            {profileIndex > 0 && !isRecording && (
+              <Button mode="text" compact onPress={() => setProfileIndex(profileIndex - 1)} textColor={colors.onSurfaceVariant}>
+                Regravar o perfil anterior
+              </Button>
+            )}
+          </>
         )}
 
-        {/* Tips */}
-        <View style={styles.tipsSection}>
-          <Text style={styles.sectionTitle}>Dicas</Text>
-          <Text style={styles.tipText}>
-            {'• '}
-            <Text style={{ fontWeight: 'bold' }}>VoIP (Comunicação)</Text>
-            {' — Ativa cancelamento de eco e controle de ganho. Ideal para a maioria dos casos.'}
-          </Text>
-          <Text style={styles.tipText}>
-            {'• '}
-            <Text style={{ fontWeight: 'bold' }}>STT (Reconhecimento)</Text>
-            {' — Otimizado para reconhecimento de fala. Melhor para transcrição em ambientes silenciosos.'}
-          </Text>
-          <Text style={styles.tipText}>
-            {'• '}
-            <Text style={{ fontWeight: 'bold' }}>Cru</Text>
-            {' — Sem processamento. Útil como referência para comparação.'}
-          </Text>
-        </View>
+        {step === 'review' && (
+          <>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.sectionTitle}>Resultado</Text>
+              <Button mode="text" compact onPress={restart} textColor={colors.error} disabled={isScoring}>
+                Refazer
+              </Button>
+            </View>
+
+            {isScoring && (
+              <View style={styles.scoringRow}>
+                <ActivityIndicator size="small" color={colors.primary} />
+                <Text style={styles.hint}>{scoringText}</Text>
+              </View>
+            )}
+
+            {best && !isScoring && (
+              <Card style={styles.recommendationCard}>
+                <Card.Content>
+                  <Text style={styles.recommendationTitle}>Recomendado: {PROFILES[best.profile].label}</Text>
+                  <Text style={styles.resultMeta}>
+                    {formatWer(best.score!.wer)} de erro por palavra. O perfil testado ({describeRecordingProfile(AUDIO_TEST_PROFILES[best.profile])})
+                    passa a valer para os dois gravadores, no lugar do que está em Configurações.
+                  </Text>
+                  <Button
+                    mode="contained"
+                    onPress={() => applyProfile(best.profile)}
+                    disabled={appliedProfile === best.profile}
+                    style={styles.primaryButton}
+                    buttonColor={colors.primary}
+                  >
+                    {appliedProfile === best.profile ? 'Aplicado' : 'Aplicar nas configurações'}
+                  </Button>
+                </Card.Content>
+              </Card>
+            )}
+
+            {results.map((result, index) => (
+              <View key={result.uri} style={styles.resultCard}>
+                <View style={styles.resultInfo}>
+                  <Text style={styles.resultProfile}>
+                    {PROFILES[result.profile].label}
+                    {best?.profile === result.profile ? ' ★' : ''}
+                  </Text>
+                  <Text style={styles.resultMeta}>
+                    {formatDuration(result.duration)} · {formatBytes(result.fileSize)}
+                    {result.score
+                      ? ` · WER ${formatWer(result.score.wer)} (${result.score.substitutions} trocadas, ${result.score.deletions} faltando, ${result.score.insertions} a mais)`
+                      : ''}
+                  </Text>
+                  {result.transcript !== undefined && (
+                    <Text style={styles.transcriptText} numberOfLines={4}>"{result.transcript.trim()}"</Text>
+                  )}
+                  {result.error && <Text style={styles.errorText}>{result.error}</Text>}
+                </View>
+                <IconButton
+                  icon={playingIndex === index ? 'stop' : 'play'}
+                  size={28}
+                  iconColor={colors.primary}
+                  onPress={() => playingIndex === index ? stopPlayback() : playResult(index)}
+                />
+              </View>
+            ))}
+
+            {hasUnscored && !isScoring && canScore && (
+              <Button mode="outlined" onPress={() => scoreResults(results)} style={styles.primaryButton} textColor={colors.primary}>
+                Transcrever e comparar
+              </Button>
+            )}
+            {!canScore && (
+              <Text style={styles.emptyText}>
+                Configure um provedor de IA para pontuar os perfis. Por enquanto, compare ouvindo cada gravação.
+              </Text>
+            )}
+
+            <Divider style={styles.divider} />
+            <Text style={styles.tipText}>
+              O erro por palavra (WER) conta palavras trocadas, faltando ou a mais em relação ao texto lido;
+              quanto menor, melhor. Acentos, maiúsculas e pontuação não contam.
+            </Text>
+          </>
+        )}
       </ScrollView>
     </View>
   );
@@ -338,13 +463,36 @@ const styles = StyleSheet.create({
     color: colors.onSurface,
     marginBottom: 8,
   },
-  segmented: {
-    marginBottom: 8,
+  stepLabel: {
+    fontSize: 12,
+    color: colors.primary,
+    fontWeight: '600',
+    marginBottom: 4,
   },
   profileDesc: {
     fontSize: 13,
     color: colors.onSurfaceVariant,
     marginBottom: 16,
+    lineHeight: 20,
+  },
+  referenceCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+  },
+  referenceText: {
+    fontSize: 16,
+    lineHeight: 26,
+    color: colors.onSurface,
+  },
+  warningText: {
+    fontSize: 12,
+    color: colors.onSurfaceVariant,
+    fontStyle: 'italic',
+    marginTop: 12,
+  },
+  primaryButton: {
+    marginTop: 16,
+    borderRadius: 8,
   },
   recordSection: {
     alignItems: 'center',
@@ -384,6 +532,23 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  scoringRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  recommendationCard: {
+    backgroundColor: colors.primaryContainer,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  recommendationTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.onSurface,
+    marginBottom: 4,
+  },
   emptyText: {
     fontSize: 13,
     color: colors.onSurfaceVariant,
@@ -397,7 +562,7 @@ const styles = StyleSheet.create({
     backgroundColor: colors.surface,
     borderRadius: 12,
     paddingLeft: 16,
-    paddingVertical: 4,
+    paddingVertical: 8,
     marginBottom: 8,
   },
   resultInfo: {
@@ -413,6 +578,18 @@ const styles = StyleSheet.create({
     color: colors.onSurfaceVariant,
     marginTop: 2,
   },
+  transcriptText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.onSurfaceVariant,
+    marginTop: 6,
+    lineHeight: 18,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    marginTop: 4,
+  },
   tipsSection: {
     marginTop: 24,
   },
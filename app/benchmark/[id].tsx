@@ -0,0 +1,409 @@
+import { useState, useCallback, useMemo } from 'react';
+import { View, StyleSheet, ScrollView, Alert, Pressable } from 'react-native';
+import { Text, Button, Card, Checkbox, ActivityIndicator, TextInput, Divider } from 'react-native-paper';
+import { useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { Recording, getRecording, updateReferenceTranscription } from '../../src/database/recordings';
+import { BenchmarkRun, deleteBenchmarkRuns, getBenchmarkRuns } from '../../src/database/benchmarks';
+import {
+  BenchmarkCandidate,
+  candidateKey,
+  getBenchmarkCandidates,
+  rescoreBenchmarkRuns,
+  runBenchmark,
+  runScore,
+} from '../../src/services/benchmark';
+import { WerResult, formatWer } from '../../src/services/wer';
+import { AI_PROVIDERS, formatCostUsd } from '../../src/constants/ai';
+import { colors } from '../../src/constants/theme';
+
+type ComparisonRow = {
+  run: BenchmarkRun;
+  label: string;
+  score: WerResult | null; // null when the run failed or there is no reference
+};
+
+function formatLatency(ms: number): string {
+  return `${(ms / 1000).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} s`;
+}
+
+function runLabel(run: BenchmarkRun): string {
+  const config = AI_PROVIDERS[run.provider];
+  const model = config?.transcriptionModels.find((m) => m.id === run.model);
+  return `${config?.shortName ?? run.provider} · ${model?.name ?? run.model}`;
+}
+
+// Scored runs first by WER, then failures and unscored ones by speed
+function compareRows(a: ComparisonRow, b: ComparisonRow): number {
+  if (a.score && b.score) return a.score.wer - b.score.wer || a.run.latency_ms - b.run.latency_ms;
+  if (a.score) return -1;
+  if (b.score) return 1;
+  return a.run.latency_ms - b.run.latency_ms;
+}
+
+export default function BenchmarkScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [reference, setReference] = useState('');
+  const [savedReference, setSavedReference] = useState('');
+  const [candidates, setCandidates] = useState<BenchmarkCandidate[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progressText, setProgressText] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [id])
+  );
+
+  async function load() {
+    if (!id) return;
+    const data = await getRecording(parseInt(id));
+    setRecording(data);
+    if (!data) return;
+    // The saved transcription is a good starting point for the corrected reference
+    const initial = data.reference_transcription ?? data.transcription ?? '';
+    setReference(initial);
+    setSavedReference(data.reference_transcription ?? '');
+    setRuns(await getBenchmarkRuns(data.id));
+    const available = await getBenchmarkCandidates();
+    setCandidates(available);
+    setSelected((current) => current.filter((key) => available.some((c) => candidateKey(c) === key)));
+  }
+
+  // Latest run of each provider/model, with the WER stored when it was scored
+  const rows = useMemo<ComparisonRow[]>(() => {
+    const latest = new Map<string, BenchmarkRun>();
+    for (const run of runs) {
+      const key = candidateKey(run);
+      if (!latest.has(key)) latest.set(key, run);
+    }
+    return [...latest.values()]
+      .map((run) => ({
+        run,
+        label: runLabel(run),
+        score: runScore(run),
+      }))
+      .sort(compareRows);
+  }, [runs]);
+
+  function toggleCandidate(key: string) {
+    setSelected((current) => (current.includes(key) ? current.filter((k) => k !== key) : [...current, key]));
+  }
+
+  async function handleSaveReference() {
+    if (!recording) return;
+    const trimmed = reference.trim();
+    await updateReferenceTranscription(recording.id, trimmed);
+    setSavedReference(trimmed);
+    await rescoreBenchmarkRuns(recording.id, trimmed);
+    setRuns(await getBenchmarkRuns(recording.id));
+  }
+
+  async function handleRun() {
+    if (!recording || selected.length === 0) return;
+    if (reference.trim() !== savedReference) await handleSaveReference();
+
+    setIsRunning(true);
+    const toRun = candidates.filter((c) => selected.includes(candidateKey(c)));
+    try {
+      // One at a time so the latency of a model is not skewed by the others
+      for (let i = 0; i < toRun.length; i++) {
+        setProgressText(`Transcrevendo com ${toRun[i].label} (${i + 1}/${toRun.length})...`);
+        await runBenchmark(toRun[i], recording, reference.trim());
+        setRuns(await getBenchmarkRuns(recording.id));
+      }
+    } catch (error: any) {
+      Alert.alert('Erro', error.message || 'Falha ao salvar o resultado');
+    } finally {
+      setIsRunning(false);
+      setProgressText('');
+    }
+  }
+
+  function handleClear() {
+    if (!recording) return;
+    Alert.alert('Limpar resultados', 'Apagar todas as rodadas de comparação desta gravação?', [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Apagar',
+        style: 'destructive',
+        onPress: async () => {
+          await deleteBenchmarkRuns(recording.id);
+          setRuns([]);
+          setExpandedId(null);
+        },
+      },
+    ]);
+  }
+
+  if (!recording) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  const referenceChanged = reference.trim() !== savedReference;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <Text style={styles.recordingTitle}>{recording.title}</Text>
+
+        {/* Reference */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>Transcrição de referência</Text>
+            <Text style={styles.hint}>
+              Corrija o texto abaixo até ficar fiel ao áudio. É contra ele que o erro por palavra (WER) de cada modelo é
+              calculado.
+            </Text>
+            <TextInput
+              mode="outlined"
+              value={reference}
+              onChangeText={setReference}
+              multiline
+              style={styles.referenceInput}
+              placeholder="Digite o que foi dito na gravação"
+            />
+            <Button
+              mode="outlined"
+              onPress={handleSaveReference}
+              disabled={!referenceChanged || isRunning}
+              style={styles.button}
+              textColor={colors.primary}
+            >
+              {referenceChanged ? 'Salvar referência' : 'Referência salva'}
+            </Button>
+          </Card.Content>
+        </Card>
+
+        {/* Candidates */}
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text style={styles.sectionTitle}>Modelos</Text>
+            {candidates.length === 0 ? (
+              <Text style={styles.hint}>
+                Nenhum provedor configurado. Informe a chave de API ou o servidor em Configurações.
+              </Text>
+            ) : (
+              candidates.map((candidate) => {
+                const key = candidateKey(candidate);
+                return (
+                  <Checkbox.Item
+                    key={key}
+                    label={candidate.label}
+                    status={selected.includes(key) ? 'checked' : 'unchecked'}
+                    onPress={() => toggleCandidate(key)}
+                    disabled={isRunning}
+                    color={colors.primary}
+                    labelStyle={styles.candidateLabel}
+                    style={styles.candidateItem}
+                  />
+                );
+              })
+            )}
+            <Text style={styles.hint}>
+              Cada modelo transcreve a gravação inteira e o custo entra no consumo da gravação.
+            </Text>
+            <Button
+              mode="contained"
+              onPress={handleRun}
+              loading={isRunning}
+              disabled={isRunning || selected.length === 0 || !reference.trim()}
+              style={styles.button}
+              buttonColor={colors.primary}
+            >
+              {selected.length > 1 ? `Comparar ${selected.length} modelos` : 'Comparar'}
+            </Button>
+            {isRunning && <Text style={styles.progressText}>{progressText}</Text>}
+          </Card.Content>
+        </Card>
+
+        {/* Comparison */}
+        {rows.length > 0 && (
+          <>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.sectionTitle}>Resultado</Text>
+              <Button mode="text" compact onPress={handleClear} textColor={colors.error} disabled={isRunning}>
+                Limpar
+              </Button>
+            </View>
+
+            <View style={styles.table}>
+              <View style={[styles.tableRow, styles.tableHeader]}>
+                <Text style={[styles.cellModel, styles.headerText]}>Modelo</Text>
+                <Text style={[styles.cell, styles.headerText]}>WER</Text>
+                <Text style={[styles.cell, styles.headerText]}>Tempo</Text>
+                <Text style={[styles.cell, styles.headerText]}>Custo</Text>
+              </View>
+              {rows.map(({ run, label, score }, index) => (
+                <View key={run.id}>
+                  <Pressable
+                    onPress={() => setExpandedId(expandedId === run.id ? null : run.id)}
+                    style={styles.tableRow}
+                  >
+                    <Text style={styles.cellModel} numberOfLines={2}>
+                      {label}
+                      {index === 0 && score ? ' ★' : ''}
+                    </Text>
+                    <Text style={[styles.cell, run.error ? styles.errorText : null]}>
+                      {run.error ? 'Falhou' : score ? formatWer(score.wer) : '—'}
+                    </Text>
+                    <Text style={styles.cell}>{formatLatency(run.latency_ms)}</Text>
+                    <Text style={styles.cell}>{formatCostUsd(run.cost_usd)}</Text>
+                  </Pressable>
+                  {expandedId === run.id && (
+                    <View style={styles.details}>
+                      {score && (
+                        <Text style={styles.detailMeta}>
+                          {score.substitutions} trocadas, {score.deletions} faltando, {score.insertions} a mais em{' '}
+                          {score.referenceWords} palavras
+                        </Text>
+                      )}
+                      {run.error ? (
+                        <Text style={styles.errorText}>{run.error}</Text>
+                      ) : (
+                        <Text style={styles.outputText} selectable>{run.output}</Text>
+                      )}
+                      <Text style={styles.detailMeta}>Rodado em {run.created_at}</Text>
+                    </View>
+                  )}
+                  <Divider style={styles.divider} />
+                </View>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              Mostra a rodada mais recente de cada modelo. Toque numa linha para ver o texto transcrito.
+            </Text>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  recordingTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.onSurface,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.onSurface,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.onSurfaceVariant,
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  referenceInput: {
+    marginTop: 12,
+    maxHeight: 240,
+    backgroundColor: colors.surface,
+  },
+  button: {
+    marginTop: 12,
+    borderRadius: 8,
+  },
+  candidateItem: {
+    paddingHorizontal: 0,
+  },
+  candidateLabel: {
+    fontSize: 14,
+    color: colors.onSurface,
+  },
+  progressText: {
+    fontSize: 12,
+    color: colors.primary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  resultsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  table: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  tableHeader: {
+    backgroundColor: colors.surfaceVariant,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  headerText: {
+    fontWeight: '700',
+    color: colors.onSurface,
+  },
+  cellModel: {
+    flex: 2,
+    fontSize: 13,
+    color: colors.onSurface,
+  },
+  cell: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.onSurface,
+    textAlign: 'right',
+    fontVariant: ['tabular-nums'],
+  },
+  details: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  detailMeta: {
+    fontSize: 11,
+    color: colors.onSurfaceVariant,
+    marginBottom: 6,
+  },
+  outputText: {
+    fontSize: 13,
+    color: colors.onSurfaceVariant,
+    lineHeight: 20,
+    marginBottom: 6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error,
+  },
+  divider: {
+    backgroundColor: colors.outline,
+  },
+});
@@ -1,68 +1,185 @@
-import { useCallback, useState, useEffect, useRef } from 'react';
-import { View, StyleSheet, ScrollView, Alert, ToastAndroid, TextInput, Pressable } from 'react-native';
-import { Text, Button, Card, ActivityIndicator, SegmentedButtons, IconButton } from 'react-native-paper';
-import { useLocalSearchParams, useFocusEffect } from 'expo-router';
-import { createAudioPlayer, useAudioPlayerStatus, AudioPlayer } from 'expo-audio';
-import { getRecording, updateTranscription, updateDialogue, updateDossier, updateTitle, Recording } from '../../src/database/recordings';
-import { transcribeAudio, transcribeAudioWithTimestamps, diarizeTranscription, generateDossier } from '../../src/services/ai';
-import { getSettings } from '../../src/services/settings';
+import { Fragment, useCallback, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
+import { View, StyleSheet, ScrollView, Alert, ToastAndroid, TextInput, Pressable, GestureResponderEvent } from 'react-native';
+import { Text, Button, Card, ActivityIndicator, SegmentedButtons, Icon, IconButton, Menu, Portal, Dialog } from 'react-native-paper';
+import { useLocalSearchParams, useFocusEffect, useRouter } from 'expo-router';
+import { getRecording, getTranscriptionSegments, updateTranscription, updateDialogue, updateDossier, updateTitle, updateTemplateChoice, updateSpeakers, getSpeakers, getMarkers, getRecordingSetup, getWaveform, Recording } from '../../src/database/recordings';
+import { getAllTemplates, resolveTemplate, DossierTemplate } from '../../src/database/templates';
+import { transcribeRecording, transcribeRecordingWithTimestamps, diarizeTranscription, generateDossierStream, TranscriptionProgress, UsageListener } from '../../src/services/ai';
+import { recordUsage, getRecordingUsage, UsageOperation, UsageSummary } from '../../src/database/usage';
+import { getSettings, isProviderConfigured } from '../../src/services/settings';
+import { formatErrorForUser } from '../../src/services/errors';
+import { detectAudioMimeType } from '../../src/services/audioFormat';
+import { downsampleWaveform, findSilentRanges } from '../../src/services/levels';
+import { DEFAULT_VAD_SETTINGS } from '../../src/services/vad';
 import { formatDuration } from '../../src/hooks/useRecorder';
-import { DiarizedSegment, DiarizedTranscription, isDiarizedTranscription } from '../../src/constants/ai';
-import { colors } from '../../src/constants/theme';
+import { PLAYBACK_RATES, RecordingPlayback, RecordingPlayerControls, useRecordingPlayer } from '../../src/hooks/useRecordingPlayer';
+import { parseStoredDossier, createEmptyDossier, isDossierEmpty, structuredDossierToMarkdown } from '../../src/services/dossier';
+import { resolveSpeakers, speakerName, rightAlignedSpeaker, updateSpeaker, mergeSpeakers, reassignSegment } from '../../src/services/speakers';
+import { DiarizedSegment, DiarizedTranscription, RecordingMarker, Speaker, SpeakerRole, SPEAKER_ROLE_LABELS, StructuredDossier, TimestampedSegment, isDiarizedTranscription, formatCostUsd, formatTimestamp, parseTimestamp } from '../../src/constants/ai';
+import { describeRecordingProfile } from '../../src/constants/recordingProfiles';
+import { colors, markerColor, speakerPalette } from '../../src/constants/theme';
 import * as Clipboard from 'expo-clipboard';
 import * as Sharing from 'expo-sharing';
 import * as Print from 'expo-print';
 
-// ─── Audio Player (single file) ───
+// ─── Audio Player ───
 
-function AudioPlayerBar({ filePath, onShare }: { filePath: string; onShare: () => void }) {
-  const playerRef = useRef<AudioPlayer | null>(null);
-  const [player, setPlayer] = useState<AudioPlayer | null>(null);
+// Bars drawn for the stored waveform, whatever the recording's length
+const WAVEFORM_BARS = 80;
 
-  useEffect(() => {
-    if (!filePath) return;
-    const p = createAudioPlayer({ uri: filePath });
-    playerRef.current = p;
-    setPlayer(p);
-    return () => { p.release(); };
-  }, [filePath]);
+interface AudioPlayerControlsProps {
+  playback: RecordingPlayback;
+  controls: RecordingPlayerControls;
+  markers: RecordingMarker[];
+  waveform: number[];   // bar heights 0–1; empty when the recording has none
+  jumpPoints: number[]; // bookmarks and speaker turns, in seconds, sorted
+  skipSilence: boolean;
+  onToggleSkipSilence: (() => void) | null; // null without level data to skip by
+  onShare: () => void;
+}
 
-  if (!player) return null;
+function AudioPlayerControls({
+  playback,
+  controls,
+  markers,
+  waveform,
+  jumpPoints,
+  skipSilence,
+  onToggleSkipSilence,
+  onShare,
+}: AudioPlayerControlsProps) {
+  const { time, duration, playing, rate } = playback;
+  // Fraction of the timeline under the finger while dragging
+  const [scrub, setScrub] = useState<number | null>(null);
+  const timelineWidth = useRef(0);
+  const timelineX = useRef(0);
 
-  return <AudioPlayerControls player={player} onShare={onShare} />;
-}
+  const progress = scrub ?? (duration > 0 ? Math.min(1, time / duration) : 0);
+  const shownSec = Math.floor(scrub !== null ? scrub * duration : time);
+
+  function fractionAt(pageX: number): number {
+    if (timelineWidth.current <= 0) return 0;
+    return Math.max(0, Math.min(1, (pageX - timelineX.current) / timelineWidth.current));
+  }
+
+  function handleScrubStart(event: GestureResponderEvent) {
+    // The bars ignore touches, so locationX is measured from the timeline itself
+    timelineX.current = event.nativeEvent.pageX - event.nativeEvent.locationX;
+    setScrub(fractionAt(event.nativeEvent.pageX));
+  }
 
-function AudioPlayerControls({ player, onShare }: { player: AudioPlayer; onShare: () => void }) {
-  const status = useAudioPlayerStatus(player);
-  const isPlaying = status.playing;
-  const currentSec = Math.floor(status.currentTime ?? 0);
-  const totalSec = Math.floor(status.duration ?? 0);
+  function handleScrubEnd(event: GestureResponderEvent) {
+    controls.seekTo(fractionAt(event.nativeEvent.pageX) * duration);
+    setScrub(null);
+  }
+
+  // "Previous" from just after a point goes to the one before it, like a music player
+  function jump(direction: 1 | -1) {
+    const target = direction > 0
+      ? jumpPoints.find((p) => p > time + 0.5)
+      : [...jumpPoints].reverse().find((p) => p < time - 2) ?? 0;
+    if (target !== undefined) controls.seekTo(target);
+  }
+
+  function cycleRate() {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+    controls.setRate(next);
+  }
 
   return (
     <Card style={styles.playerCard}>
       <Card.Content style={styles.playerContent}>
         <Text style={styles.playerTime}>
-          {formatDuration(currentSec)} / {formatDuration(totalSec)}
+          {formatDuration(shownSec)} / {formatDuration(Math.floor(duration))}
         </Text>
+        <View
+          style={[styles.timeline, waveform.length > 0 && styles.timelineWaveform]}
+          onLayout={(e) => { timelineWidth.current = e.nativeEvent.layout.width; }}
+          onStartShouldSetResponder={() => duration > 0}
+          onMoveShouldSetResponder={() => duration > 0}
+          onResponderTerminationRequest={() => false}
+          onResponderGrant={handleScrubStart}
+          onResponderMove={(e) => setScrub(fractionAt(e.nativeEvent.pageX))}
+          onResponderRelease={handleScrubEnd}
+          onResponderTerminate={() => setScrub(null)}
+        >
+          {waveform.length > 0 ? (
+            <View style={styles.waveform} pointerEvents="none">
+              {waveform.map((height, idx) => (
+                <View
+                  key={idx}
+                  style={[
+                    styles.waveformBar,
+                    { height: `${Math.max(8, height * 100)}%` },
+                    (idx + 0.5) / waveform.length <= progress && { backgroundColor: colors.primary },
+                  ]}
+                />
+              ))}
+            </View>
+          ) : (
+            <View style={styles.timelineTrack} pointerEvents="none">
+              <View style={[styles.timelineProgress, { width: `${progress * 100}%` }]} />
+            </View>
+          )}
+          {duration > 0 && markers.map((marker, idx) => (
+            <Pressable
+              key={idx}
+              onPress={() => controls.seekTo(marker.time)}
+              hitSlop={8}
+              style={[
+                styles.timelinePin,
+                waveform.length > 0 && styles.timelinePinWaveform,
+                { left: `${Math.min(1, marker.time / duration) * 100}%` },
+              ]}
+            />
+          ))}
+        </View>
         <View style={styles.playerControls}>
+          <IconButton
+            icon="skip-previous"
+            size={24}
+            iconColor={colors.onSurface}
+            onPress={() => jump(-1)}
+            disabled={jumpPoints.length === 0}
+          />
           <IconButton
             icon="rewind-10"
             size={24}
             iconColor={colors.onSurface}
-            onPress={() => player.seekTo(Math.max(0, currentSec - 10))}
+            onPress={() => controls.seekTo(Math.max(0, time - 10))}
           />
           <IconButton
-            icon={isPlaying ? 'pause-circle' : 'play-circle'}
+            icon={playing ? 'pause-circle' : 'play-circle'}
             size={40}
             iconColor={colors.primary}
-            onPress={() => isPlaying ? player.pause() : player.play()}
+            onPress={() => playing ? controls.pause() : controls.play()}
           />
           <IconButton
             icon="fast-forward-10"
             size={24}
             iconColor={colors.onSurface}
-            onPress={() => player.seekTo(Math.min(totalSec, currentSec + 10))}
+            onPress={() => controls.seekTo(Math.min(duration, time + 10))}
+          />
+          <IconButton
+            icon="skip-next"
+            size={24}
+            iconColor={colors.onSurface}
+            onPress={() => jump(1)}
+            disabled={!jumpPoints.some((p) => p > time + 0.5)}
           />
+        </View>
+        <View style={styles.playerOptions}>
+          <Pressable onPress={cycleRate} style={styles.playerChip}>
+            <Text style={styles.playerChipText}>{rate.toLocaleString('pt-BR')}x</Text>
+          </Pressable>
+          {onToggleSkipSilence && (
+            <Pressable
+              onPress={onToggleSkipSilence}
+              style={[styles.playerChip, skipSilence && styles.playerChipActive]}
+            >
+              <Text style={styles.playerChipText}>Pular silêncios</Text>
+            </Pressable>
+          )}
           <IconButton
             icon="share-variant"
             size={22}
@@ -70,6 +187,11 @@ function AudioPlayerControls({ player, onShare }: { player: AudioPlayer; onShare
             onPress={onShare}
           />
         </View>
+        {playback.partCount > 1 && (
+          <Text style={styles.playerNote}>
+            Arquivo completo não encontrado — tocando as {playback.partCount} partes da gravação
+          </Text>
+        )}
       </Card.Content>
     </Card>
   );
@@ -77,67 +199,464 @@ function AudioPlayerControls({ player, onShare }: { player: AudioPlayer; onShare
 
 // ─── Chat View ───
 
-function ChatView({ segments }: { segments: DiarizedSegment[] }) {
-  const speakerColors: Record<string, { bg: string; text: string; align: 'flex-start' | 'flex-end' }> = {};
-  const palette = [
-    { bg: colors.primary + '20', text: colors.primary },
-    { bg: colors.secondary + '20', text: colors.secondary },
-    { bg: '#E8F5E9', text: '#2E7D32' },
-    { bg: '#FFF3E0', text: '#E65100' },
-  ];
-
-  let colorIdx = 0;
-  segments.forEach(seg => {
-    if (!speakerColors[seg.speaker]) {
-      const color = palette[colorIdx % palette.length];
-      speakerColors[seg.speaker] = {
-        bg: color.bg,
-        text: color.text,
-        align: colorIdx === 0 ? 'flex-end' : 'flex-start',
-      };
-      colorIdx++;
-    }
+interface ChatViewProps {
+  segments: DiarizedSegment[];
+  speakers: Speaker[];
+  markers: RecordingMarker[];
+  activeIndex: number;
+  onSeek: (seconds: number) => void;
+  onReassign: (index: number) => void;
+  onItemLayout: (index: number, y: number) => void;
+}
+
+function ChatView({ segments, speakers, markers, activeIndex, onSeek, onReassign, onItemLayout }: ChatViewProps) {
+  const markersBySegment = groupMarkersBySegment(segments.map((seg) => parseTimestamp(seg.start)), markers);
+  const rightKey = rightAlignedSpeaker(speakers);
+  const speakerColors: Record<string, { bg: string; text: string; name: string; align: 'flex-start' | 'flex-end' }> = {};
+  speakers.forEach(speaker => {
+    speakerColors[speaker.key] = {
+      bg: speaker.color + '20',
+      text: speaker.color,
+      name: speaker.name,
+      align: speaker.key === rightKey ? 'flex-end' : 'flex-start',
+    };
   });
 
   return (
     <View style={chatStyles.container}>
+      <MarkerRows markers={markersBySegment[-1]} onSeek={onSeek} />
       {segments.map((seg, idx) => {
-        const sc = speakerColors[seg.speaker];
+        const sc = speakerColors[seg.speaker] ?? { bg: colors.surfaceVariant, text: colors.onSurfaceVariant, name: seg.speaker, align: 'flex-start' };
         const isRight = sc.align === 'flex-end';
         const showSpeaker = idx === 0 || segments[idx - 1].speaker !== seg.speaker;
+        const isActive = idx === activeIndex;
 
         return (
-          <View key={idx} style={[chatStyles.row, { justifyContent: sc.align }]}>
-            <View style={[chatStyles.bubble, { backgroundColor: sc.bg, maxWidth: '85%' }]}>
-              {showSpeaker && (
-                <Text style={[chatStyles.speaker, { color: sc.text }]}>{seg.speaker}</Text>
-              )}
-              <Text style={chatStyles.messageText}>{seg.text}</Text>
-              <Text style={[chatStyles.timestamp, { textAlign: isRight ? 'right' : 'left' }]}>
-                {seg.start}{seg.end && seg.end !== seg.start ? ` - ${seg.end}` : ''}
-              </Text>
+          <Fragment key={idx}>
+            <View
+              style={[chatStyles.row, { justifyContent: sc.align }]}
+              onLayout={(e) => onItemLayout(idx, e.nativeEvent.layout.y)}
+            >
+              <Pressable
+                onPress={() => onSeek(parseTimestamp(seg.start))}
+                onLongPress={() => onReassign(idx)}
+                style={[chatStyles.bubble, { backgroundColor: sc.bg, maxWidth: '85%' }, isActive && { borderColor: sc.text }]}
+              >
+                {showSpeaker && (
+                  <Text style={[chatStyles.speaker, { color: sc.text }]}>{sc.name}</Text>
+                )}
+                <Text style={chatStyles.messageText}>{seg.text}</Text>
+                <Text style={[chatStyles.timestamp, { textAlign: isRight ? 'right' : 'left' }]}>
+                  {seg.start}{seg.end && seg.end !== seg.start ? ` - ${seg.end}` : ''}
+                </Text>
+              </Pressable>
             </View>
-          </View>
+            <MarkerRows markers={markersBySegment[idx]} onSeek={onSeek} />
+          </Fragment>
         );
       })}
     </View>
   );
 }
 
+// ─── Speakers ───
+
+function SpeakerBar({ speakers, onEdit }: { speakers: Speaker[]; onEdit: (speaker: Speaker) => void }) {
+  return (
+    <View style={speakerStyles.bar}>
+      {speakers.map((speaker) => (
+        <Pressable key={speaker.key} onPress={() => onEdit(speaker)} style={[speakerStyles.chip, { borderColor: speaker.color }]}>
+          <View style={[speakerStyles.dot, { backgroundColor: speaker.color }]} />
+          <Text style={speakerStyles.chipText}>{speaker.name}</Text>
+          <Text style={speakerStyles.chipRole}>{SPEAKER_ROLE_LABELS[speaker.role]}</Text>
+        </Pressable>
+      ))}
+      <Text style={speakerStyles.hint}>Toque num falante para editar • segure uma fala para trocar quem disse</Text>
+    </View>
+  );
+}
+
+interface SpeakerEditDialogProps {
+  speaker: Speaker | null;
+  speakers: Speaker[];
+  onDismiss: () => void;
+  onSave: (speaker: Speaker) => void;
+  onMerge: (fromKey: string, intoKey: string) => void;
+}
+
+function SpeakerEditDialog({ speaker, speakers, onDismiss, onSave, onMerge }: SpeakerEditDialogProps) {
+  const [draft, setDraft] = useState<Speaker | null>(speaker);
+  useEffect(() => setDraft(speaker), [speaker]);
+
+  if (!speaker || !draft) return null;
+  const others = speakers.filter(s => s.key !== speaker.key);
+
+  return (
+    <Portal>
+      <Dialog visible onDismiss={onDismiss} style={speakerStyles.dialog}>
+        <Dialog.Title style={speakerStyles.dialogTitle}>Falante</Dialog.Title>
+        <Dialog.ScrollArea style={speakerStyles.dialogScroll}>
+          <ScrollView>
+            <TextInput
+              style={speakerStyles.nameInput}
+              value={draft.name}
+              onChangeText={(name) => setDraft({ ...draft, name })}
+              placeholder="Nome (ex.: Dr. Silva)"
+              placeholderTextColor={colors.onSurfaceVariant}
+            />
+
+            <Text style={speakerStyles.label}>Papel</Text>
+            <View style={speakerStyles.optionRow}>
+              {(Object.keys(SPEAKER_ROLE_LABELS) as SpeakerRole[]).map((role) => (
+                <Pressable
+                  key={role}
+                  onPress={() => setDraft({ ...draft, role })}
+                  style={[speakerStyles.option, draft.role === role && { backgroundColor: colors.primaryContainer }]}
+                >
+                  <Text style={speakerStyles.optionText}>{SPEAKER_ROLE_LABELS[role]}</Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={speakerStyles.label}>Cor</Text>
+            <View style={speakerStyles.optionRow}>
+              {speakerPalette.map((color) => (
+                <Pressable
+                  key={color}
+                  onPress={() => setDraft({ ...draft, color })}
+                  style={[speakerStyles.swatch, { backgroundColor: color }, draft.color === color && speakerStyles.swatchSelected]}
+                />
+              ))}
+            </View>
+
+            {others.length > 0 && (
+              <>
+                <Text style={speakerStyles.label}>Mesclar com outro falante</Text>
+                <View style={speakerStyles.optionRow}>
+                  {others.map((other) => (
+                    <Pressable key={other.key} onPress={() => onMerge(speaker.key, other.key)} style={speakerStyles.option}>
+                      <Text style={speakerStyles.optionText}>→ {other.name}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} textColor={colors.onSurfaceVariant}>Cancelar</Button>
+          <Button onPress={() => onSave({ ...draft, name: draft.name.trim() || speaker.name })}>Salvar</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+interface ReassignDialogProps {
+  segment: DiarizedSegment | null;
+  speakers: Speaker[];
+  onDismiss: () => void;
+  onSelect: (key: string) => void;
+}
+
+function ReassignDialog({ segment, speakers, onDismiss, onSelect }: ReassignDialogProps) {
+  if (!segment) return null;
+  return (
+    <Portal>
+      <Dialog visible onDismiss={onDismiss} style={speakerStyles.dialog}>
+        <Dialog.Title style={speakerStyles.dialogTitle}>Quem disse isto?</Dialog.Title>
+        <Dialog.Content>
+          <Text style={speakerStyles.quote} numberOfLines={3}>"{segment.text}"</Text>
+          {speakers.map((speaker) => (
+            <Pressable key={speaker.key} onPress={() => onSelect(speaker.key)} style={speakerStyles.reassignRow}>
+              <View style={[speakerStyles.dot, { backgroundColor: speaker.color }]} />
+              <Text style={speakerStyles.chipText}>{speaker.name}</Text>
+              {speaker.key === segment.speaker && <Text style={speakerStyles.chipRole}>(atual)</Text>}
+            </Pressable>
+          ))}
+        </Dialog.Content>
+        <Dialog.Actions>
+          <Button onPress={onDismiss} textColor={colors.onSurfaceVariant}>Cancelar</Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+}
+
+// ─── Timestamped Transcription ───
+
+interface TranscriptViewProps {
+  segments: TimestampedSegment[];
+  markers: RecordingMarker[];
+  activeIndex: number;
+  onSeek: (seconds: number) => void;
+  onItemLayout: (index: number, y: number) => void;
+}
+
+/** Transcrição trecho a trecho, quando ela veio com timestamps. */
+function TranscriptView({ segments, markers, activeIndex, onSeek, onItemLayout }: TranscriptViewProps) {
+  const markersBySegment = groupMarkersBySegment(segments.map((seg) => seg.start), markers);
+  return (
+    <View>
+      <MarkerRows markers={markersBySegment[-1]} onSeek={onSeek} />
+      {segments.map((seg, idx) => (
+        <Fragment key={idx}>
+          <Text
+            onPress={() => onSeek(seg.start)}
+            onLayout={(e) => onItemLayout(idx, e.nativeEvent.layout.y)}
+            style={[styles.contentText, idx === activeIndex && styles.activeSentence]}
+          >
+            {seg.text}
+          </Text>
+          <MarkerRows markers={markersBySegment[idx]} onSeek={onSeek} />
+        </Fragment>
+      ))}
+    </View>
+  );
+}
+
+// ─── Markers ───
+
+/** Marcadores exibidos no texto, tocáveis para ouvir aquele momento. */
+function MarkerRows({ markers, onSeek }: { markers?: RecordingMarker[]; onSeek: (seconds: number) => void }) {
+  if (!markers || markers.length === 0) return null;
+  return (
+    <>
+      {markers.map((marker, idx) => (
+        <Pressable key={idx} onPress={() => onSeek(marker.time)} style={markerStyles.row}>
+          <Icon source="bookmark" size={16} color={markerColor} />
+          <Text style={markerStyles.time}>{formatTimestamp(marker.time)}</Text>
+          <Text style={markerStyles.note}>{marker.note ?? 'Momento marcado'}</Text>
+        </Pressable>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Agrupa os marcadores pelo trecho em que caem (o último que começou antes
+ * deles); a chave -1 reúne os que vêm antes do primeiro trecho.
+ */
+function groupMarkersBySegment(starts: number[], markers: RecordingMarker[]): Record<number, RecordingMarker[]> {
+  const groups: Record<number, RecordingMarker[]> = {};
+  for (const marker of [...markers].sort((a, b) => a.time - b.time)) {
+    const index = findActiveIndex(starts, marker.time);
+    (groups[index] ??= []).push(marker);
+  }
+  return groups;
+}
+
+/** Último trecho que já começou na posição atual do player. */
+function findActiveIndex(starts: number[], time: number): number {
+  let active = -1;
+  for (let i = 0; i < starts.length && starts[i] <= time; i++) active = i;
+  return active;
+}
+
+// ─── Markdown ───
+
+function renderInline(text: string, baseKey: string) {
+  return text.split(/(\*\*[^*]+\*\*)/g).map((part, i) =>
+    part.length > 4 && part.startsWith('**') && part.endsWith('**')
+      ? <Text key={`${baseKey}-${i}`} style={mdStyles.bold}>{part.slice(2, -2)}</Text>
+      : part
+  );
+}
+
+/** Renderiza o subconjunto de markdown que os modelos usam no dossiê. */
+function MarkdownText({ text }: { text: string }) {
+  return (
+    <View>
+      {text.split('\n').map((line, idx) => {
+        const trimmed = line.trim();
+        const key = String(idx);
+        if (!trimmed) return <View key={key} style={mdStyles.spacer} />;
+        if (/^-{3,}$/.test(trimmed)) return <View key={key} style={mdStyles.rule} />;
+
+        const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+        if (heading) {
+          const style = heading[1].length <= 2 ? mdStyles.h2 : mdStyles.h3;
+          return <Text key={key} style={style}>{renderInline(heading[2], key)}</Text>;
+        }
+
+        const bullet = trimmed.match(/^(?:[-*•]|(\d+)[.)])\s+(.*)$/);
+        if (bullet) {
+          return (
+            <View key={key} style={mdStyles.bulletRow}>
+              <Text style={mdStyles.bullet}>{bullet[1] ? `${bullet[1]}.` : '•'}</Text>
+              <Text style={mdStyles.bulletText}>{renderInline(bullet[2], key)}</Text>
+            </View>
+          );
+        }
+
+        return <Text key={key} style={mdStyles.paragraph}>{renderInline(trimmed, key)}</Text>;
+      })}
+    </View>
+  );
+}
+
+// ─── Structured Dossier ───
+
+function DossierSection({ title, count, hidden, children }: { title: string; count: number; hidden: boolean; children: ReactNode }) {
+  if (hidden) return null;
+  return (
+    <View style={dossierStyles.section}>
+      <Text style={dossierStyles.sectionTitle}>{title}</Text>
+      {count > 0 ? children : <Text style={dossierStyles.empty}>Nada consta.</Text>}
+    </View>
+  );
+}
+
+/**
+ * Dossiê seção a seção. Durante o streaming as seções que ainda não chegaram
+ * ficam ocultas em vez de aparecerem como vazias.
+ */
+function StructuredDossierView({ dossier, isStreaming }: { dossier: StructuredDossier; isStreaming: boolean }) {
+  const hide = (items: unknown[]) => isStreaming && items.length === 0;
+
+  return (
+    <View>
+      <DossierSection title="Partes" count={dossier.parties.length} hidden={hide(dossier.parties)}>
+        {dossier.parties.map((party, idx) => (
+          <View key={idx} style={dossierStyles.item}>
+            <Text style={dossierStyles.itemTitle}>
+              {party.name} <Text style={dossierStyles.badge}>{party.role}</Text>
+            </Text>
+            {party.notes && <Text style={dossierStyles.itemDetail}>{party.notes}</Text>}
+          </View>
+        ))}
+      </DossierSection>
+
+      <DossierSection title="Fatos" count={dossier.facts.length} hidden={hide(dossier.facts)}>
+        {dossier.facts.map((fact, idx) => (
+          <View key={idx} style={dossierStyles.factRow}>
+            <Text style={dossierStyles.factDate}>{fact.date || 's/ data'}</Text>
+            <Text style={dossierStyles.factText}>{fact.description}</Text>
+          </View>
+        ))}
+      </DossierSection>
+
+      <DossierSection title="Questões jurídicas" count={dossier.legalIssues.length} hidden={hide(dossier.legalIssues)}>
+        {dossier.legalIssues.map((issue, idx) => (
+          <View key={idx} style={dossierStyles.item}>
+            <Text style={dossierStyles.itemTitle}>{issue.issue}</Text>
+            {issue.details && <Text style={dossierStyles.itemDetail}>{issue.details}</Text>}
+          </View>
+        ))}
+      </DossierSection>
+
+      <DossierSection title="Documentos" count={dossier.documents.length} hidden={hide(dossier.documents)}>
+        {dossier.documents.map((doc, idx) => (
+          <View key={idx} style={mdStyles.bulletRow}>
+            <Text style={mdStyles.bullet}>•</Text>
+            <Text style={mdStyles.bulletText}>
+              {doc.name}{doc.status && <Text style={dossierStyles.itemDetail}> ({doc.status})</Text>}
+            </Text>
+          </View>
+        ))}
+      </DossierSection>
+
+      <DossierSection title="Providências" count={dossier.actionItems.length} hidden={hide(dossier.actionItems)}>
+        {dossier.actionItems.map((action, idx) => (
+          <View key={idx} style={dossierStyles.item}>
+            <Text style={dossierStyles.itemTitle}>{action.task}</Text>
+            {(action.deadline || action.responsible) && (
+              <Text style={dossierStyles.itemDetail}>
+                {[action.responsible, action.deadline ? `Prazo: ${action.deadline}` : null].filter(Boolean).join(' • ')}
+              </Text>
+            )}
+          </View>
+        ))}
+      </DossierSection>
+
+      <DossierSection title="Observações" count={dossier.observations.length} hidden={hide(dossier.observations)}>
+        {dossier.observations.map((observation, idx) => (
+          <View key={idx} style={mdStyles.bulletRow}>
+            <Text style={mdStyles.bullet}>•</Text>
+            <Text style={mdStyles.bulletText}>{observation}</Text>
+          </View>
+        ))}
+      </DossierSection>
+
+      {dossier.extraSections.map((section, sectionIdx) => (
+        <DossierSection key={sectionIdx} title={section.title} count={section.items.length} hidden={false}>
+          {section.items.map((item, idx) => (
+            <View key={idx} style={mdStyles.bulletRow}>
+              <Text style={mdStyles.bullet}>•</Text>
+              <Text style={mdStyles.bulletText}>{item}</Text>
+            </View>
+          ))}
+        </DossierSection>
+      ))}
+    </View>
+  );
+}
+
 // ─── Main Screen ───
 
 type TabValue = 'transcription' | 'dialogue' | 'dossier';
 
 export default function DetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
   const [recording, setRecording] = useState<Recording | null>(null);
   const [tab, setTab] = useState<TabValue>('transcription');
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [isDiarizing, setIsDiarizing] = useState(false);
   const [isGeneratingDossier, setIsGeneratingDossier] = useState(false);
+  const [streamingDossier, setStreamingDossier] = useState<StructuredDossier | null>(null);
   const [progressText, setProgressText] = useState('');
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [templates, setTemplates] = useState<DossierTemplate[]>([]);
+  const [template, setTemplate] = useState<DossierTemplate | null>(null);
+  const [isTemplateMenuOpen, setIsTemplateMenuOpen] = useState(false);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editTitle, setEditTitle] = useState('');
+  const [editingSpeaker, setEditingSpeaker] = useState<Speaker | null>(null);
+  const [reassignIndex, setReassignIndex] = useState<number | null>(null);
+  const contentScrollRef = useRef<ScrollView>(null);
+  const itemOffsets = useRef<Record<string, number>>({});
+  const [skipSilence, setSkipSilence] = useState(false);
+  const [silenceThresholdDb, setSilenceThresholdDb] = useState(DEFAULT_VAD_SETTINGS.silenceThresholdDb);
+
+  const diarized = useMemo(() => isDiarizedTranscription(recording?.dialogue ?? null), [recording?.dialogue]);
+  const transcriptSegments = useMemo(() => (recording ? getTranscriptionSegments(recording) : null), [recording]);
+  const speakers = useMemo(
+    () => (diarized && recording ? resolveSpeakers(diarized, getSpeakers(recording)) : []),
+    [diarized, recording?.speakers]
+  );
+  const markers = useMemo(() => (recording ? getMarkers(recording) : []), [recording?.markers]);
+  const waveform = useMemo(() => (recording ? getWaveform(recording) : null), [recording?.waveform]);
+  const waveformBars = useMemo(() => (waveform ? downsampleWaveform(waveform, WAVEFORM_BARS) : []), [waveform]);
+  const silentRanges = useMemo(
+    () => (waveform ? findSilentRanges(waveform, silenceThresholdDb) : []),
+    [waveform, silenceThresholdDb]
+  );
+  const dialogueStarts = useMemo(() => diarized?.segments.map((seg) => parseTimestamp(seg.start)) ?? [], [diarized]);
+  // Where the previous/next buttons stop: bookmarks and each change of speaker
+  const jumpPoints = useMemo(() => {
+    const turns = diarized
+      ? diarized.segments
+          .filter((seg, idx) => idx === 0 || seg.speaker !== diarized.segments[idx - 1].speaker)
+          .map((seg) => parseTimestamp(seg.start))
+      : [];
+    return [...new Set([...markers.map((m) => m.time), ...turns])].sort((a, b) => a - b);
+  }, [markers, diarized]);
+  const { controls, playback } = useRecordingPlayer(recording, silentRanges, skipSilence);
+
+  // Highlight follows the player once playback has started
+  const hasPlaybackPosition = playback.playing || playback.time > 0;
+  const activeDialogueIdx = hasPlaybackPosition ? findActiveIndex(dialogueStarts, playback.time) : -1;
+  const activeTranscriptIdx = hasPlaybackPosition && transcriptSegments
+    ? findActiveIndex(transcriptSegments.map((seg) => seg.start), playback.time)
+    : -1;
+  const activeIdx = tab === 'dialogue' ? activeDialogueIdx : tab === 'transcription' ? activeTranscriptIdx : -1;
+
+  useEffect(() => {
+    if (!playback.playing || activeIdx < 0) return;
+    const y = itemOffsets.current[`${tab}-${activeIdx}`];
+    if (y !== undefined) contentScrollRef.current?.scrollTo({ y: Math.max(0, y - 80), animated: true });
+  }, [activeIdx, tab]);
 
   useFocusEffect(
     useCallback(() => {
@@ -149,10 +668,81 @@ export default function DetailScreen() {
     if (!id) return;
     const data = await getRecording(parseInt(id));
     setRecording(data);
+    if (!data) return;
+    setUsage(await getRecordingUsage(data.id));
+    setTemplates(await getAllTemplates());
+    const settings = await getSettings();
+    setSilenceThresholdDb(settings.vad.silenceThresholdDb);
+    // Recordings made before templates existed follow the default from settings
+    setTemplate(await resolveTemplate(data.template_id ?? settings.dossierTemplateId));
+  }
+
+  async function handleTemplateChange(selected: DossierTemplate) {
+    setIsTemplateMenuOpen(false);
+    if (!recording) return;
+    setTemplate(selected);
+    await updateTemplateChoice(recording.id, selected.id);
   }
 
   const isBusy = isTranscribing || isDiarizing || isGeneratingDossier;
 
+  // ─── Speakers ───
+
+  async function saveDialogue(dialogue: DiarizedTranscription, nextSpeakers: Speaker[]) {
+    if (!recording) return;
+    const dialogueJson = JSON.stringify(dialogue);
+    const speakersJson = JSON.stringify(nextSpeakers);
+    await updateDialogue(recording.id, dialogueJson);
+    await updateSpeakers(recording.id, nextSpeakers);
+    setRecording({ ...recording, dialogue: dialogueJson, speakers: speakersJson });
+  }
+
+  async function handleSaveSpeaker(speaker: Speaker) {
+    if (!recording) return;
+    const nextSpeakers = updateSpeaker(speakers, speaker);
+    setEditingSpeaker(null);
+    await updateSpeakers(recording.id, nextSpeakers);
+    setRecording({ ...recording, speakers: JSON.stringify(nextSpeakers) });
+  }
+
+  function handleMergeSpeaker(fromKey: string, intoKey: string) {
+    if (!diarized) return;
+    Alert.alert(
+      'Mesclar falantes',
+      `Todas as falas de "${speakerName(speakers, fromKey)}" passarão para "${speakerName(speakers, intoKey)}".`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Mesclar',
+          onPress: async () => {
+            setEditingSpeaker(null);
+            const merged = mergeSpeakers(diarized, speakers, fromKey, intoKey);
+            await saveDialogue(merged.dialogue, merged.speakers);
+          },
+        },
+      ]
+    );
+  }
+
+  async function handleReassign(key: string) {
+    if (!diarized || reassignIndex === null) return;
+    const index = reassignIndex;
+    setReassignIndex(null);
+    await saveDialogue(reassignSegment(diarized, index, key), speakers);
+  }
+
+  function handleSeek(seconds: number) {
+    if (!controls) return;
+    controls.seekTo(seconds);
+    if (!playback.playing) controls.play();
+  }
+
+  function trackItemLayout(itemTab: TabValue) {
+    return (index: number, y: number) => {
+      itemOffsets.current[`${itemTab}-${index}`] = y;
+    };
+  }
+
   function startEditingTitle() {
     if (!recording) return;
     setEditTitle(recording.title);
@@ -171,29 +761,44 @@ export default function DetailScreen() {
 
   // ─── Actions ───
 
+  function trackUsage(recordingId: number, operation: UsageOperation): UsageListener {
+    return (event) => {
+      recordUsage(recordingId, operation, event).catch((error) => {
+        console.log('[DETAIL] Failed to record usage:', error);
+      });
+    };
+  }
+
+  function showTranscriptionProgress({ completed, total }: TranscriptionProgress) {
+    if (total <= 1) return;
+    setProgressText(`Transcrevendo áudio em partes... (${completed}/${total})`);
+  }
+
   async function handleTranscribe() {
     if (!recording) return;
     const settings = await getSettings();
-    if (!settings.apiKey) {
-      Alert.alert('Configuração necessária', 'Configure sua chave de API em Configurações.');
+    if (!isProviderConfigured(settings)) {
+      Alert.alert('Configuração necessária', 'Configure sua chave de API ou servidor em Configurações.');
       return;
     }
 
     setIsTranscribing(true);
     try {
       setProgressText('Transcrevendo áudio na íntegra...');
-      const transcription = await transcribeAudio(
+      const transcription = await transcribeRecording(
         settings.provider,
         settings.apiKey,
-        recording.file_path,
-        settings.transcriptionModel
+        recording,
+        settings.transcriptionModel,
+        showTranscriptionProgress,
+        trackUsage(recording.id, 'transcription')
       );
       await updateTranscription(recording.id, transcription);
       await loadRecording();
       setTab('transcription');
       Alert.alert('Sucesso', 'Transcrição concluída!');
     } catch (error: any) {
-      Alert.alert('Erro na transcrição', error.message || 'Falha ao transcrever');
+      Alert.alert('Erro na transcrição', formatErrorForUser(error, 'Falha ao transcrever'));
     } finally {
       setIsTranscribing(false);
       setProgressText('');
@@ -203,8 +808,8 @@ export default function DetailScreen() {
   async function handleDiarize() {
     if (!recording) return;
     const settings = await getSettings();
-    if (!settings.apiKey) {
-      Alert.alert('Configuração necessária', 'Configure sua chave de API em Configurações.');
+    if (!isProviderConfigured(settings)) {
+      Alert.alert('Configuração necessária', 'Configure sua chave de API ou servidor em Configurações.');
       return;
     }
 
@@ -212,40 +817,41 @@ export default function DetailScreen() {
     try {
       // Step 1: Transcribe full audio with timestamps
       setProgressText('Transcrevendo áudio na íntegra...');
-      const result = await transcribeAudioWithTimestamps(
+      const result = await transcribeRecordingWithTimestamps(
         settings.provider,
         settings.apiKey,
-        recording.file_path,
-        settings.transcriptionModel
+        recording,
+        settings.transcriptionModel,
+        showTranscriptionProgress,
+        trackUsage(recording.id, 'transcription')
       );
 
       // Step 2: Diarize with LLM
       setProgressText('Identificando interlocutores...');
-      const diarizedSegments = await diarizeTranscription(
+      const diarizedResult = await diarizeTranscription(
         settings.provider,
         settings.apiKey,
         result.segments,
-        settings.dossierModel
+        settings.dossierModel,
+        ({ completed, total }) => {
+          if (total > 1) setProgressText(`Identificando interlocutores... (${completed}/${total})`);
+        },
+        trackUsage(recording.id, 'diarization')
       );
 
-      const diarizedResult: DiarizedTranscription = {
-        diarized: true,
-        segments: diarizedSegments,
-        plainText: result.plainText || '',
-      };
-
       await updateDialogue(recording.id, JSON.stringify(diarizedResult));
 
-      // Also save plain transcription if not exists
+      // Also save plain transcription if not exists, keeping its timestamps for playback sync
       if (!recording.transcription) {
-        await updateTranscription(recording.id, diarizedResult.plainText);
+        const hasTimestamps = result.segments.some(seg => seg.end > 0);
+        await updateTranscription(recording.id, diarizedResult.plainText, hasTimestamps ? result.segments : null);
       }
 
       await loadRecording();
       setTab('dialogue');
       Alert.alert('Sucesso', 'Diálogo gerado com identificação de interlocutores!');
     } catch (error: any) {
-      Alert.alert('Erro na diarização', error.message || 'Falha ao gerar diálogo');
+      Alert.alert('Erro na diarização', formatErrorForUser(error, 'Falha ao gerar diálogo'));
     } finally {
       setIsDiarizing(false);
       setProgressText('');
@@ -255,46 +861,85 @@ export default function DetailScreen() {
   async function handleGenerateDossier() {
     if (!recording) return;
     const settings = await getSettings();
-    if (!settings.apiKey) {
-      Alert.alert('Configuração necessária', 'Configure sua chave de API em Configurações.');
+    if (!isProviderConfigured(settings)) {
+      Alert.alert('Configuração necessária', 'Configure sua chave de API ou servidor em Configurações.');
       return;
     }
 
     setIsGeneratingDossier(true);
+    let partialDossier: StructuredDossier | null = null;
     try {
       // If no transcription yet, transcribe full audio first
       let transcriptionText = recording.transcription;
       if (!transcriptionText) {
         setProgressText('Transcrevendo áudio na íntegra...');
-        transcriptionText = await transcribeAudio(
+        transcriptionText = await transcribeRecording(
           settings.provider,
           settings.apiKey,
-          recording.file_path,
-          settings.transcriptionModel
+          recording,
+          settings.transcriptionModel,
+          showTranscriptionProgress,
+          trackUsage(recording.id, 'transcription')
         );
         await updateTranscription(recording.id, transcriptionText);
       }
 
       setProgressText('Gerando dossiê...');
-      const dossier = await generateDossier(
+      setStreamingDossier(createEmptyDossier());
+      setTab('dossier');
+      const dossier = await generateDossierStream(
         settings.provider,
         settings.apiKey,
         transcriptionText,
-        settings.dossierModel
+        settings.dossierModel,
+        template,
+        (partial) => {
+          partialDossier = partial;
+          setStreamingDossier(partial);
+        },
+        trackUsage(recording.id, 'dossier'),
+        { markers, segments: transcriptSegments }
       );
 
-      await updateDossier(recording.id, dossier);
+      // Persist only once the stream has completed and the JSON validated
+      await updateDossier(recording.id, dossier.markdown, JSON.stringify(dossier.structured), template?.id ?? null);
       await loadRecording();
-      setTab('dossier');
       Alert.alert('Sucesso', 'Dossiê gerado!');
     } catch (error: any) {
-      Alert.alert('Erro ao gerar dossiê', error.message || 'Falha ao gerar o dossiê');
+      const message = formatErrorForUser(error, 'Falha ao gerar o dossiê');
+      if (partialDossier && !isDossierEmpty(partialDossier)) {
+        offerToKeepPartialDossier(recording.id, partialDossier, message);
+      } else {
+        Alert.alert('Erro ao gerar dossiê', message);
+      }
     } finally {
+      setStreamingDossier(null);
       setIsGeneratingDossier(false);
       setProgressText('');
     }
   }
 
+  function offerToKeepPartialDossier(recordingId: number, partial: StructuredDossier, message: string) {
+    const templateId = template?.id ?? null;
+    Alert.alert(
+      'Geração interrompida',
+      `${message}\n\nDeseja manter o trecho do dossiê já gerado?`,
+      [
+        { text: 'Descartar', style: 'destructive' },
+        {
+          text: 'Manter parcial',
+          onPress: async () => {
+            // Unvalidated output is kept as text only, never as structured data
+            const markdown = structuredDossierToMarkdown(partial);
+            await updateDossier(recordingId, `${markdown}\n\n---\n*Dossiê incompleto: a geração foi interrompida.*`, null, templateId);
+            await loadRecording();
+            setTab('dossier');
+          },
+        },
+      ]
+    );
+  }
+
   // ─── Copy & Share ───
 
   function getActiveTabText(): string | null {
@@ -303,7 +948,7 @@ export default function DetailScreen() {
     if (tab === 'dialogue') {
       const d = isDiarizedTranscription(recording.dialogue);
       if (!d) return null;
-      return d.segments.map(s => `[${s.start}] ${s.speaker}: ${s.text}`).join('\n');
+      return d.segments.map(s => `[${s.start}] ${speakerName(speakers, s.speaker)}: ${s.text}`).join('\n');
     }
     if (tab === 'dossier') return recording.dossier;
     return null;
@@ -320,7 +965,7 @@ export default function DetailScreen() {
     if (!recording?.file_path) return;
     try {
       await Sharing.shareAsync(recording.file_path, {
-        mimeType: 'audio/m4a',
+        mimeType: detectAudioMimeType(recording.file_path),
         dialogTitle: `Áudio - ${recording.title}`,
       });
     } catch {
@@ -343,7 +988,7 @@ export default function DetailScreen() {
       if (d) {
         contentHtml = d.segments.map(seg =>
           `<div style="margin-bottom: 12px;">
-            <strong style="color: #6c63ff;">${seg.speaker}</strong>
+            <strong style="color: ${speakers.find(s => s.key === seg.speaker)?.color ?? '#6c63ff'};">${speakerName(speakers, seg.speaker)}</strong>
             <span style="color: #999; font-size: 12px; margin-left: 8px;">${seg.start}${seg.end && seg.end !== seg.start ? ` - ${seg.end}` : ''}</span>
             <p style="margin: 4px 0 0 0;">${seg.text}</p>
           </div>`
@@ -400,9 +1045,12 @@ export default function DetailScreen() {
 
   const hasTranscription = !!recording.transcription;
   const hasDialogue = !!recording.dialogue;
-  const hasDossier = !!recording.dossier;
+  const isStreamingDossier = streamingDossier !== null;
+  const structuredDossier = streamingDossier ?? parseStoredDossier(recording.dossier_json);
+  const hasDossier = !!recording.dossier || isStreamingDossier;
+  const setup = getRecordingSetup(recording);
+  const dossierTemplateName = templates.find((t) => t.id === recording.dossier_template_id)?.name;
   const hasAnyContent = hasTranscription || hasDialogue || hasDossier;
-  const diarized = isDiarizedTranscription(recording.dialogue);
   const activeTabHasContent = getActiveTabText();
 
   return (
@@ -446,12 +1094,27 @@ export default function DetailScreen() {
               day: '2-digit', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit',
             })}
             {' • '}{formatDuration(recording.duration)}
+            {usage && usage.calls > 0 ? ` • Custo IA: ${formatCostUsd(usage.cost_usd)}` : ''}
           </Text>
+          {setup && (
+            <Text style={styles.metaDetail}>Captura: {describeRecordingProfile(setup.full)}</Text>
+          )}
         </Card.Content>
       </Card>
 
       {/* Audio Player */}
-      <AudioPlayerBar filePath={recording.file_path} onShare={handleShareAudio} />
+      {controls && (
+        <AudioPlayerControls
+          playback={playback}
+          controls={controls}
+          markers={markers}
+          waveform={waveformBars}
+          jumpPoints={jumpPoints}
+          skipSilence={skipSilence}
+          onToggleSkipSilence={silentRanges.length > 0 ? () => setSkipSilence(!skipSilence) : null}
+          onShare={handleShareAudio}
+        />
+      )}
 
       {/* Action Buttons */}
       <View style={styles.actions}>
@@ -492,6 +1155,29 @@ export default function DetailScreen() {
             Dossiê
           </Button>
         </View>
+        {template && (
+          <Menu
+            visible={isTemplateMenuOpen}
+            onDismiss={() => setIsTemplateMenuOpen(false)}
+            anchor={
+              <Pressable onPress={() => setIsTemplateMenuOpen(true)} disabled={isBusy}>
+                <Text style={styles.templateLabel}>Modelo do dossiê: {template.name} ▾</Text>
+              </Pressable>
+            }
+          >
+            {templates.map((t) => (
+              <Menu.Item
+                key={t.id}
+                title={t.name}
+                leadingIcon={t.id === template.id ? 'check' : undefined}
+                onPress={() => handleTemplateChange(t)}
+              />
+            ))}
+          </Menu>
+        )}
+        <Pressable onPress={() => router.push(`/benchmark/${recording.id}`)} disabled={isBusy}>
+          <Text style={styles.templateLabel}>Comparar modelos de transcrição ›</Text>
+        </Pressable>
       </View>
 
       {/* Tabs + Content */}
@@ -520,15 +1206,57 @@ export default function DetailScreen() {
             )}
           </View>
 
-          <ScrollView style={styles.contentScroll} contentContainerStyle={styles.contentContainer}>
-            {tab === 'transcription' && (
-              <Text style={styles.contentText}>{recording.transcription}</Text>
+          <ScrollView
+            ref={contentScrollRef}
+            style={styles.contentScroll}
+            contentContainerStyle={styles.contentContainer}
+            onContentSizeChange={() => {
+              if (isStreamingDossier) contentScrollRef.current?.scrollToEnd({ animated: true });
+            }}
+          >
+            {tab === 'transcription' && transcriptSegments && (
+              <TranscriptView
+                segments={transcriptSegments}
+                markers={markers}
+                activeIndex={activeTranscriptIdx}
+                onSeek={handleSeek}
+                onItemLayout={trackItemLayout('transcription')}
+              />
+            )}
+            {tab === 'transcription' && !transcriptSegments && (
+              <>
+                <MarkerRows markers={markers} onSeek={handleSeek} />
+                <Text style={styles.contentText}>{recording.transcription}</Text>
+              </>
             )}
             {tab === 'dialogue' && diarized && (
-              <ChatView segments={diarized.segments} />
+              <>
+                <SpeakerBar speakers={speakers} onEdit={setEditingSpeaker} />
+                <ChatView
+                  segments={diarized.segments}
+                  speakers={speakers}
+                  markers={markers}
+                  activeIndex={activeDialogueIdx}
+                  onSeek={handleSeek}
+                  onReassign={setReassignIndex}
+                  onItemLayout={trackItemLayout('dialogue')}
+                />
+              </>
+            )}
+            {tab === 'dossier' && !isStreamingDossier && dossierTemplateName && (
+              <Text style={styles.templateCaption}>Gerado com o modelo {dossierTemplateName}</Text>
+            )}
+            {tab === 'dossier' && structuredDossier && (
+              <StructuredDossierView dossier={structuredDossier} isStreaming={isStreamingDossier} />
             )}
-            {tab === 'dossier' && (
-              <Text style={styles.contentText}>{recording.dossier}</Text>
+            {tab === 'dossier' && !structuredDossier && recording.dossier && (
+              <MarkdownText text={recording.dossier} />
+            )}
+            {tab === 'dossier' && isStreamingDossier && (
+              <View style={styles.streamingRow}>
+                <ActivityIndicator size="small" color={colors.primary} />
+                <Text style={styles.streamingText}>Gerando dossiê...</Text>
+              </View>
             )}
           </ScrollView>
 
@@ -553,7 +1281,7 @@ export default function DetailScreen() {
         </View>
       )}
 
-      {isBusy && (
+      {isBusy && !isStreamingDossier && (
         <View style={styles.emptyContent}>
           <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.emptyText}>
@@ -561,21 +1289,94 @@ export default function DetailScreen() {
           </Text>
         </View>
       )}
+
+      <SpeakerEditDialog
+        speaker={editingSpeaker}
+        speakers={speakers}
+        onDismiss={() => setEditingSpeaker(null)}
+        onSave={handleSaveSpeaker}
+        onMerge={handleMergeSpeaker}
+      />
+      <ReassignDialog
+        segment={reassignIndex !== null ? diarized?.segments[reassignIndex] ?? null : null}
+        speakers={speakers}
+        onDismiss={() => setReassignIndex(null)}
+        onSelect={handleReassign}
+      />
     </View>
   );
 }
 
 // ─── Styles ───
 
+const mdStyles = StyleSheet.create({
+  h2: { fontSize: 17, fontWeight: '700', color: colors.onSurface, marginTop: 8, marginBottom: 4 },
+  h3: { fontSize: 15, fontWeight: '700', color: colors.primary, marginTop: 8, marginBottom: 4 },
+  paragraph: { fontSize: 14, lineHeight: 22, color: colors.onSurface },
+  bold: { fontWeight: '700' },
+  bulletRow: { flexDirection: 'row', paddingLeft: 4 },
+  bullet: { fontSize: 14, lineHeight: 22, color: colors.onSurfaceVariant, width: 20 },
+  bulletText: { flex: 1, fontSize: 14, lineHeight: 22, color: colors.onSurface },
+  spacer: { height: 8 },
+  rule: { height: 1, backgroundColor: colors.outline, marginVertical: 8 },
+});
+
+const dossierStyles = StyleSheet.create({
+  section: { marginBottom: 16 },
+  sectionTitle: { fontSize: 15, fontWeight: '700', color: colors.primary, marginBottom: 6 },
+  empty: { fontSize: 13, fontStyle: 'italic', color: colors.onSurfaceVariant },
+  item: { marginBottom: 8 },
+  itemTitle: { fontSize: 14, lineHeight: 22, fontWeight: '600', color: colors.onSurface },
+  itemDetail: { fontSize: 13, lineHeight: 20, fontWeight: '400', color: colors.onSurfaceVariant },
+  badge: { fontSize: 12, fontWeight: '400', color: colors.onSurfaceVariant },
+  factRow: { flexDirection: 'row', marginBottom: 6 },
+  factDate: { width: 92, fontSize: 12, lineHeight: 22, fontWeight: '600', color: colors.onSurfaceVariant },
+  factText: { flex: 1, fontSize: 14, lineHeight: 22, color: colors.onSurface },
+});
+
 const chatStyles = StyleSheet.create({
   container: { gap: 6 },
   row: { flexDirection: 'row', paddingHorizontal: 4 },
-  bubble: { borderRadius: 16, paddingHorizontal: 14, paddingVertical: 10 },
+  bubble: { borderRadius: 16, paddingHorizontal: 14, paddingVertical: 10, borderWidth: 1.5, borderColor: 'transparent' },
   speaker: { fontSize: 12, fontWeight: '700', marginBottom: 2 },
   messageText: { fontSize: 14, lineHeight: 20, color: colors.onSurface },
   timestamp: { fontSize: 11, color: colors.onSurfaceVariant, marginTop: 4, opacity: 0.7 },
 });
 
+const markerStyles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'flex-start', gap: 6, marginVertical: 6, paddingHorizontal: 8, paddingVertical: 4, borderLeftWidth: 3, borderLeftColor: markerColor, backgroundColor: markerColor + '15', borderRadius: 4 },
+  time: { fontSize: 12, lineHeight: 18, fontWeight: '700', color: markerColor, fontVariant: ['tabular-nums'] },
+  note: { flex: 1, fontSize: 13, lineHeight: 18, color: colors.onSurface },
+});
+
+const speakerStyles = StyleSheet.create({
+  bar: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+  chip: { flexDirection: 'row', alignItems: 'center', gap: 6, borderWidth: 1, borderRadius: 16, paddingHorizontal: 10, paddingVertical: 5 },
+  dot: { width: 10, height: 10, borderRadius: 5 },
+  chipText: { fontSize: 13, fontWeight: '600', color: colors.onSurface },
+  chipRole: { fontSize: 11, color: colors.onSurfaceVariant },
+  hint: { width: '100%', fontSize: 11, color: colors.onSurfaceVariant },
+  dialog: { backgroundColor: colors.surface },
+  dialogTitle: { color: colors.onSurface },
+  dialogScroll: { paddingHorizontal: 24, maxHeight: 420 },
+  nameInput: {
+    fontSize: 15,
+    color: colors.onSurface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.primary,
+    paddingVertical: 6,
+    marginTop: 8,
+  },
+  label: { fontSize: 12, fontWeight: '600', color: colors.onSurfaceVariant, marginTop: 16, marginBottom: 8 },
+  optionRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  option: { borderRadius: 8, borderWidth: 1, borderColor: colors.outline, paddingHorizontal: 10, paddingVertical: 6 },
+  optionText: { fontSize: 13, color: colors.onSurface },
+  swatch: { width: 30, height: 30, borderRadius: 15, borderWidth: 2, borderColor: 'transparent' },
+  swatchSelected: { borderColor: colors.onSurface },
+  quote: { fontSize: 13, fontStyle: 'italic', color: colors.onSurfaceVariant, marginBottom: 12 },
+  reassignRow: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 10 },
+});
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -623,6 +1424,11 @@ const styles = StyleSheet.create({
     color: colors.onSurfaceVariant,
     marginTop: 4,
   },
+  metaDetail: {
+    fontSize: 11,
+    color: colors.onSurfaceVariant,
+    marginTop: 2,
+  },
   playerCard: {
     backgroundColor: colors.surfaceVariant,
     borderRadius: 12,
@@ -638,11 +1444,86 @@ const styles = StyleSheet.create({
     fontVariant: ['tabular-nums'],
     marginBottom: 4,
   },
+  timeline: {
+    alignSelf: 'stretch',
+    height: 24,
+    justifyContent: 'center',
+    marginHorizontal: 8,
+  },
+  timelineTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.outline,
+    overflow: 'hidden',
+  },
+  timelineProgress: {
+    height: 4,
+    backgroundColor: colors.primary,
+  },
+  timelinePin: {
+    position: 'absolute',
+    top: 5,
+    width: 6,
+    height: 14,
+    marginLeft: -3,
+    borderRadius: 3,
+    backgroundColor: markerColor,
+  },
+  timelineWaveform: {
+    height: 36,
+  },
+  timelinePinWaveform: {
+    top: 0,
+    width: 4,
+    height: 36,
+    marginLeft: -2,
+    borderRadius: 2,
+  },
+  waveform: {
+    height: 36,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 1,
+  },
+  waveformBar: {
+    flex: 1,
+    borderRadius: 1,
+    backgroundColor: colors.outline,
+  },
   playerControls: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
   },
+  playerOptions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  playerChip: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.outline,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+  },
+  playerChipActive: {
+    backgroundColor: colors.primaryContainer,
+    borderColor: colors.primary,
+  },
+  playerChipText: {
+    fontSize: 12,
+    color: colors.onSurface,
+    fontVariant: ['tabular-nums'],
+  },
+  playerNote: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    color: colors.onSurfaceVariant,
+    textAlign: 'center',
+    marginTop: 4,
+  },
   actions: {
     marginBottom: 12,
   },
@@ -659,6 +1540,17 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     flex: 1,
   },
+  templateLabel: {
+    fontSize: 12,
+    color: colors.primary,
+    marginTop: 8,
+  },
+  templateCaption: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: colors.onSurfaceVariant,
+    marginBottom: 8,
+  },
   tabs: {
     marginBottom: 8,
   },
@@ -684,6 +1576,20 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     color: colors.onSurface,
   },
+  activeSentence: {
+    backgroundColor: colors.primary + '30',
+    borderRadius: 4,
+  },
+  streamingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  streamingText: {
+    fontSize: 13,
+    color: colors.onSurfaceVariant,
+  },
   exportButton: {
     borderColor: colors.primary,
     borderRadius: 8,
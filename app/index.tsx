@@ -1,15 +1,56 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { View, StyleSheet, FlatList, Alert } from 'react-native';
 import { FAB, Card, Text, IconButton, Chip, Divider } from 'react-native-paper';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { getAllRecordings, deleteRecording, getAudioParts, Recording } from '../src/database/recordings';
 import { formatDuration } from '../src/hooks/useRecorder';
+import { getRecordingSessions, RecordingSession } from '../src/database/sessions';
+import { recoverSession, discardSession, summarizeSession } from '../src/services/sessionRecovery';
+import { mergeRecordings } from '../src/services/recordingFiles';
+import { importAudioFile } from '../src/services/audioImport';
 import { colors } from '../src/constants/theme';
 import { File as FSFile } from 'expo-file-system';
 
+// Interrupted sessions are offered once per app launch, not on every focus
+let hasCheckedInterruptedSessions = false;
+
+type SessionChoice = 'recover' | 'discard' | 'later';
+
+function askAboutSession(session: RecordingSession): Promise<SessionChoice> {
+  const summary = summarizeSession(session);
+  const started = new Date(session.started_at.replace(' ', 'T')).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const details = [
+    `${formatDuration(session.duration)} gravados`,
+    summary.hasFullRecording ? 'arquivo completo' : `${summary.chunks} ${summary.chunks === 1 ? 'trecho' : 'trechos'} de áudio`,
+    summary.hasTranscription ? 'transcrição parcial' : null,
+  ].filter(Boolean).join(', ');
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      'Gravação interrompida',
+      `O atendimento iniciado em ${started} não foi salvo (${details}). Deseja recuperá-lo?`,
+      [
+        { text: 'Agora não', style: 'cancel', onPress: () => resolve('later') },
+        { text: 'Descartar', style: 'destructive', onPress: () => resolve('discard') },
+        { text: 'Recuperar', onPress: () => resolve('recover') },
+      ],
+      { cancelable: false }
+    );
+  });
+}
+
 export default function HomeScreen() {
   const router = useRouter();
   const [recordings, setRecordings] = useState<Recording[]>([]);
+  // Long-pressing a card starts selecting recordings to merge
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -17,11 +58,34 @@ export default function HomeScreen() {
     }, [])
   );
 
+  useEffect(() => {
+    if (hasCheckedInterruptedSessions) return;
+    hasCheckedInterruptedSessions = true;
+    checkInterruptedSessions().catch((error) => console.log('[RECOVERY] Error:', error));
+  }, []);
+
   async function loadRecordings() {
     const data = await getAllRecordings();
     setRecordings(data);
   }
 
+  async function checkInterruptedSessions() {
+    for (const session of await getRecordingSessions()) {
+      const choice = await askAboutSession(session);
+      if (choice === 'discard') {
+        await discardSession(session);
+      } else if (choice === 'recover') {
+        try {
+          const id = await recoverSession(session);
+          if (id === null) Alert.alert('Gravação interrompida', 'Nenhum áudio ou texto dessa gravação pôde ser recuperado.');
+        } catch (error: any) {
+          Alert.alert('Erro', error.message || 'Falha ao recuperar a gravação');
+        }
+      }
+    }
+    loadRecordings();
+  }
+
   function getStatusChips(recording: Recording) {
     const chips = [];
     if (recording.transcription) {
@@ -70,6 +134,49 @@ export default function HomeScreen() {
     );
   }
 
+  function toggleSelected(id: number) {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  }
+
+  function handleMerge() {
+    const selected = recordings.filter((r) => selectedIds.includes(r.id));
+    Alert.alert(
+      'Juntar gravações',
+      `Criar uma gravação com o áudio das ${selected.length} selecionadas, em ordem cronológica? As originais são mantidas.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Juntar',
+          onPress: async () => {
+            setIsMerging(true);
+            try {
+              const id = await mergeRecordings(selected);
+              setSelectedIds([]);
+              router.push(`/detail/${id}`);
+            } catch (error: any) {
+              Alert.alert('Erro', error.message || 'Falha ao juntar as gravações');
+            } finally {
+              setIsMerging(false);
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  async function handleImport() {
+    setIsImporting(true);
+    try {
+      const imported = await importAudioFile();
+      if (!imported) return;
+      router.push(`/detail/${imported.id}`);
+    } catch (error: any) {
+      Alert.alert('Não foi possível importar', error.message || 'Falha ao importar o áudio');
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
   function formatDate(dateStr: string) {
     const date = new Date(dateStr);
     return date.toLocaleDateString('pt-BR', {
@@ -88,7 +195,7 @@ export default function HomeScreen() {
           <Text style={styles.emptyIcon}>🎙️</Text>
           <Text style={styles.emptyTitle}>Nenhuma gravação</Text>
           <Text style={styles.emptySubtitle}>
-            Toque no botão abaixo para iniciar sua primeira gravação
+            Toque no botão abaixo para iniciar sua primeira gravação ou importar um áudio
           </Text>
         </View>
       ) : (
@@ -99,8 +206,9 @@ export default function HomeScreen() {
           ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
           renderItem={({ item }) => (
             <Card
-              style={styles.card}
-              onPress={() => router.push(`/detail/${item.id}`)}
+              style={[styles.card, selectedIds.includes(item.id) && styles.cardSelected]}
+              onPress={() => (selectedIds.length > 0 ? toggleSelected(item.id) : router.push(`/detail/${item.id}`))}
+              onLongPress={() => toggleSelected(item.id)}
             >
               <Card.Content style={styles.cardContent}>
                 <View style={styles.cardHeader}>
@@ -128,13 +236,46 @@ export default function HomeScreen() {
         />
       )}
 
-      <FAB
-        icon="microphone"
-        label="Gravar"
-        style={styles.fab}
-        color={colors.onPrimary}
-        onPress={() => router.push('/recording')}
-      />
+      {selectedIds.length > 0 ? (
+        <>
+          <FAB
+            icon="call-merge"
+            label={`Juntar (${selectedIds.length})`}
+            style={styles.fab}
+            color={colors.onPrimary}
+            onPress={handleMerge}
+            disabled={selectedIds.length < 2 || isMerging}
+            loading={isMerging}
+          />
+          <FAB
+            icon="close"
+            style={styles.fabCancelSelection}
+            size="small"
+            color={colors.onSurface}
+            onPress={() => setSelectedIds([])}
+          />
+        </>
+      ) : (
+        <>
+          <FAB
+            icon="microphone"
+            label="Gravar"
+            style={styles.fab}
+            color={colors.onPrimary}
+            onPress={() => router.push('/recording')}
+          />
+          <FAB
+            icon="file-music-outline"
+            label="Importar"
+            style={styles.fabImport}
+            size="small"
+            color={colors.onSurface}
+            onPress={handleImport}
+            disabled={isImporting}
+            loading={isImporting}
+          />
+        </>
+      )}
 
       <FAB
         icon="cog"
@@ -160,6 +301,10 @@ const styles = StyleSheet.create({
     backgroundColor: colors.surface,
     borderRadius: 12,
   },
+  cardSelected: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
   cardContent: {
     paddingVertical: 8,
   },
@@ -232,6 +377,18 @@ const styles = StyleSheet.create({
     bottom: 24,
     backgroundColor: colors.primary,
   },
+  fabCancelSelection: {
+    position: 'absolute',
+    right: 16,
+    bottom: 96,
+    backgroundColor: colors.surfaceVariant,
+  },
+  fabImport: {
+    position: 'absolute',
+    right: 16,
+    bottom: 96,
+    backgroundColor: colors.surfaceVariant,
+  },
   fabSettings: {
     position: 'absolute',
     left: 16,
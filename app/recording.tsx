@@ -1,12 +1,77 @@
-import { useRef, useState } from 'react';
-import { View, StyleSheet, Alert, ScrollView, Pressable } from 'react-native';
-import { Text, IconButton } from 'react-native-paper';
+import { useEffect, useRef, useState } from 'react';
+import { View, StyleSheet, Alert, ScrollView, Pressable, TextInput } from 'react-native';
+import { Text, IconButton, Menu } from 'react-native-paper';
 import { useRouter } from 'expo-router';
 import { useRecorder, formatDuration } from '../src/hooks/useRecorder';
-import { createRecording, updateTranscription, updateTitle } from '../src/database/recordings';
+import { createRecording, updateMarkers, updatePartOverlaps, updateTranscription, updateTitle, updateWaveform } from '../src/database/recordings';
+import { deleteRecordingSession } from '../src/database/sessions';
 import { generateTitle } from '../src/services/ai';
-import { getSettings } from '../src/services/settings';
-import { colors } from '../src/constants/theme';
+import { recordUsage } from '../src/database/usage';
+import { getAllTemplates, resolveTemplate, DossierTemplate } from '../src/database/templates';
+import { getSettings, isProviderConfigured } from '../src/services/settings';
+import { colors, markerColor } from '../src/constants/theme';
+import { RecordingMarker, formatTimestamp } from '../src/constants/ai';
+import { LevelWarning, levelToFraction } from '../src/services/levels';
+
+const LEVEL_WARNINGS: Record<Exclude<LevelWarning, null>, string> = {
+  silence: 'Nenhum som captado há alguns segundos. Verifique se o microfone não está coberto ou mudo.',
+  clipping: 'Áudio saturando. Afaste o celular de quem está falando.',
+};
+
+// Loud enough to be near clipping; the meter turns amber from here
+const HOT_LEVEL = 0.9;
+
+/** Medidor do nível atual e forma de onda dos últimos segundos, mais recente à direita. */
+function LevelMeter({ levels, warning }: { levels: number[]; warning: LevelWarning }) {
+  const current = levels.length > 0 ? levelToFraction(levels[levels.length - 1]) : 0;
+  const meterColor = warning === 'clipping' ? colors.error : current >= HOT_LEVEL ? markerColor : colors.secondary;
+
+  return (
+    <View style={styles.levelSection}>
+      <View style={styles.waveform}>
+        {levels.map((level, idx) => (
+          <View
+            key={idx}
+            style={[styles.waveformBar, { height: `${Math.max(4, levelToFraction(level) * 100)}%` }]}
+          />
+        ))}
+      </View>
+      <View style={styles.meterTrack}>
+        <View style={[styles.meterFill, { width: `${current * 100}%`, backgroundColor: meterColor }]} />
+      </View>
+      {warning && (
+        <Text style={[styles.levelWarning, warning === 'clipping' && { color: colors.error }]}>
+          {LEVEL_WARNINGS[warning]}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+/** Pergunta se os trechos que falharam na transcrição ao vivo devem ser tentados de novo. */
+function askRetryFailedChunks(failed: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      'Transcrição ao vivo incompleta',
+      failed === 1
+        ? '1 trecho não foi transcrito. Tentar de novo ou salvar a gravação assim mesmo?'
+        : `${failed} trechos não foram transcritos. Tentar de novo ou salvar a gravação assim mesmo?`,
+      [
+        { text: 'Salvar assim', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Tentar de novo', onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
+}
+
+function incompleteTranscriptionNote(failed: number): RecordingMarker {
+  const chunks = failed === 1 ? '1 trecho não foi transcrito' : `${failed} trechos não foram transcritos`;
+  return {
+    time: 0,
+    note: `Transcrição ao vivo incompleta: ${chunks}. Use "Transcrição" para transcrever o áudio inteiro.`,
+  };
+}
 
 export default function RecordingScreen() {
   const router = useRouter();
@@ -17,6 +82,13 @@ export default function RecordingScreen() {
     liveTranscription,
     isLiveTranscriptionOn,
     toggleLiveTranscription,
+    pendingChunks,
+    failedChunks,
+    retryFailedChunks,
+    markers,
+    addMarker,
+    recentLevels,
+    levelWarning,
     startRecording,
     pauseRecording,
     resumeRecording,
@@ -25,11 +97,25 @@ export default function RecordingScreen() {
 
   const [hasStarted, setHasStarted] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [templates, setTemplates] = useState<DossierTemplate[]>([]);
+  const [template, setTemplate] = useState<DossierTemplate | null>(null);
+  const [isTemplateMenuOpen, setIsTemplateMenuOpen] = useState(false);
+  const [noteDraft, setNoteDraft] = useState('');
+  // The marker points at when the note was started, not when it was sent
+  const noteStartedAtRef = useRef<number | null>(null);
   const scrollRef = useRef<ScrollView>(null);
 
+  useEffect(() => {
+    (async () => {
+      const settings = await getSettings();
+      setTemplates(await getAllTemplates());
+      setTemplate(await resolveTemplate(settings.dossierTemplateId));
+    })().catch(() => {});
+  }, []);
+
   async function handleStart() {
     try {
-      await startRecording();
+      await startRecording(template?.id ?? null);
       setHasStarted(true);
     } catch (error: any) {
       Alert.alert('Erro', error.message || 'Não foi possível iniciar a gravação');
@@ -47,28 +133,51 @@ export default function RecordingScreen() {
           onPress: async () => {
             setIsSaving(true);
             try {
-              const result = await stopRecording();
+              const result = await stopRecording(askRetryFailedChunks);
+              // Saved with gaps: say so where the recording's notes are shown
+              const markers = result.failedChunks > 0
+                ? [incompleteTranscriptionNote(result.failedChunks), ...result.markers]
+                : result.markers;
               const now = new Date();
               const dateStr = now.toLocaleDateString('pt-BR');
               const timeStr = now.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
               const title = `Atendimento ${dateStr} ${timeStr}`;
 
-              const id = await createRecording(title, result.uri, result.duration, result.audioParts);
+              const id = await createRecording(title, result.uri, result.duration, result.audioParts, template?.id ?? null, result.setup);
+
+              for (const event of result.usage) {
+                await recordUsage(id, 'live_transcription', event);
+              }
 
               // Save real-time transcription if available
               if (result.transcription) {
                 await updateTranscription(id, result.transcription);
               }
+              if (markers.length > 0) {
+                await updateMarkers(id, markers);
+              }
+              if (result.waveform.levels.length > 0) {
+                await updateWaveform(id, result.waveform);
+              }
+              if (result.partOverlaps.some(Boolean)) {
+                await updatePartOverlaps(id, result.partOverlaps);
+              }
+
+              // Saved for good; nothing left to recover on the next launch
+              if (result.sessionId !== null) {
+                await deleteRecordingSession(result.sessionId);
+              }
 
               // Generate AI title in background (non-blocking)
               if (result.transcription) {
                 getSettings().then(settings => {
-                  if (!settings.apiKey) return;
+                  if (!isProviderConfigured(settings)) return;
                   generateTitle(
                     settings.provider,
                     settings.apiKey,
                     result.transcription,
-                    settings.dossierModel
+                    settings.dossierModel,
+                    (event) => { recordUsage(id, 'title', event).catch(() => {}); }
                   ).then(aiTitle => {
                     if (aiTitle) {
                       const finalTitle = `${aiTitle} — ${dateStr} ${timeStr}`;
@@ -89,6 +198,19 @@ export default function RecordingScreen() {
     );
   }
 
+  function handleNoteChange(text: string) {
+    if (!text.trim()) noteStartedAtRef.current = null;
+    else if (noteStartedAtRef.current === null) noteStartedAtRef.current = duration;
+    setNoteDraft(text);
+  }
+
+  function handleAddNote() {
+    if (!noteDraft.trim()) return;
+    addMarker(noteDraft, noteStartedAtRef.current ?? undefined);
+    setNoteDraft('');
+    noteStartedAtRef.current = null;
+  }
+
   async function handlePauseResume() {
     if (isPaused) {
       await resumeRecording();
@@ -109,6 +231,34 @@ export default function RecordingScreen() {
           </Text>
         </View>
 
+        {/* Input level, so a muted or covered microphone shows up right away */}
+        {hasStarted && <LevelMeter levels={recentLevels} warning={levelWarning} />}
+
+        {/* Dossier template, chosen before recording */}
+        {!hasStarted && template && (
+          <Menu
+            visible={isTemplateMenuOpen}
+            onDismiss={() => setIsTemplateMenuOpen(false)}
+            anchor={
+              <Pressable onPress={() => setIsTemplateMenuOpen(true)} style={styles.templateChip}>
+                <Text style={styles.templateChipText}>Modelo do dossiê: {template.name} ▾</Text>
+              </Pressable>
+            }
+          >
+            {templates.map((t) => (
+              <Menu.Item
+                key={t.id}
+                title={t.name}
+                leadingIcon={t.id === template.id ? 'check' : undefined}
+                onPress={() => {
+                  setTemplate(t);
+                  setIsTemplateMenuOpen(false);
+                }}
+              />
+            ))}
+          </Menu>
+        )}
+
         {/* Controls */}
         <View style={styles.controls}>
           {!hasStarted ? (
@@ -136,10 +286,54 @@ export default function RecordingScreen() {
                 onPress={handleStop}
                 disabled={isSaving}
               />
-              <View style={{ width: 48 }} />
+              <IconButton
+                icon="bookmark-plus-outline"
+                size={32}
+                iconColor={colors.onSurface}
+                style={styles.controlButton}
+                onPress={() => addMarker()}
+                disabled={isSaving}
+              />
             </View>
           )}
         </View>
+
+        {/* Bookmarks and quick notes, kept with the recording */}
+        {hasStarted && (
+          <View style={styles.markerSection}>
+            <View style={styles.noteRow}>
+              <TextInput
+                style={styles.noteInput}
+                value={noteDraft}
+                onChangeText={handleNoteChange}
+                onSubmitEditing={handleAddNote}
+                placeholder="Anotação rápida neste momento"
+                placeholderTextColor={colors.onSurfaceVariant}
+                returnKeyType="send"
+                editable={!isSaving}
+              />
+              <IconButton
+                icon="send"
+                size={20}
+                iconColor={colors.primary}
+                onPress={handleAddNote}
+                disabled={isSaving || !noteDraft.trim()}
+              />
+            </View>
+            {markers.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.markerList}>
+                {[...markers].reverse().map((marker, idx) => (
+                  <View key={idx} style={styles.markerChip}>
+                    <Text style={styles.markerChipTime}>{formatTimestamp(marker.time)}</Text>
+                    {marker.note && (
+                      <Text style={styles.markerChipNote} numberOfLines={1}>{marker.note}</Text>
+                    )}
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        )}
       </View>
 
       {/* Live transcription */}
@@ -158,6 +352,25 @@ export default function RecordingScreen() {
             A transcrição aparecerá aqui durante a gravação
           </Text>
         )}
+        {hasStarted && (pendingChunks > 0 || failedChunks > 0) && (
+          <Pressable
+            onPress={retryFailedChunks}
+            disabled={failedChunks === 0}
+            style={styles.queueStatus}
+          >
+            <Text style={styles.queueStatusText}>
+              {isSaving && pendingChunks > 0
+                ? `Finalizando transcrição: ${pendingChunks} ${pendingChunks === 1 ? 'trecho pendente' : 'trechos pendentes'}`
+                : pendingChunks > 0 ? `${pendingChunks} ${pendingChunks === 1 ? 'trecho pendente' : 'trechos pendentes'}` : ''}
+              {pendingChunks > 0 && failedChunks > 0 ? ' • ' : ''}
+              {failedChunks > 0 && (
+                <Text style={styles.queueStatusFailed}>
+                  {failedChunks} com falha — toque para tentar de novo
+                </Text>
+              )}
+            </Text>
+          </Pressable>
+        )}
         <ScrollView
           ref={scrollRef}
           style={styles.transcriptionScroll}
@@ -216,6 +429,50 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.onSurfaceVariant,
   },
+  levelSection: {
+    alignSelf: 'stretch',
+    marginBottom: 16,
+  },
+  waveform: {
+    height: 40,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 2,
+    overflow: 'hidden',
+  },
+  waveformBar: {
+    width: 3,
+    borderRadius: 1.5,
+    backgroundColor: colors.primary,
+  },
+  meterTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.outline,
+    overflow: 'hidden',
+    marginTop: 6,
+  },
+  meterFill: {
+    height: 4,
+  },
+  levelWarning: {
+    fontSize: 12,
+    color: markerColor,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  templateChip: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 16,
+  },
+  templateChipText: {
+    fontSize: 13,
+    color: colors.onSurface,
+  },
   controls: {
     alignItems: 'center',
   },
@@ -242,6 +499,48 @@ const styles = StyleSheet.create({
     height: 64,
     borderRadius: 32,
   },
+  markerSection: {
+    alignSelf: 'stretch',
+    marginTop: 12,
+  },
+  noteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingLeft: 12,
+  },
+  noteInput: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.onSurface,
+    paddingVertical: 8,
+  },
+  markerList: {
+    gap: 8,
+    paddingTop: 8,
+  },
+  markerChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: 220,
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  markerChipTime: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: markerColor,
+    fontVariant: ['tabular-nums'],
+  },
+  markerChipNote: {
+    flexShrink: 1,
+    fontSize: 12,
+    color: colors.onSurface,
+  },
   transcriptionSection: {
     flex: 1,
     marginTop: 12,
@@ -277,6 +576,18 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#ffffff',
   },
+  queueStatus: {
+    alignSelf: 'center',
+    marginBottom: 8,
+  },
+  queueStatusText: {
+    fontSize: 12,
+    color: colors.onSurfaceVariant,
+  },
+  queueStatusFailed: {
+    fontSize: 12,
+    color: colors.error,
+  },
   transcriptionScroll: {
     flex: 1,
     backgroundColor: colors.surface,
@@ -1,11 +1,90 @@
 import { useCallback, useState } from 'react';
 import { View, StyleSheet, ScrollView, Alert } from 'react-native';
-import { Text, TextInput, Button, SegmentedButtons, RadioButton, Card, Divider, Switch } from 'react-native-paper';
+import { Text, TextInput, Button, SegmentedButtons, RadioButton, Card, Divider, Switch, IconButton } from 'react-native-paper';
 import { useFocusEffect, useRouter } from 'expo-router';
 import { getSettings, getSettingsForProvider, saveSettings, AppSettings } from '../src/services/settings';
-import { AI_PROVIDERS, AIProvider } from '../src/constants/ai';
+import { AI_PROVIDERS, AIProvider, PROVIDER_IDS, formatCostUsd } from '../src/constants/ai';
+import { DEFAULT_TEMPLATE_SLUG } from '../src/constants/templates';
+import { getMonthlyUsage, UsageSummary } from '../src/database/usage';
+import { getAllTemplates, DossierTemplate } from '../src/database/templates';
+import { DEFAULT_VAD_SETTINGS, VadSettings, normalizeVadSettings } from '../src/services/vad';
+import {
+  AUDIO_SOURCES,
+  AudioSourceId,
+  BIT_RATE_OPTIONS,
+  DEFAULT_CHUNK_PROFILE,
+  DEFAULT_FULL_PROFILE,
+  RecordingProfile,
+  SAMPLE_RATE_OPTIONS,
+  formatBitRate,
+  formatSampleRate,
+} from '../src/constants/recordingProfiles';
 import { colors } from '../src/constants/theme';
 
+interface StepperRowProps {
+  title: string;
+  description: string;
+  value: string;
+  onDecrease: () => void;
+  onIncrease: () => void;
+  disabled?: boolean;
+}
+
+function StepperRow({ title, description, value, onDecrease, onIncrease, disabled }: StepperRowProps) {
+  return (
+    <View style={styles.switchRow}>
+      <View style={styles.switchLabel}>
+        <Text style={styles.switchTitle}>{title}</Text>
+        <Text style={styles.switchDescription}>{description}</Text>
+      </View>
+      <IconButton icon="minus" size={18} onPress={onDecrease} disabled={disabled} iconColor={colors.onSurface} />
+      <Text style={styles.stepperValue}>{value}</Text>
+      <IconButton icon="plus" size={18} onPress={onIncrease} disabled={disabled} iconColor={colors.onSurface} />
+    </View>
+  );
+}
+
+interface ProfileEditorProps {
+  title: string;
+  description: string;
+  profile: RecordingProfile;
+  onChange: (profile: RecordingProfile) => void;
+}
+
+function ProfileEditor({ title, description, profile, onChange }: ProfileEditorProps) {
+  return (
+    <View style={styles.profileEditor}>
+      <Text style={styles.switchTitle}>{title}</Text>
+      <Text style={styles.switchDescription}>{description}</Text>
+
+      <Text style={styles.profileLabel}>Fonte do áudio (Android)</Text>
+      <SegmentedButtons
+        value={profile.audioSource}
+        onValueChange={(value) => onChange({ ...profile, audioSource: value as AudioSourceId })}
+        buttons={(Object.keys(AUDIO_SOURCES) as AudioSourceId[]).map((id) => ({ value: id, label: AUDIO_SOURCES[id].shortLabel }))}
+        density="small"
+      />
+      <Text style={styles.switchDescription}>{AUDIO_SOURCES[profile.audioSource].description}</Text>
+
+      <Text style={styles.profileLabel}>Taxa de amostragem</Text>
+      <SegmentedButtons
+        value={String(profile.sampleRate)}
+        onValueChange={(value) => onChange({ ...profile, sampleRate: Number(value) })}
+        buttons={SAMPLE_RATE_OPTIONS.map((rate) => ({ value: String(rate), label: formatSampleRate(rate) }))}
+        density="small"
+      />
+
+      <Text style={styles.profileLabel}>Taxa de bits</Text>
+      <SegmentedButtons
+        value={String(profile.bitRate)}
+        onValueChange={(value) => onChange({ ...profile, bitRate: Number(value) })}
+        buttons={BIT_RATE_OPTIONS.map((rate) => ({ value: String(rate), label: formatBitRate(rate) }))}
+        density="small"
+      />
+    </View>
+  );
+}
+
 export default function SettingsScreen() {
   const router = useRouter();
   const [settings, setSettings] = useState<AppSettings>({
@@ -13,10 +92,19 @@ export default function SettingsScreen() {
     apiKey: '',
     transcriptionModel: 'gpt-4o-mini-transcribe',
     dossierModel: 'gpt-4.1-mini',
+    baseUrl: '',
+    chatBaseUrl: '',
     liveTranscriptionEnabled: true,
+    chunkOverlapEnabled: false,
+    vad: DEFAULT_VAD_SETTINGS,
+    dossierTemplateId: null,
+    fullRecordingProfile: DEFAULT_FULL_PROFILE,
+    chunkRecordingProfile: DEFAULT_CHUNK_PROFILE,
   });
   const [showApiKey, setShowApiKey] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [monthlyUsage, setMonthlyUsage] = useState<UsageSummary | null>(null);
+  const [templates, setTemplates] = useState<DossierTemplate[]>([]);
 
   useFocusEffect(
     useCallback(() => {
@@ -27,6 +115,8 @@ export default function SettingsScreen() {
   async function loadSettings() {
     const saved = await getSettings();
     setSettings(saved);
+    setMonthlyUsage(await getMonthlyUsage());
+    setTemplates(await getAllTemplates());
   }
 
   async function handleProviderChange(provider: string) {
@@ -34,18 +124,32 @@ export default function SettingsScreen() {
     const config = AI_PROVIDERS[p];
     const saved = await getSettingsForProvider(p);
     setSettings({
+      ...settings,
       provider: p,
       apiKey: saved.apiKey,
-      transcriptionModel: saved.transcriptionModel || config.transcriptionModels[0].id,
-      dossierModel: saved.dossierModel || config.dossierModels[0].id,
+      transcriptionModel: saved.transcriptionModel || config.transcriptionModels[0]?.id || '',
+      dossierModel: saved.dossierModel || config.dossierModels[0]?.id || '',
+      baseUrl: saved.baseUrl,
+      chatBaseUrl: saved.chatBaseUrl,
     });
   }
 
   async function handleSave() {
-    if (!settings.apiKey.trim()) {
+    const config = AI_PROVIDERS[settings.provider];
+    if (config.requiresApiKey && !settings.apiKey.trim()) {
       Alert.alert('Atenção', 'Insira sua chave de API antes de salvar.');
       return;
     }
+    if (config.customEndpoint) {
+      if (!settings.baseUrl.trim()) {
+        Alert.alert('Atenção', 'Informe a URL base do servidor antes de salvar.');
+        return;
+      }
+      if (!settings.transcriptionModel.trim() || !settings.dossierModel.trim()) {
+        Alert.alert('Atenção', 'Informe os nomes dos modelos de transcrição e do dossiê.');
+        return;
+      }
+    }
 
     setIsSaving(true);
     try {
@@ -60,21 +164,60 @@ export default function SettingsScreen() {
 
   const providerConfig = AI_PROVIDERS[settings.provider];
 
+  function adjustVad(key: keyof VadSettings, delta: number) {
+    setSettings({ ...settings, vad: normalizeVadSettings({ ...settings.vad, [key]: settings.vad[key] + delta }) });
+  }
+  const formatSeconds = (ms: number) => `${(ms / 1000).toLocaleString('pt-BR')}s`;
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Text style={styles.sectionTitle}>Provedor de IA</Text>
       <SegmentedButtons
         value={settings.provider}
         onValueChange={handleProviderChange}
-        buttons={[
-          { value: 'openai', label: 'OpenAI' },
-          { value: 'gemini', label: 'Gemini' },
-          { value: 'groq', label: 'Groq' },
-        ]}
+        buttons={PROVIDER_IDS.map((p) => ({ value: p, label: AI_PROVIDERS[p].shortName }))}
         style={styles.segmented}
       />
 
-      <Text style={styles.sectionTitle}>Chave de API ({providerConfig.name})</Text>
+      {providerConfig.customEndpoint && (
+        <>
+          <Text style={styles.sectionTitle}>URL base do servidor</Text>
+          <TextInput
+            mode="outlined"
+            value={settings.baseUrl}
+            onChangeText={(text) => setSettings({ ...settings, baseUrl: text })}
+            placeholder="http://192.168.0.10:8000/v1"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={styles.input}
+            outlineColor={colors.outline}
+            activeOutlineColor={colors.primary}
+            textColor={colors.onSurface}
+            placeholderTextColor={colors.onSurfaceVariant}
+          />
+
+          <Text style={styles.sectionTitle}>URL base para o dossiê (opcional)</Text>
+          <TextInput
+            mode="outlined"
+            value={settings.chatBaseUrl}
+            onChangeText={(text) => setSettings({ ...settings, chatBaseUrl: text })}
+            placeholder="Em branco usa o mesmo servidor (ex.: http://192.168.0.20:11434/v1)"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={styles.input}
+            outlineColor={colors.outline}
+            activeOutlineColor={colors.primary}
+            textColor={colors.onSurface}
+            placeholderTextColor={colors.onSurfaceVariant}
+          />
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>
+        Chave de API ({providerConfig.name}){providerConfig.requiresApiKey ? '' : ' — opcional'}
+      </Text>
       <TextInput
         mode="outlined"
         value={settings.apiKey}
@@ -96,43 +239,79 @@ export default function SettingsScreen() {
 
       <Divider style={styles.divider} />
 
-      <Text style={styles.sectionTitle}>Modelo de Transcrição</Text>
-      <Card style={styles.card}>
-        <RadioButton.Group
-          value={settings.transcriptionModel}
-          onValueChange={(value) => setSettings({ ...settings, transcriptionModel: value })}
-        >
-          {providerConfig.transcriptionModels.map((model) => (
-            <RadioButton.Item
-              key={model.id}
-              label={`${model.name} — ${model.description}`}
-              value={model.id}
-              labelStyle={styles.radioLabel}
-              color={colors.primary}
-              uncheckedColor={colors.onSurfaceVariant}
-            />
-          ))}
-        </RadioButton.Group>
-      </Card>
+      {providerConfig.customEndpoint ? (
+        <>
+          <Text style={styles.sectionTitle}>Modelo de Transcrição</Text>
+          <TextInput
+            mode="outlined"
+            value={settings.transcriptionModel}
+            onChangeText={(text) => setSettings({ ...settings, transcriptionModel: text })}
+            placeholder="ex.: whisper-large-v3"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+            outlineColor={colors.outline}
+            activeOutlineColor={colors.primary}
+            textColor={colors.onSurface}
+            placeholderTextColor={colors.onSurfaceVariant}
+          />
 
-      <Text style={styles.sectionTitle}>Modelo do Dossiê</Text>
-      <Card style={styles.card}>
-        <RadioButton.Group
-          value={settings.dossierModel}
-          onValueChange={(value) => setSettings({ ...settings, dossierModel: value })}
-        >
-          {providerConfig.dossierModels.map((model) => (
-            <RadioButton.Item
-              key={model.id}
-              label={`${model.name} — ${model.description}`}
-              value={model.id}
-              labelStyle={styles.radioLabel}
-              color={colors.primary}
-              uncheckedColor={colors.onSurfaceVariant}
-            />
-          ))}
-        </RadioButton.Group>
-      </Card>
+          <Text style={styles.sectionTitle}>Modelo do Dossiê</Text>
+          <TextInput
+            mode="outlined"
+            value={settings.dossierModel}
+            onChangeText={(text) => setSettings({ ...settings, dossierModel: text })}
+            placeholder="ex.: llama3.1:8b"
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={styles.input}
+            outlineColor={colors.outline}
+            activeOutlineColor={colors.primary}
+            textColor={colors.onSurface}
+            placeholderTextColor={colors.onSurfaceVariant}
+          />
+        </>
+      ) : (
+        <>
+          <Text style={styles.sectionTitle}>Modelo de Transcrição</Text>
+          <Card style={styles.card}>
+            <RadioButton.Group
+              value={settings.transcriptionModel}
+              onValueChange={(value) => setSettings({ ...settings, transcriptionModel: value })}
+            >
+              {providerConfig.transcriptionModels.map((model) => (
+                <RadioButton.Item
+                  key={model.id}
+                  label={`${model.name} — ${model.description}`}
+                  value={model.id}
+                  labelStyle={styles.radioLabel}
+                  color={colors.primary}
+                  uncheckedColor={colors.onSurfaceVariant}
+                />
+              ))}
+            </RadioButton.Group>
+          </Card>
+
+          <Text style={styles.sectionTitle}>Modelo do Dossiê</Text>
+          <Card style={styles.card}>
+            <RadioButton.Group
+              value={settings.dossierModel}
+              onValueChange={(value) => setSettings({ ...settings, dossierModel: value })}
+            >
+              {providerConfig.dossierModels.map((model) => (
+                <RadioButton.Item
+                  key={model.id}
+                  label={`${model.name} — ${model.description}`}
+                  value={model.id}
+                  labelStyle={styles.radioLabel}
+                  color={colors.primary}
+                  uncheckedColor={colors.onSurfaceVariant}
+                />
+              ))}
+            </RadioButton.Group>
+          </Card>
+        </>
+      )}
 
       <Divider style={styles.divider} />
 
@@ -151,6 +330,125 @@ export default function SettingsScreen() {
             color={colors.primary}
           />
         </View>
+        <View style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.switchTitle}>Sobreposição entre trechos</Text>
+            <Text style={styles.switchDescription}>
+              Grava cada trecho com um pouco do anterior para não cortar palavras (envia um pouco mais de áudio)
+            </Text>
+          </View>
+          <Switch
+            value={settings.chunkOverlapEnabled}
+            onValueChange={(value) => setSettings({ ...settings, chunkOverlapEnabled: value })}
+            color={colors.primary}
+            disabled={!settings.liveTranscriptionEnabled}
+          />
+        </View>
+      </Card>
+
+      <Text style={styles.sectionTitle}>Corte dos trechos por pausas</Text>
+      <Card style={styles.card}>
+        <StepperRow
+          title="Nível de silêncio"
+          description="Abaixo deste volume o áudio conta como pausa. Suba em ambientes ruidosos"
+          value={`${settings.vad.silenceThresholdDb} dB`}
+          onDecrease={() => adjustVad('silenceThresholdDb', -5)}
+          onIncrease={() => adjustVad('silenceThresholdDb', 5)}
+          disabled={!settings.liveTranscriptionEnabled}
+        />
+        <StepperRow
+          title="Pausa para cortar"
+          description="Silêncio contínuo que encerra um trecho"
+          value={formatSeconds(settings.vad.minSilenceMs)}
+          onDecrease={() => adjustVad('minSilenceMs', -100)}
+          onIncrease={() => adjustVad('minSilenceMs', 100)}
+          disabled={!settings.liveTranscriptionEnabled}
+        />
+        <StepperRow
+          title="Trecho mínimo"
+          description="Não corta antes disso, mesmo havendo pausa"
+          value={formatSeconds(settings.vad.minChunkMs)}
+          onDecrease={() => adjustVad('minChunkMs', -1000)}
+          onIncrease={() => adjustVad('minChunkMs', 1000)}
+          disabled={!settings.liveTranscriptionEnabled}
+        />
+        <StepperRow
+          title="Trecho máximo"
+          description="Corta mesmo sem pausa (fala contínua)"
+          value={formatSeconds(settings.vad.maxChunkMs)}
+          onDecrease={() => adjustVad('maxChunkMs', -5000)}
+          onIncrease={() => adjustVad('maxChunkMs', 5000)}
+          disabled={!settings.liveTranscriptionEnabled}
+        />
+      </Card>
+
+      <Text style={styles.sectionTitle}>Perfis de captura</Text>
+      <Card style={styles.card}>
+        <ProfileEditor
+          title="Arquivo completo"
+          description="Gravação guardada no aparelho e usada na transcrição integral"
+          profile={settings.fullRecordingProfile}
+          onChange={(profile) => setSettings({ ...settings, fullRecordingProfile: profile })}
+        />
+        <Divider style={styles.profileDivider} />
+        <ProfileEditor
+          title="Trechos em tempo real"
+          description="Partes curtas enviadas durante a gravação; taxas menores enviam mais rápido"
+          profile={settings.chunkRecordingProfile}
+          onChange={(profile) => setSettings({ ...settings, chunkRecordingProfile: profile })}
+        />
+      </Card>
+      <Text style={styles.switchDescription}>
+        Cada gravação guarda o perfil usado. Compare os perfis em "Calibração de Áudio".
+      </Text>
+
+      <Divider style={styles.divider} />
+
+      <Text style={styles.sectionTitle}>Modelo de dossiê padrão</Text>
+      <Card style={styles.card}>
+        <RadioButton.Group
+          value={String(settings.dossierTemplateId ?? templates.find((t) => t.slug === DEFAULT_TEMPLATE_SLUG)?.id ?? '')}
+          onValueChange={(value) => setSettings({ ...settings, dossierTemplateId: parseInt(value) || null })}
+        >
+          {templates.map((template) => (
+            <RadioButton.Item
+              key={template.id}
+              label={template.name}
+              value={String(template.id)}
+              labelStyle={styles.radioLabel}
+              color={colors.primary}
+              uncheckedColor={colors.onSurfaceVariant}
+            />
+          ))}
+        </RadioButton.Group>
+      </Card>
+      <Text style={styles.switchDescription}>
+        Usado nas novas gravações; cada gravação pode trocar o modelo antes de gerar o dossiê.
+      </Text>
+      <Button
+        mode="outlined"
+        icon="file-document-edit-outline"
+        onPress={() => router.push('/templates')}
+        style={styles.templatesButton}
+        textColor={colors.onSurface}
+      >
+        Editar modelos de dossiê
+      </Button>
+
+      <Divider style={styles.divider} />
+
+      <Text style={styles.sectionTitle}>Custos de IA neste mês</Text>
+      <Card style={styles.card}>
+        <Card.Content>
+          <Text style={styles.usageTotal}>{formatCostUsd(monthlyUsage?.cost_usd ?? 0)}</Text>
+          <Text style={styles.switchDescription}>
+            {monthlyUsage?.calls ?? 0} chamadas • {Math.round((monthlyUsage?.audio_seconds ?? 0) / 60)} min de áudio •{' '}
+            {((monthlyUsage?.input_tokens ?? 0) + (monthlyUsage?.output_tokens ?? 0)).toLocaleString('pt-BR')} tokens
+          </Text>
+          <Text style={styles.switchDescription}>
+            Estimativa pela tabela de preços de cada modelo; servidor próprio não tem custo.
+          </Text>
+        </Card.Content>
       </Card>
 
       <Button
@@ -170,27 +468,13 @@ export default function SettingsScreen() {
         style={styles.audioTestButton}
         textColor={colors.onSurface}
       >
-        Teste de Qualidade de Áudio
+        Calibração de Áudio
       </Button>
 
       <Card style={styles.helpCard}>
         <Card.Content>
           <Text style={styles.helpTitle}>Como obter sua chave de API?</Text>
-          {settings.provider === 'openai' && (
-            <Text style={styles.helpText}>
-              Acesse platform.openai.com → API Keys → Create new secret key
-            </Text>
-          )}
-          {settings.provider === 'gemini' && (
-            <Text style={styles.helpText}>
-              Acesse aistudio.google.com → Get API Key → Create API key
-            </Text>
-          )}
-          {settings.provider === 'groq' && (
-            <Text style={styles.helpText}>
-              Acesse console.groq.com → API Keys → Create API key
-            </Text>
-          )}
+          <Text style={styles.helpText}>{providerConfig.apiKeyHelp}</Text>
         </Card.Content>
       </Card>
     </ScrollView>
@@ -252,11 +536,43 @@ const styles = StyleSheet.create({
     color: colors.onSurfaceVariant,
     marginTop: 2,
   },
+  profileEditor: {
+    padding: 16,
+  },
+  profileLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.onSurfaceVariant,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  profileDivider: {
+    backgroundColor: colors.outline,
+  },
+  stepperValue: {
+    minWidth: 52,
+    textAlign: 'center',
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.onSurface,
+    fontVariant: ['tabular-nums'],
+  },
+  usageTotal: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: colors.onSurface,
+    marginBottom: 4,
+  },
   saveButton: {
     marginTop: 24,
     borderRadius: 8,
     paddingVertical: 4,
   },
+  templatesButton: {
+    marginTop: 12,
+    borderRadius: 8,
+    borderColor: colors.outline,
+  },
   audioTestButton: {
     marginTop: 24,
     borderRadius: 8,
@@ -0,0 +1,271 @@
+import { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, TextInput, Button, Card } from 'react-native-paper';
+import { useFocusEffect } from 'expo-router';
+import {
+  getAllTemplates,
+  getTemplateSections,
+  createTemplate,
+  updateTemplate,
+  restoreBuiltinTemplate,
+  deleteTemplate,
+  DossierTemplate,
+} from '../src/database/templates';
+import { colors } from '../src/constants/theme';
+
+interface TemplateDraft {
+  template: DossierTemplate | null; // null while creating a new one
+  name: string;
+  instructions: string;
+  sectionsText: string; // one section title per line
+}
+
+export default function TemplatesScreen() {
+  const [templates, setTemplates] = useState<DossierTemplate[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTemplates();
+    }, [])
+  );
+
+  async function loadTemplates() {
+    setTemplates(await getAllTemplates());
+  }
+
+  function startEditing(template: DossierTemplate) {
+    setDraft({
+      template,
+      name: template.name,
+      instructions: template.instructions,
+      sectionsText: getTemplateSections(template).join('\n'),
+    });
+  }
+
+  function startCreating() {
+    setDraft({ template: null, name: '', instructions: '', sectionsText: '' });
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.instructions.trim()) {
+      Alert.alert('Atenção', 'Informe o nome e as orientações do modelo.');
+      return;
+    }
+
+    const sections = draft.sectionsText.split('\n').map((s) => s.trim()).filter(Boolean);
+    setIsSaving(true);
+    try {
+      if (draft.template) {
+        await updateTemplate(draft.template.id, draft.name.trim(), draft.instructions.trim(), sections);
+      } else {
+        await createTemplate(draft.name.trim(), draft.instructions.trim(), sections);
+      }
+      setDraft(null);
+      await loadTemplates();
+    } catch (error) {
+      Alert.alert('Erro', 'Falha ao salvar o modelo.');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function handleRestore(template: DossierTemplate) {
+    Alert.alert('Restaurar modelo', `Desfazer as alterações em "${template.name}"?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Restaurar',
+        onPress: async () => {
+          await restoreBuiltinTemplate(template);
+          setDraft(null);
+          await loadTemplates();
+        },
+      },
+    ]);
+  }
+
+  function handleDelete(template: DossierTemplate) {
+    Alert.alert(
+      'Excluir modelo',
+      `Deseja excluir "${template.name}"? Gravações que o usavam passam a usar o modelo cível genérico.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteTemplate(template.id);
+            setDraft(null);
+            await loadTemplates();
+          },
+        },
+      ]
+    );
+  }
+
+  if (draft) {
+    const isBuiltin = !!draft.template?.slug;
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Nome</Text>
+        <TextInput
+          mode="outlined"
+          value={draft.name}
+          onChangeText={(text) => setDraft({ ...draft, name: text })}
+          placeholder="ex.: Bancário"
+          style={styles.input}
+          outlineColor={colors.outline}
+          activeOutlineColor={colors.primary}
+          textColor={colors.onSurface}
+          placeholderTextColor={colors.onSurfaceVariant}
+        />
+
+        <Text style={styles.sectionTitle}>Orientações para a IA</Text>
+        <TextInput
+          mode="outlined"
+          value={draft.instructions}
+          onChangeText={(text) => setDraft({ ...draft, instructions: text })}
+          placeholder="O que observar neste tipo de atendimento"
+          multiline
+          numberOfLines={8}
+          style={styles.input}
+          outlineColor={colors.outline}
+          activeOutlineColor={colors.primary}
+          textColor={colors.onSurface}
+          placeholderTextColor={colors.onSurfaceVariant}
+        />
+
+        <Text style={styles.sectionTitle}>Seções extras (uma por linha)</Text>
+        <TextInput
+          mode="outlined"
+          value={draft.sectionsText}
+          onChangeText={(text) => setDraft({ ...draft, sectionsText: text })}
+          placeholder={'ex.: Contratos bancários\nValores cobrados'}
+          multiline
+          numberOfLines={4}
+          style={styles.input}
+          outlineColor={colors.outline}
+          activeOutlineColor={colors.primary}
+          textColor={colors.onSurface}
+          placeholderTextColor={colors.onSurfaceVariant}
+        />
+        <Text style={styles.hint}>
+          Somam-se às seções fixas do dossiê (partes, fatos, questões jurídicas, documentos, providências e observações).
+        </Text>
+
+        <Button
+          mode="contained"
+          onPress={handleSave}
+          loading={isSaving}
+          style={styles.saveButton}
+          buttonColor={colors.primary}
+        >
+          Salvar Modelo
+        </Button>
+        <Button mode="text" onPress={() => setDraft(null)} textColor={colors.onSurfaceVariant} style={styles.secondaryButton}>
+          Cancelar
+        </Button>
+        {draft.template && isBuiltin && (
+          <Button mode="text" icon="restore" onPress={() => handleRestore(draft.template!)} textColor={colors.onSurface}>
+            Restaurar texto original
+          </Button>
+        )}
+        {draft.template && !isBuiltin && (
+          <Button mode="text" icon="delete-outline" onPress={() => handleDelete(draft.template!)} textColor={colors.error}>
+            Excluir modelo
+          </Button>
+        )}
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.hint}>
+        O modelo orienta a IA sobre o que destacar no dossiê de cada área e acrescenta seções próprias.
+      </Text>
+
+      {templates.map((template) => {
+        const sections = getTemplateSections(template);
+        return (
+          <Card key={template.id} style={styles.card} onPress={() => startEditing(template)}>
+            <Card.Content>
+              <Text style={styles.cardTitle}>{template.name}</Text>
+              <Text style={styles.cardMeta}>
+                {template.slug ? 'Modelo do app' : 'Modelo personalizado'}
+                {sections.length > 0 ? ` • ${sections.join(', ')}` : ''}
+              </Text>
+            </Card.Content>
+          </Card>
+        );
+      })}
+
+      <Button
+        mode="outlined"
+        icon="plus"
+        onPress={startCreating}
+        style={styles.newButton}
+        textColor={colors.onSurface}
+      >
+        Novo modelo
+      </Button>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.onSurface,
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  input: {
+    backgroundColor: colors.surface,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.onSurfaceVariant,
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.onSurface,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: colors.onSurfaceVariant,
+    marginTop: 4,
+  },
+  saveButton: {
+    marginTop: 24,
+    borderRadius: 8,
+    paddingVertical: 4,
+  },
+  secondaryButton: {
+    marginTop: 8,
+  },
+  newButton: {
+    marginTop: 16,
+    borderRadius: 8,
+    borderColor: colors.outline,
+  },
+});
@@ -0,0 +1,57 @@
+// Gera os M4A usados nos testes de src/services/mp4.ts com um muxer
+// independente (mp4-muxer), para que os testes não validem o nosso código
+// contra arquivos escritos por ele mesmo.
+//
+//   node scripts/make-mp4-fixtures.js
+//
+// O conteúdo das amostras não é AAC de verdade: cada quadro traz o id do
+// arquivo e o seu índice, o que basta para conferir que os bytes certos foram
+// copiados para a posição certa.
+
+const fs = require('fs');
+const path = require('path');
+const { Muxer, ArrayBufferTarget } = require('mp4-muxer');
+
+const OUT_DIR = path.join(__dirname, '..', 'src', 'services', '__tests__', 'fixtures');
+const FRAME_SAMPLES = 1024;
+
+// AudioSpecificConfig for AAC-LC, mono
+const AUDIO_CONFIG = { 16000: [0x14, 0x08], 44100: [0x12, 0x08] };
+
+function frameBytes(fileId, index) {
+  const size = 24 + ((index * 37) % 60);
+  const bytes = new Uint8Array(size);
+  bytes[0] = fileId;
+  bytes[1] = index & 0xff;
+  bytes[2] = index >> 8;
+  for (let i = 3; i < size; i++) bytes[i] = (fileId * 31 + index * 7 + i) & 0xff;
+  return bytes;
+}
+
+function writeFixture(name, { fileId, sampleRate, frames, fastStart }) {
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    audio: { codec: 'aac', numberOfChannels: 1, sampleRate },
+    fastStart,
+  });
+  const frameUs = (FRAME_SAMPLES / sampleRate) * 1e6;
+  for (let i = 0; i < frames; i++) {
+    muxer.addAudioChunkRaw(frameBytes(fileId, i), 'key', i * frameUs, frameUs, i === 0 ? {
+      decoderConfig: {
+        codec: 'mp4a.40.2',
+        numberOfChannels: 1,
+        sampleRate,
+        description: new Uint8Array(AUDIO_CONFIG[sampleRate]),
+      },
+    } : undefined);
+  }
+  muxer.finalize();
+  fs.writeFileSync(path.join(OUT_DIR, name), Buffer.from(muxer.target.buffer));
+}
+
+fs.mkdirSync(OUT_DIR, { recursive: true });
+// moov at the end, like the Android MediaRecorder
+writeFixture('part-a.m4a', { fileId: 1, sampleRate: 16000, frames: 40, fastStart: false });
+// moov before mdat
+writeFixture('part-b.m4a', { fileId: 2, sampleRate: 16000, frames: 25, fastStart: 'in-memory' });
+writeFixture('other-rate.m4a', { fileId: 3, sampleRate: 44100, frames: 10, fastStart: false });
@@ -1,76 +1,206 @@
-export type AIProvider = 'openai' | 'gemini' | 'groq';
+export type AIProvider = 'openai' | 'gemini' | 'groq' | 'custom';
+
+/** Preço de tabela em US$; transcrições por minuto de áudio, LLMs por milhão de tokens. */
+export interface ModelPrice {
+  perAudioMinute?: number;
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+}
 
 export interface AIModel {
   id: string;
   name: string;
   description: string;
+  price?: ModelPrice;
 }
 
 export interface AIProviderConfig {
   id: AIProvider;
   name: string;
+  shortName: string;
+  apiKeyHelp: string;
+  requiresApiKey: boolean;
+  // Servidor próprio: URL configurável e modelos digitados livremente
+  customEndpoint: boolean;
+  // Maior arquivo de áudio aceito em uma única requisição de transcrição
+  maxUploadBytes: number;
   transcriptionModels: AIModel[];
   dossierModels: AIModel[];
 }
 
+export interface AIUsage {
+  audioSeconds?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface UsageEvent extends AIUsage {
+  provider: AIProvider;
+  model: string;
+  costUsd: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  usage: AIUsage;
+}
+
+export interface CompletionResult {
+  text: string;
+  usage: AIUsage;
+}
+
+export interface TimestampedTranscription {
+  segments: TimestampedSegment[];
+  plainText: string;
+  usage?: AIUsage;
+}
+
+export interface TranscriptionOptions {
+  // Fim do texto já transcrito, para o modelo continuar a frase cortada no trecho anterior
+  prompt?: string;
+}
+
+export interface CompletionOptions {
+  // Pede ao provedor que devolva um objeto JSON (JSON mode / responseMimeType)
+  json?: boolean;
+}
+
+/**
+ * Contrato que cada backend de IA implementa. O dispatcher em services/ai.ts
+ * só conhece esta interface — novos provedores entram pelo registro em
+ * services/providers.ts sem alterar as telas.
+ */
+export interface AIProviderService {
+  transcribe(apiKey: string, audioFilePath: string, model: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+  transcribeTimestamped(apiKey: string, audioFilePath: string, model: string): Promise<TimestampedTranscription>;
+  complete(apiKey: string, prompt: string, model: string, options?: CompletionOptions): Promise<CompletionResult>;
+  // onPartial recebe o texto acumulado a cada trecho recebido
+  completeStream(
+    apiKey: string,
+    prompt: string,
+    model: string,
+    onPartial: (text: string) => void,
+    options?: CompletionOptions
+  ): Promise<CompletionResult>;
+}
+
 export const AI_PROVIDERS: Record<AIProvider, AIProviderConfig> = {
   openai: {
     id: 'openai',
     name: 'OpenAI',
+    shortName: 'OpenAI',
+    apiKeyHelp: 'Acesse platform.openai.com → API Keys → Create new secret key',
+    requiresApiKey: true,
+    customEndpoint: false,
+    maxUploadBytes: 25 * 1024 * 1024,
     transcriptionModels: [
-      { id: 'gpt-4o-mini-transcribe', name: 'GPT-4o Mini Transcribe', description: 'Rápido e econômico (recomendado)' },
-      { id: 'gpt-4o-transcribe', name: 'GPT-4o Transcribe', description: 'Mais preciso' },
-      { id: 'whisper-1', name: 'Whisper', description: 'Modelo legado' },
+      { id: 'gpt-4o-mini-transcribe', name: 'GPT-4o Mini Transcribe', description: 'Rápido e econômico (recomendado)', price: { perAudioMinute: 0.003 } },
+      { id: 'gpt-4o-transcribe', name: 'GPT-4o Transcribe', description: 'Mais preciso', price: { perAudioMinute: 0.006 } },
+      { id: 'whisper-1', name: 'Whisper', description: 'Modelo legado', price: { perAudioMinute: 0.006 } },
     ],
     dossierModels: [
-      { id: 'gpt-4.1', name: 'GPT-4.1', description: 'Mais inteligente, 1M tokens de contexto' },
-      { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', description: 'Rápido e econômico (recomendado)' },
-      { id: 'gpt-4.1-nano', name: 'GPT-4.1 Nano', description: 'Mais rápido e barato' },
-      { id: 'gpt-4o', name: 'GPT-4o', description: 'Legado — sendo descontinuado' },
-      { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Legado — sendo descontinuado' },
+      { id: 'gpt-4.1', name: 'GPT-4.1', description: 'Mais inteligente, 1M tokens de contexto', price: { inputPerMillion: 2.0, outputPerMillion: 8.0 } },
+      { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', description: 'Rápido e econômico (recomendado)', price: { inputPerMillion: 0.4, outputPerMillion: 1.6 } },
+      { id: 'gpt-4.1-nano', name: 'GPT-4.1 Nano', description: 'Mais rápido e barato', price: { inputPerMillion: 0.1, outputPerMillion: 0.4 } },
+      { id: 'gpt-4o', name: 'GPT-4o', description: 'Legado — sendo descontinuado', price: { inputPerMillion: 2.5, outputPerMillion: 10.0 } },
+      { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: 'Legado — sendo descontinuado', price: { inputPerMillion: 0.15, outputPerMillion: 0.6 } },
     ],
   },
   gemini: {
     id: 'gemini',
     name: 'Google Gemini',
+    shortName: 'Gemini',
+    apiKeyHelp: 'Acesse aistudio.google.com → Get API Key → Create API key',
+    requiresApiKey: true,
+    customEndpoint: false,
+    // Files API accepts up to 2 GB; kept at ~1h40 of recorder audio so the transcript fits the output limit
+    maxUploadBytes: 100 * 1024 * 1024,
     transcriptionModels: [
-      { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', description: 'Última geração, rápido (recomendado)' },
-      { id: 'gemini-3.1-pro-preview', name: 'Gemini 3.1 Pro', description: 'Última geração, mais preciso — mais lento' },
-      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Rápido e econômico' },
-      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Mais preciso, reasoning avançado' },
-      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: 'Legado — aposentado em mar/2026' },
+      { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', description: 'Última geração, rápido (recomendado)', price: { inputPerMillion: 1.0, outputPerMillion: 3.0 } },
+      { id: 'gemini-3.1-pro-preview', name: 'Gemini 3.1 Pro', description: 'Última geração, mais preciso — mais lento', price: { inputPerMillion: 2.0, outputPerMillion: 12.0 } },
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Rápido e econômico', price: { inputPerMillion: 1.0, outputPerMillion: 2.5 } },
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Mais preciso, reasoning avançado', price: { inputPerMillion: 1.25, outputPerMillion: 10.0 } },
+      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: 'Legado — aposentado em mar/2026', price: { inputPerMillion: 0.7, outputPerMillion: 0.4 } },
     ],
     dossierModels: [
-      { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', description: 'Última geração, rápido (recomendado)' },
-      { id: 'gemini-3.1-pro-preview', name: 'Gemini 3.1 Pro', description: 'Última geração, mais preciso' },
-      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Rápido e econômico' },
-      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Reasoning avançado, mais preciso' },
-      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: 'Legado — aposentado em mar/2026' },
+      { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', description: 'Última geração, rápido (recomendado)', price: { inputPerMillion: 0.5, outputPerMillion: 3.0 } },
+      { id: 'gemini-3.1-pro-preview', name: 'Gemini 3.1 Pro', description: 'Última geração, mais preciso', price: { inputPerMillion: 2.0, outputPerMillion: 12.0 } },
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Rápido e econômico', price: { inputPerMillion: 0.3, outputPerMillion: 2.5 } },
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', description: 'Reasoning avançado, mais preciso', price: { inputPerMillion: 1.25, outputPerMillion: 10.0 } },
+      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: 'Legado — aposentado em mar/2026', price: { inputPerMillion: 0.1, outputPerMillion: 0.4 } },
     ],
   },
   groq: {
     id: 'groq',
     name: 'Groq',
+    shortName: 'Groq',
+    apiKeyHelp: 'Acesse console.groq.com → API Keys → Create API key',
+    requiresApiKey: true,
+    customEndpoint: false,
+    maxUploadBytes: 25 * 1024 * 1024,
     transcriptionModels: [
-      { id: 'whisper-large-v3-turbo', name: 'Whisper Large V3 Turbo', description: 'Melhor equilíbrio velocidade/qualidade (recomendado)' },
-      { id: 'whisper-large-v3', name: 'Whisper Large V3', description: 'Maior precisão, multilíngue' },
-      { id: 'distil-whisper-large-v3-en', name: 'Distil-Whisper V3', description: 'Mais rápido e barato (apenas inglês)' },
+      { id: 'whisper-large-v3-turbo', name: 'Whisper Large V3 Turbo', description: 'Melhor equilíbrio velocidade/qualidade (recomendado)', price: { perAudioMinute: 0.04 / 60 } },
+      { id: 'whisper-large-v3', name: 'Whisper Large V3', description: 'Maior precisão, multilíngue', price: { perAudioMinute: 0.111 / 60 } },
+      { id: 'distil-whisper-large-v3-en', name: 'Distil-Whisper V3', description: 'Mais rápido e barato (apenas inglês)', price: { perAudioMinute: 0.02 / 60 } },
     ],
     dossierModels: [
-      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', description: 'Bom equilíbrio geral' },
-      { id: 'meta-llama/llama-4-scout-17b-16e-instruct', name: 'Llama 4 Scout', description: 'Última geração, rápido' },
-      { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama 4 Maverick', description: 'Última geração, mais capaz' },
-      { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 70B', description: 'Excelente em raciocínio e análise' },
-      { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', description: 'Mais rápido e econômico' },
+      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', description: 'Bom equilíbrio geral', price: { inputPerMillion: 0.59, outputPerMillion: 0.79 } },
+      { id: 'meta-llama/llama-4-scout-17b-16e-instruct', name: 'Llama 4 Scout', description: 'Última geração, rápido', price: { inputPerMillion: 0.11, outputPerMillion: 0.34 } },
+      { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama 4 Maverick', description: 'Última geração, mais capaz', price: { inputPerMillion: 0.2, outputPerMillion: 0.6 } },
+      { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 70B', description: 'Excelente em raciocínio e análise', price: { inputPerMillion: 0.75, outputPerMillion: 0.99 } },
+      { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B', description: 'Mais rápido e econômico', price: { inputPerMillion: 0.05, outputPerMillion: 0.08 } },
     ],
   },
+  custom: {
+    id: 'custom',
+    name: 'Servidor próprio (compatível com OpenAI)',
+    shortName: 'Próprio',
+    apiKeyHelp: 'Informe a URL base do servidor (ex.: http://192.168.0.10:8000/v1). Funciona com whisper.cpp, faster-whisper, Ollama e vLLM. A chave é opcional.',
+    requiresApiKey: false,
+    customEndpoint: true,
+    maxUploadBytes: 100 * 1024 * 1024,
+    transcriptionModels: [],
+    dossierModels: [],
+  },
 };
 
+export const PROVIDER_IDS = Object.keys(AI_PROVIDERS) as AIProvider[];
+
+/**
+ * Custo estimado de uma chamada pela tabela de preços do modelo. Modelos sem
+ * preço (ex.: servidor próprio) custam zero.
+ */
+export function estimateCostUsd(
+  provider: AIProvider,
+  model: string,
+  kind: 'transcription' | 'completion',
+  usage: AIUsage
+): number {
+  const config = AI_PROVIDERS[provider];
+  const models = kind === 'transcription' ? config.transcriptionModels : config.dossierModels;
+  const price = models.find(m => m.id === model)?.price;
+  if (!price) return 0;
+
+  let cost = 0;
+  if (price.perAudioMinute && usage.audioSeconds) cost += (usage.audioSeconds / 60) * price.perAudioMinute;
+  if (price.inputPerMillion && usage.inputTokens) cost += (usage.inputTokens / 1_000_000) * price.inputPerMillion;
+  if (price.outputPerMillion && usage.outputTokens) cost += (usage.outputTokens / 1_000_000) * price.outputPerMillion;
+  return cost;
+}
+
+export function formatCostUsd(cost: number): string {
+  return `US$ ${cost.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: cost < 1 ? 4 : 2 })}`;
+}
+
 // Types for timestamped transcription and diarization
 export interface TimestampedSegment {
   start: number; // seconds
   end: number;   // seconds
   text: string;
+  // Whisper verbose_json confidence, used to drop text invented over silence
+  noSpeechProb?: number;
+  avgLogprob?: number;
 }
 
 export interface DiarizedSegment {
@@ -80,6 +210,36 @@ export interface DiarizedSegment {
   text: string;
 }
 
+export type SpeakerRole = 'advogado' | 'cliente' | 'parte_contraria' | 'testemunha' | 'outro';
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  advogado: 'Advogado',
+  cliente: 'Cliente',
+  parte_contraria: 'Parte contrária',
+  testemunha: 'Testemunha',
+  outro: 'Outro',
+};
+
+// Identidade de um falante da gravação; DiarizedSegment.speaker guarda a key
+export interface Speaker {
+  key: string;    // rótulo dado pela diarização ("Advogado", "Interlocutor 1")
+  name: string;   // nome exibido ("Dr. Silva")
+  role: SpeakerRole;
+  color: string;
+}
+
+// Marcador posto pelo advogado durante a gravação, com uma nota opcional
+export interface RecordingMarker {
+  time: number;        // seconds from the start of the recording
+  note: string | null;
+}
+
+// Nível de entrada guardado com a gravação, para desenhar a forma de onda no player
+export interface RecordingWaveform {
+  bucketMs: number;  // audio covered by each level
+  levels: number[];  // peak input level of each bucket, in whole dBFS
+}
+
 export interface DiarizedTranscription {
   diarized: true;
   segments: DiarizedSegment[];
@@ -92,6 +252,13 @@ export function formatTimestamp(seconds: number): string {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 }
 
+/** Inverso de formatTimestamp: "MM:SS" ou "HH:MM:SS" em segundos. */
+export function parseTimestamp(value: string): number {
+  const parts = value.trim().split(':').map(Number);
+  if (parts.some(isNaN)) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
 export function isDiarizedTranscription(value: string | null): DiarizedTranscription | null {
   if (!value) return null;
   try {
@@ -103,51 +270,92 @@ export function isDiarizedTranscription(value: string | null): DiarizedTranscrip
   return null;
 }
 
-export const DIARIZATION_PROMPT = `Você é um assistente especializado em análise de diálogos jurídicos. Abaixo está a transcrição timestamped de um atendimento jurídico (consulta entre advogado e cliente).
+export const DIARIZATION_PROMPT = `Você é um assistente especializado em análise de diálogos jurídicos. Abaixo está um trecho da transcrição timestamped de um atendimento jurídico (consulta entre advogado e cliente), com cada fala numerada.
 
 Sua tarefa:
-1. Identificar quem está falando em cada trecho (normalmente "Advogado" e "Cliente", mas pode haver mais interlocutores)
-2. Agrupar falas contínuas do mesmo falante em um único segmento
+1. Identificar quem está falando em cada fala numerada (normalmente "Advogado" e "Cliente", mas pode haver mais interlocutores)
+2. Agrupar falas consecutivas do mesmo falante
 3. Usar o contexto para identificar os falantes (o advogado geralmente faz perguntas, orienta e usa linguagem técnica; o cliente narra fatos e faz perguntas leigas)
 
-Retorne APENAS um JSON array válido (sem markdown, sem comentários) com o seguinte formato:
-[
-  {"speaker": "Advogado", "start": "00:00", "end": "00:08", "text": "Bom dia, como posso ajudar?"},
-  {"speaker": "Cliente", "start": "00:09", "end": "00:22", "text": "Eu tenho um problema com meu contrato de trabalho..."}
-]
+Retorne APENAS um objeto JSON válido (sem markdown, sem comentários) com o seguinte formato:
+{
+  "speakers": [{"name": "Advogado", "description": "conduz a consulta e faz perguntas técnicas"}, {"name": "Cliente", "description": "narra o problema trabalhista"}],
+  "segments": [
+    {"speaker": "Advogado", "ids": [1, 2]},
+    {"speaker": "Cliente", "ids": [3]}
+  ]
+}
 
 Regras:
-- Use timestamps no formato MM:SS
-- Agrupe falas consecutivas do mesmo falante
-- Mantenha a transcrição fiel ao original
+- Toda fala numerada deve aparecer em exatamente um grupo, na ordem original
+- Use os números das falas em "ids"; não reescreva o texto
+- "speakers" lista os falantes deste trecho com uma descrição curta de cada um
 - Se não conseguir distinguir falantes, use "Interlocutor 1", "Interlocutor 2", etc.
-
-TRANSCRIÇÃO TIMESTAMPED:
 `;
 
-export const DOSSIER_PROMPT = `Você é um assistente jurídico especializado. Com base na transcrição abaixo de um atendimento jurídico, elabore um dossiê estruturado contendo:
+export interface DossierParty {
+  name: string;
+  role: string;           // "Cliente", "Parte adversa", "Testemunha"...
+  notes: string | null;
+}
 
-## DOSSIÊ DO ATENDIMENTO
+export interface DossierFact {
+  date: string | null;    // como dita no atendimento ("15/03/2024", "março de 2023")
+  description: string;
+}
 
-### 1. IDENTIFICAÇÃO DAS PARTES
-- Identifique todas as partes mencionadas (cliente, advogado, testemunhas, partes adversas, etc.)
+export interface DossierLegalIssue {
+  issue: string;
+  details: string | null;
+}
 
-### 2. RESUMO DOS FATOS
-- Relate cronologicamente os fatos narrados durante o atendimento
+export interface DossierDocument {
+  name: string;
+  status: string | null;  // "entregue", "a providenciar"...
+}
+
+export interface DossierActionItem {
+  task: string;
+  deadline: string | null;
+  responsible: string | null;
+}
 
-### 3. QUESTÕES JURÍDICAS IDENTIFICADAS
-- Liste as questões jurídicas relevantes identificadas na conversa
+// Seções próprias do modelo de dossiê da área (trabalhista, família...)
+export interface DossierExtraSection {
+  title: string;
+  items: string[];
+}
 
-### 4. DOCUMENTOS MENCIONADOS
-- Liste todos os documentos citados durante o atendimento
+export interface StructuredDossier {
+  parties: DossierParty[];
+  facts: DossierFact[];
+  legalIssues: DossierLegalIssue[];
+  documents: DossierDocument[];
+  actionItems: DossierActionItem[];
+  observations: string[];
+  extraSections: DossierExtraSection[];
+}
 
-### 5. PROVIDÊNCIAS E ENCAMINHAMENTOS
-- Liste as ações a serem tomadas, prazos mencionados e próximos passos
+export const DOSSIER_JSON_SCHEMA = `{
+  "parties": [{"name": "Maria Silva", "role": "Cliente", "notes": "Ex-funcionária da empresa X" }],
+  "facts": [{"date": "15/03/2024", "description": "Foi demitida sem justa causa"}],
+  "legalIssues": [{"issue": "Verbas rescisórias não pagas", "details": "Art. 477 da CLT"}],
+  "documents": [{"name": "CTPS", "status": "a providenciar"}],
+  "actionItems": [{"task": "Enviar notificação extrajudicial", "deadline": "em 10 dias", "responsible": "Advogado"}],
+  "observations": ["A cliente não soube informar a data exata da admissão"]
+}`;
 
-### 6. OBSERVAÇÕES IMPORTANTES
-- Destaque pontos críticos, contradições ou informações que merecem atenção especial
+export const DOSSIER_PROMPT = `Você é um assistente jurídico especializado. Com base na transcrição abaixo de um atendimento jurídico, elabore o dossiê do atendimento.
 
----
+Retorne APENAS um objeto JSON válido (sem markdown, sem comentários) exatamente com estas chaves:
+${DOSSIER_JSON_SCHEMA}
 
-TRANSCRIÇÃO DO ATENDIMENTO:
+Regras:
+- parties: todas as partes mencionadas (cliente, advogado, testemunhas, partes adversas...), com o papel de cada uma
+- facts: fatos narrados em ordem cronológica; "date" é null quando a data não foi mencionada
+- legalIssues: questões jurídicas relevantes identificadas na conversa
+- documents: todos os documentos citados durante o atendimento
+- actionItems: providências, encaminhamentos e próximos passos; "deadline" e "responsible" são null quando não mencionados
+- observations: pontos críticos, contradições ou informações que merecem atenção especial
+- Use listas vazias quando não houver itens; não invente informações que não estejam na transcrição
 `;
@@ -0,0 +1,120 @@
+import type { RecordingOptions } from 'expo-audio';
+import { IOSOutputFormat, AudioQuality } from 'expo-audio/src/RecordingConstants';
+
+// Configuração de captura dos dois gravadores (arquivo completo e trechos da
+// transcrição em tempo real), escolhida em Configurações e guardada em cada
+// gravação para comparar a captura com a qualidade da transcrição.
+
+// Android only; iOS has no equivalent and always uses the default input
+export type AudioSourceId = 'default' | 'voice_communication' | 'voice_recognition';
+
+export interface RecordingProfile {
+  sampleRate: number; // Hz
+  bitRate: number;    // bits per second (AAC)
+  audioSource: AudioSourceId;
+}
+
+// What a recording was captured with
+export interface RecordingSetup {
+  full: RecordingProfile;
+  chunk: RecordingProfile; // chunk parts, also sent for live transcription
+}
+
+export const AUDIO_SOURCES: Record<AudioSourceId, { label: string; shortLabel: string; description: string }> = {
+  default: {
+    label: 'Sem processamento',
+    shortLabel: 'Cru',
+    description: 'Áudio cru do microfone, sem filtros',
+  },
+  voice_communication: {
+    label: 'Comunicação de voz',
+    shortLabel: 'VoIP',
+    description: 'Cancelamento de eco + AGC (similar ao WhatsApp)',
+  },
+  voice_recognition: {
+    label: 'Reconhecimento de voz',
+    shortLabel: 'STT',
+    description: 'Otimizado para transcrição por IA',
+  },
+};
+
+export const SAMPLE_RATE_OPTIONS = [16000, 22050, 44100, 48000];
+export const BIT_RATE_OPTIONS = [64000, 96000, 128000, 256000];
+
+/** 256 kbps AAC, 44.1 kHz — ótima fidelidade com tamanho razoável. */
+export const DEFAULT_FULL_PROFILE: RecordingProfile = {
+  sampleRate: 44100,
+  bitRate: 256000,
+  audioSource: 'voice_communication',
+};
+
+/** 96 kbps AAC, 16 kHz — suficiente para as APIs de transcrição e rápido de enviar. */
+export const DEFAULT_CHUNK_PROFILE: RecordingProfile = {
+  sampleRate: 16000,
+  bitRate: 96000,
+  audioSource: 'voice_communication',
+};
+
+export type AudioTestProfileId = 'raw' | 'voice_comm' | 'voice_recog';
+
+// Profiles compared on the audio test screen
+export const AUDIO_TEST_PROFILES: Record<AudioTestProfileId, RecordingProfile> = {
+  raw: { sampleRate: 44100, bitRate: 256000, audioSource: 'default' },
+  voice_comm: { sampleRate: 44100, bitRate: 256000, audioSource: 'voice_communication' },
+  voice_recog: { sampleRate: 16000, bitRate: 96000, audioSource: 'voice_recognition' },
+};
+
+function iosQuality(bitRate: number): AudioQuality {
+  if (bitRate >= 192000) return AudioQuality.MAX;
+  if (bitRate > 96000) return AudioQuality.HIGH;
+  return AudioQuality.MEDIUM;
+}
+
+/** Opções do expo-audio para gravar M4A mono com o perfil dado. */
+export function buildRecordingPreset(profile: RecordingProfile, options: { metering?: boolean } = {}): RecordingOptions {
+  return {
+    extension: '.m4a',
+    sampleRate: profile.sampleRate,
+    numberOfChannels: 1,
+    bitRate: profile.bitRate,
+    isMeteringEnabled: options.metering ?? false,
+    android: {
+      outputFormat: 'mpeg4',
+      audioEncoder: 'aac',
+      ...(profile.audioSource !== 'default' && { audioSource: profile.audioSource }),
+    },
+    ios: {
+      outputFormat: IOSOutputFormat.MPEG4AAC,
+      audioQuality: iosQuality(profile.bitRate),
+      linearPCMBitDepth: 16,
+      linearPCMIsBigEndian: false,
+      linearPCMIsFloat: false,
+    },
+    web: {
+      mimeType: 'audio/webm',
+      bitsPerSecond: profile.bitRate,
+    },
+  };
+}
+
+/** Descarta valores fora das opções oferecidas, ficando com o padrão. */
+export function normalizeRecordingProfile(value: Partial<RecordingProfile> | null | undefined, fallback: RecordingProfile): RecordingProfile {
+  return {
+    sampleRate: SAMPLE_RATE_OPTIONS.includes(Number(value?.sampleRate)) ? Number(value!.sampleRate) : fallback.sampleRate,
+    bitRate: BIT_RATE_OPTIONS.includes(Number(value?.bitRate)) ? Number(value!.bitRate) : fallback.bitRate,
+    audioSource: value?.audioSource && value.audioSource in AUDIO_SOURCES ? value.audioSource : fallback.audioSource,
+  };
+}
+
+export function formatSampleRate(sampleRate: number): string {
+  return `${(sampleRate / 1000).toLocaleString('pt-BR')} kHz`;
+}
+
+export function formatBitRate(bitRate: number): string {
+  return `${Math.round(bitRate / 1000)} kbps`;
+}
+
+/** Ex.: "44,1 kHz · 256 kbps · Comunicação de voz". */
+export function describeRecordingProfile(profile: RecordingProfile): string {
+  return `${formatSampleRate(profile.sampleRate)} · ${formatBitRate(profile.bitRate)} · ${AUDIO_SOURCES[profile.audioSource].label}`;
+}
@@ -0,0 +1,63 @@
+export interface BuiltinDossierTemplate {
+  slug: string;
+  name: string;
+  // Orientações da área, anexadas ao prompt do dossiê
+  instructions: string;
+  // Seções próprias da área, pedidas ao modelo em extraSections
+  sections: string[];
+}
+
+export const DEFAULT_TEMPLATE_SLUG = 'civel';
+
+export const BUILTIN_DOSSIER_TEMPLATES: BuiltinDossierTemplate[] = [
+  {
+    slug: 'trabalhista',
+    name: 'Trabalhista',
+    instructions: `Atendimento de direito do trabalho. Identifique empregador, período do contrato, função, salário e jornada.
+Nos fatos, destaque admissão, alterações contratuais, afastamentos e a forma de desligamento.
+Nas questões jurídicas, aponte verbas rescisórias, horas extras, adicionais, estabilidades e eventual dano moral, citando a CLT quando pertinente.
+Atenção ao prazo prescricional de 2 anos após o fim do contrato.`,
+    sections: ['Dados do contrato de trabalho', 'Verbas e direitos pleiteados', 'Provas e testemunhas disponíveis'],
+  },
+  {
+    slug: 'familia',
+    name: 'Família',
+    instructions: `Atendimento de direito de família. Identifique cônjuges ou companheiros, filhos (com idades) e o regime de bens.
+Nos fatos, destaque início e fim da união, guarda atual dos filhos e situação financeira de cada parte.
+Nas questões jurídicas, aponte divórcio/dissolução, guarda, convivência, alimentos e partilha.
+Trate com cuidado informações sobre violência doméstica e menores.`,
+    sections: ['Filhos e guarda', 'Bens e partilha', 'Pensão alimentícia'],
+  },
+  {
+    slug: 'consumidor',
+    name: 'Consumidor',
+    instructions: `Atendimento de direito do consumidor. Identifique o fornecedor, o produto ou serviço e o valor envolvido.
+Nos fatos, destaque data da compra/contratação, o defeito ou falha e as tentativas de solução (SAC, Procon, protocolos).
+Nas questões jurídicas, aponte vício ou fato do produto/serviço, cobrança indevida, negativação e danos, citando o CDC quando pertinente.`,
+    sections: ['Produto ou serviço contratado', 'Protocolos e tentativas de solução', 'Valores envolvidos'],
+  },
+  {
+    slug: 'previdenciario',
+    name: 'Previdenciário',
+    instructions: `Atendimento de direito previdenciário. Identifique o segurado, idade, benefício pretendido ou já recebido e número de benefício (NB) quando dito.
+Nos fatos, destaque vínculos e períodos de contribuição, atividades especiais ou rurais, requerimentos e indeferimentos no INSS.
+Nas questões jurídicas, aponte requisitos do benefício, tempo de contribuição, carência e possibilidade de revisão.`,
+    sections: ['Histórico contributivo', 'Benefício pretendido e requisitos', 'Requerimentos no INSS'],
+  },
+  {
+    slug: 'criminal',
+    name: 'Criminal',
+    instructions: `Atendimento de direito penal. Identifique se o cliente é investigado, réu ou vítima, e as demais pessoas envolvidas.
+Nos fatos, destaque data, local e dinâmica do ocorrido, além de prisão, inquérito ou processo em andamento.
+Nas questões jurídicas, aponte tipificação possível, medidas cautelares, prazos processuais e teses de defesa ou acusação.
+Seja especialmente fiel à transcrição: não presuma culpa nem complete lacunas.`,
+    sections: ['Situação processual', 'Versão do cliente', 'Prazos e audiências'],
+  },
+  {
+    slug: 'civel',
+    name: 'Cível genérico',
+    instructions: `Atendimento cível em geral. Identifique as partes, a relação jurídica entre elas e o valor envolvido.
+Nas questões jurídicas, aponte os pedidos possíveis e os riscos de cada um.`,
+    sections: [],
+  },
+];
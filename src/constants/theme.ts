@@ -30,3 +30,9 @@ export const theme = {
 };
 
 export const colors = theme.colors;
+
+// Cores dos falantes no diálogo; o fundo do balão usa a mesma cor translúcida
+export const speakerPalette = [colors.primary, colors.secondary, '#4caf50', '#ff9800', '#42a5f5', '#ec407a', '#ffd54f', '#a1887f'];
+
+// Marcadores postos durante a gravação (pinos no player e no texto)
+export const markerColor = '#ffb300';
@@ -0,0 +1,61 @@
+import { AIProvider } from '../constants/ai';
+import { getDatabase } from './recordings';
+
+export interface BenchmarkRun {
+  id: number;
+  recording_id: number;
+  provider: AIProvider;
+  model: string;
+  latency_ms: number;
+  cost_usd: number;
+  output: string | null; // null when the run failed
+  error: string | null;
+  // Word error rate against the reference saved when the run was scored;
+  // null when the run failed or there was no reference
+  wer: number | null;
+  substitutions: number | null;
+  deletions: number | null;
+  insertions: number | null;
+  reference_words: number | null;
+  created_at: string;
+}
+
+export type NewBenchmarkRun = Omit<BenchmarkRun, 'id' | 'created_at'>;
+
+export type BenchmarkScore = Pick<BenchmarkRun, 'wer' | 'substitutions' | 'deletions' | 'insertions' | 'reference_words'>;
+
+export async function saveBenchmarkRun(run: NewBenchmarkRun): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.runAsync(
+    `INSERT INTO benchmark_runs
+      (recording_id, provider, model, latency_ms, cost_usd, output, error, wer, substitutions, deletions, insertions, reference_words)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      run.recording_id, run.provider, run.model, run.latency_ms, run.cost_usd, run.output, run.error,
+      run.wer, run.substitutions, run.deletions, run.insertions, run.reference_words,
+    ]
+  );
+  return result.lastInsertRowId;
+}
+
+export async function updateBenchmarkScore(id: number, score: BenchmarkScore): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    'UPDATE benchmark_runs SET wer = ?, substitutions = ?, deletions = ?, insertions = ?, reference_words = ? WHERE id = ?',
+    [score.wer, score.substitutions, score.deletions, score.insertions, score.reference_words, id]
+  );
+}
+
+/** Rodadas da gravação, das mais recentes para as mais antigas. */
+export async function getBenchmarkRuns(recordingId: number): Promise<BenchmarkRun[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<BenchmarkRun>(
+    'SELECT * FROM benchmark_runs WHERE recording_id = ? ORDER BY created_at DESC, id DESC',
+    [recordingId]
+  );
+}
+
+export async function deleteBenchmarkRuns(recordingId: number): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync('DELETE FROM benchmark_runs WHERE recording_id = ?', [recordingId]);
+}
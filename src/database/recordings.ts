@@ -1,14 +1,27 @@
 import * as SQLite from 'expo-sqlite';
+import { BUILTIN_DOSSIER_TEMPLATES } from '../constants/templates';
+import { RecordingMarker, RecordingWaveform, Speaker, TimestampedSegment } from '../constants/ai';
+import { RecordingSetup } from '../constants/recordingProfiles';
 
 export interface Recording {
   id: number;
   title: string;
   file_path: string;
   audio_parts: string | null;
+  part_overlaps: string | null; // JSON number[]: seconds at the start of each part repeated from the previous one
   duration: number;
   transcription: string | null;
+  transcription_segments: string | null; // JSON TimestampedSegment[] matching transcription, when known
   dialogue: string | null;
+  speakers: string | null; // JSON Speaker[] with the names given to the dialogue labels
+  markers: string | null;  // JSON RecordingMarker[] added while recording
+  waveform: string | null; // JSON RecordingWaveform measured while recording
+  recording_profile: string | null; // JSON RecordingSetup; null for imported audio
+  reference_transcription: string | null; // hand-corrected text the benchmark scores against
   dossier: string | null;
+  dossier_json: string | null; // StructuredDossier; dossier keeps the markdown rendering
+  template_id: number | null;         // template chosen for the next dossier
+  dossier_template_id: number | null; // template that produced the current dossier
   created_at: string;
   updated_at: string;
 }
@@ -22,6 +35,16 @@ export function getAudioParts(recording: Recording): string[] {
   return [recording.file_path];
 }
 
+/** Sobreposição de cada parte com a anterior, em segundos (0 sem sobreposição). */
+export function getPartOverlaps(recording: Recording): number[] {
+  const parts = getAudioParts(recording);
+  let overlaps: unknown = null;
+  try {
+    overlaps = recording.part_overlaps ? JSON.parse(recording.part_overlaps) : null;
+  } catch {}
+  return parts.map((_, i) => (Array.isArray(overlaps) && typeof overlaps[i] === 'number' ? overlaps[i] : 0));
+}
+
 let db: SQLite.SQLiteDatabase | null = null;
 
 export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
@@ -33,17 +56,107 @@ export async function getDatabase(): Promise<SQLite.SQLiteDatabase> {
       title TEXT NOT NULL,
       file_path TEXT NOT NULL,
       audio_parts TEXT,
+      part_overlaps TEXT,
       duration INTEGER NOT NULL DEFAULT 0,
       transcription TEXT,
+      transcription_segments TEXT,
       dialogue TEXT,
+      speakers TEXT,
+      markers TEXT,
+      waveform TEXT,
+      recording_profile TEXT,
+      reference_transcription TEXT,
       dossier TEXT,
+      dossier_json TEXT,
+      template_id INTEGER,
+      dossier_template_id INTEGER,
+      created_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime'))
+    );
+    -- Usage rows outlive their recording so monthly totals keep what was spent
+    CREATE TABLE IF NOT EXISTS usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      recording_id INTEGER,
+      operation TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      audio_seconds REAL NOT NULL DEFAULT 0,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_usage_recording ON usage (recording_id);
+    CREATE TABLE IF NOT EXISTS dossier_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      slug TEXT UNIQUE,
+      name TEXT NOT NULL,
+      instructions TEXT NOT NULL,
+      sections TEXT NOT NULL DEFAULT '[]',
       created_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime')),
       updated_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime'))
     );
+    -- One transcription of a recording by one provider/model, for comparison
+    CREATE TABLE IF NOT EXISTS benchmark_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      recording_id INTEGER NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      output TEXT,
+      error TEXT,
+      wer REAL,
+      substitutions INTEGER,
+      deletions INTEGER,
+      insertions INTEGER,
+      reference_words INTEGER,
+      created_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_benchmark_recording ON benchmark_runs (recording_id);
+    -- A row per recording in progress; it only survives if the app dies before saving
+    CREATE TABLE IF NOT EXISTS recording_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      full_file_path TEXT,
+      chunk_files TEXT NOT NULL DEFAULT '[]',
+      chunk_overlaps TEXT NOT NULL DEFAULT '[]',
+      transcription TEXT NOT NULL DEFAULT '',
+      duration INTEGER NOT NULL DEFAULT 0,
+      template_id INTEGER,
+      markers TEXT NOT NULL DEFAULT '[]',
+      recording_profile TEXT,
+      started_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now', 'localtime'))
+    );
   `);
   // Migrations for existing databases
   try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN audio_parts TEXT`); } catch {}
   try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN dialogue TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN transcription_segments TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN speakers TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN dossier_json TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN markers TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN template_id INTEGER`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN dossier_template_id INTEGER`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recording_sessions ADD COLUMN markers TEXT NOT NULL DEFAULT '[]'`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN recording_profile TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recording_sessions ADD COLUMN recording_profile TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN reference_transcription TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN waveform TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recordings ADD COLUMN part_overlaps TEXT`); } catch {}
+  try { await db.execAsync(`ALTER TABLE recording_sessions ADD COLUMN chunk_overlaps TEXT NOT NULL DEFAULT '[]'`); } catch {}
+  try { await db.execAsync(`ALTER TABLE benchmark_runs ADD COLUMN wer REAL`); } catch {}
+  try { await db.execAsync(`ALTER TABLE benchmark_runs ADD COLUMN substitutions INTEGER`); } catch {}
+  try { await db.execAsync(`ALTER TABLE benchmark_runs ADD COLUMN deletions INTEGER`); } catch {}
+  try { await db.execAsync(`ALTER TABLE benchmark_runs ADD COLUMN insertions INTEGER`); } catch {}
+  try { await db.execAsync(`ALTER TABLE benchmark_runs ADD COLUMN reference_words INTEGER`); } catch {}
+  // Built-in templates are inserted once; user edits are never overwritten
+  for (const template of BUILTIN_DOSSIER_TEMPLATES) {
+    await db.runAsync(
+      'INSERT OR IGNORE INTO dossier_templates (slug, name, instructions, sections) VALUES (?, ?, ?, ?)',
+      [template.slug, template.name, template.instructions, JSON.stringify(template.sections)]
+    );
+  }
   return db;
 }
 
@@ -66,17 +179,28 @@ export async function createRecording(
   title: string,
   filePath: string,
   duration: number,
-  audioParts?: string[]
+  audioParts?: string[],
+  templateId: number | null = null,
+  setup: RecordingSetup | null = null
 ): Promise<number> {
   const database = await getDatabase();
   const partsJson = audioParts && audioParts.length > 0 ? JSON.stringify(audioParts) : null;
   const result = await database.runAsync(
-    'INSERT INTO recordings (title, file_path, duration, audio_parts) VALUES (?, ?, ?, ?)',
-    [title, filePath, duration, partsJson]
+    'INSERT INTO recordings (title, file_path, duration, audio_parts, template_id, recording_profile) VALUES (?, ?, ?, ?, ?, ?)',
+    [title, filePath, duration, partsJson, templateId, setup ? JSON.stringify(setup) : null]
   );
   return result.lastInsertRowId;
 }
 
+export function getRecordingSetup(recording: { recording_profile: string | null }): RecordingSetup | null {
+  if (!recording.recording_profile) return null;
+  try {
+    const parsed = JSON.parse(recording.recording_profile);
+    if (parsed?.full && parsed?.chunk) return parsed;
+  } catch {}
+  return null;
+}
+
 export async function updateTitle(
   id: number,
   title: string
@@ -90,12 +214,34 @@ export async function updateTitle(
 
 export async function updateTranscription(
   id: number,
-  transcription: string
+  transcription: string,
+  segments: TimestampedSegment[] | null = null
 ): Promise<void> {
   const database = await getDatabase();
+  // Segments always describe the current text, so a plain transcription clears them
   await database.runAsync(
-    "UPDATE recordings SET transcription = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
-    [transcription, id]
+    "UPDATE recordings SET transcription = ?, transcription_segments = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [transcription, segments ? JSON.stringify(segments) : null, id]
+  );
+}
+
+export function getTranscriptionSegments(recording: Recording): TimestampedSegment[] | null {
+  if (!recording.transcription_segments) return null;
+  try {
+    const parsed = JSON.parse(recording.transcription_segments);
+    if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+  } catch {}
+  return null;
+}
+
+export async function updateReferenceTranscription(
+  id: number,
+  reference: string
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recordings SET reference_transcription = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [reference, id]
   );
 }
 
@@ -110,18 +256,105 @@ export async function updateDialogue(
   );
 }
 
+export async function updateTemplateChoice(
+  id: number,
+  templateId: number
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recordings SET template_id = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [templateId, id]
+  );
+}
+
+export async function updateSpeakers(
+  id: number,
+  speakers: Speaker[]
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recordings SET speakers = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [JSON.stringify(speakers), id]
+  );
+}
+
+export function getSpeakers(recording: Recording): Speaker[] {
+  if (recording.speakers) {
+    try {
+      return JSON.parse(recording.speakers);
+    } catch {}
+  }
+  return [];
+}
+
+export async function updateMarkers(
+  id: number,
+  markers: RecordingMarker[]
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recordings SET markers = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [JSON.stringify(markers), id]
+  );
+}
+
+export function getMarkers(recording: Recording): RecordingMarker[] {
+  if (recording.markers) {
+    try {
+      const parsed = JSON.parse(recording.markers);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {}
+  }
+  return [];
+}
+
+export async function updateWaveform(
+  id: number,
+  waveform: RecordingWaveform
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recordings SET waveform = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [JSON.stringify(waveform), id]
+  );
+}
+
+export async function updatePartOverlaps(
+  id: number,
+  overlaps: number[]
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recordings SET part_overlaps = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [JSON.stringify(overlaps), id]
+  );
+}
+
+export function getWaveform(recording: Recording): RecordingWaveform | null {
+  if (recording.waveform) {
+    try {
+      const parsed = JSON.parse(recording.waveform);
+      if (parsed && Array.isArray(parsed.levels) && parsed.bucketMs > 0) return parsed;
+    } catch {}
+  }
+  return null;
+}
+
 export async function updateDossier(
   id: number,
-  dossier: string
+  dossier: string,
+  dossierJson: string | null = null,
+  templateId: number | null = null
 ): Promise<void> {
   const database = await getDatabase();
   await database.runAsync(
-    "UPDATE recordings SET dossier = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
-    [dossier, id]
+    "UPDATE recordings SET dossier = ?, dossier_json = ?, dossier_template_id = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [dossier, dossierJson, templateId, id]
   );
 }
 
 export async function deleteRecording(id: number): Promise<void> {
   const database = await getDatabase();
   await database.runAsync('DELETE FROM recordings WHERE id = ?', [id]);
+  await database.runAsync('DELETE FROM benchmark_runs WHERE recording_id = ?', [id]);
 }
@@ -0,0 +1,103 @@
+import { getDatabase } from './recordings';
+import { RecordingMarker } from '../constants/ai';
+import { RecordingSetup } from '../constants/recordingProfiles';
+
+export interface RecordingSession {
+  id: number;
+  full_file_path: string | null; // temp file of the full recorder
+  chunk_files: string;           // JSON array of the chunk files saved so far
+  chunk_overlaps: string;        // JSON number[]: seconds each chunk repeats from the previous one
+  transcription: string;         // live transcription assembled so far
+  duration: number;
+  template_id: number | null;
+  markers: string;               // JSON RecordingMarker[]
+  recording_profile: string | null; // JSON RecordingSetup
+  started_at: string;
+  updated_at: string;
+}
+
+export function getSessionChunkFiles(session: RecordingSession): string[] {
+  try {
+    const parsed = JSON.parse(session.chunk_files);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {}
+  return [];
+}
+
+export function getSessionChunkOverlaps(session: RecordingSession): number[] {
+  try {
+    const parsed = JSON.parse(session.chunk_overlaps);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {}
+  return [];
+}
+
+export function getSessionMarkers(session: RecordingSession): RecordingMarker[] {
+  try {
+    const parsed = JSON.parse(session.markers);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {}
+  return [];
+}
+
+export async function createRecordingSession(
+  fullFilePath: string | null,
+  templateId: number | null,
+  setup: RecordingSetup
+): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.runAsync(
+    'INSERT INTO recording_sessions (full_file_path, template_id, recording_profile) VALUES (?, ?, ?)',
+    [fullFilePath, templateId, JSON.stringify(setup)]
+  );
+  return result.lastInsertRowId;
+}
+
+export async function updateSessionFiles(
+  id: number,
+  fullFilePath: string | null,
+  chunkFiles: string[],
+  chunkOverlaps: number[],
+  duration: number
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recording_sessions SET full_file_path = ?, chunk_files = ?, chunk_overlaps = ?, duration = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [fullFilePath, JSON.stringify(chunkFiles), JSON.stringify(chunkOverlaps), duration, id]
+  );
+}
+
+export async function updateSessionTranscription(
+  id: number,
+  transcription: string,
+  duration: number
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recording_sessions SET transcription = ?, duration = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [transcription, duration, id]
+  );
+}
+
+export async function updateSessionMarkers(
+  id: number,
+  markers: RecordingMarker[]
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE recording_sessions SET markers = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [JSON.stringify(markers), id]
+  );
+}
+
+export async function getRecordingSessions(): Promise<RecordingSession[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<RecordingSession>(
+    'SELECT * FROM recording_sessions ORDER BY started_at'
+  );
+}
+
+export async function deleteRecordingSession(id: number): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync('DELETE FROM recording_sessions WHERE id = ?', [id]);
+}
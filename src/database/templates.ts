@@ -0,0 +1,87 @@
+import { BUILTIN_DOSSIER_TEMPLATES, DEFAULT_TEMPLATE_SLUG } from '../constants/templates';
+import { getDatabase } from './recordings';
+
+export interface DossierTemplate {
+  id: number;
+  slug: string | null; // only built-in templates have one
+  name: string;
+  instructions: string;
+  sections: string; // JSON array of extra section titles
+  created_at: string;
+  updated_at: string;
+}
+
+export function getTemplateSections(template: DossierTemplate): string[] {
+  try {
+    const parsed = JSON.parse(template.sections);
+    if (Array.isArray(parsed)) return parsed.filter((s) => typeof s === 'string' && s.trim());
+  } catch {}
+  return [];
+}
+
+export async function getAllTemplates(): Promise<DossierTemplate[]> {
+  const database = await getDatabase();
+  return database.getAllAsync<DossierTemplate>(
+    'SELECT * FROM dossier_templates ORDER BY slug IS NULL, id'
+  );
+}
+
+export async function getTemplate(id: number): Promise<DossierTemplate | null> {
+  const database = await getDatabase();
+  return database.getFirstAsync<DossierTemplate>(
+    'SELECT * FROM dossier_templates WHERE id = ?',
+    [id]
+  );
+}
+
+/** Modelo escolhido, ou o cível genérico quando não há escolha (ou foi excluído). */
+export async function resolveTemplate(id: number | null | undefined): Promise<DossierTemplate | null> {
+  if (id) {
+    const template = await getTemplate(id);
+    if (template) return template;
+  }
+  const database = await getDatabase();
+  return database.getFirstAsync<DossierTemplate>(
+    'SELECT * FROM dossier_templates WHERE slug = ?',
+    [DEFAULT_TEMPLATE_SLUG]
+  );
+}
+
+export async function createTemplate(
+  name: string,
+  instructions: string,
+  sections: string[]
+): Promise<number> {
+  const database = await getDatabase();
+  const result = await database.runAsync(
+    'INSERT INTO dossier_templates (name, instructions, sections) VALUES (?, ?, ?)',
+    [name, instructions, JSON.stringify(sections)]
+  );
+  return result.lastInsertRowId;
+}
+
+export async function updateTemplate(
+  id: number,
+  name: string,
+  instructions: string,
+  sections: string[]
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    "UPDATE dossier_templates SET name = ?, instructions = ?, sections = ?, updated_at = datetime('now', 'localtime') WHERE id = ?",
+    [name, instructions, JSON.stringify(sections), id]
+  );
+}
+
+/** Volta um modelo embutido ao texto original do app. */
+export async function restoreBuiltinTemplate(template: DossierTemplate): Promise<void> {
+  const builtin = BUILTIN_DOSSIER_TEMPLATES.find((t) => t.slug === template.slug);
+  if (!builtin) return;
+  await updateTemplate(template.id, builtin.name, builtin.instructions, builtin.sections);
+}
+
+export async function deleteTemplate(id: number): Promise<void> {
+  const database = await getDatabase();
+  // Built-in templates can be edited but not removed
+  await database.runAsync('DELETE FROM dossier_templates WHERE id = ? AND slug IS NULL', [id]);
+}
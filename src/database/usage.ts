@@ -0,0 +1,61 @@
+import { UsageEvent } from '../constants/ai';
+import { getDatabase } from './recordings';
+
+export type UsageOperation = 'transcription' | 'live_transcription' | 'diarization' | 'dossier' | 'title' | 'calibration' | 'benchmark';
+
+export interface UsageSummary {
+  calls: number;
+  audio_seconds: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export async function recordUsage(
+  recordingId: number | null,
+  operation: UsageOperation,
+  event: UsageEvent
+): Promise<void> {
+  const database = await getDatabase();
+  await database.runAsync(
+    `INSERT INTO usage (recording_id, operation, provider, model, audio_seconds, input_tokens, output_tokens, cost_usd)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      recordingId,
+      operation,
+      event.provider,
+      event.model,
+      event.audioSeconds ?? 0,
+      event.inputTokens ?? 0,
+      event.outputTokens ?? 0,
+      event.costUsd,
+    ]
+  );
+}
+
+const SUMMARY_COLUMNS = `
+  COUNT(*) AS calls,
+  COALESCE(SUM(audio_seconds), 0) AS audio_seconds,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd
+`;
+
+export async function getRecordingUsage(recordingId: number): Promise<UsageSummary> {
+  const database = await getDatabase();
+  const row = await database.getFirstAsync<UsageSummary>(
+    `SELECT ${SUMMARY_COLUMNS} FROM usage WHERE recording_id = ?`,
+    [recordingId]
+  );
+  return row ?? { calls: 0, audio_seconds: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+}
+
+/** Consumo do mês corrente (horário local), de todas as gravações. */
+export async function getMonthlyUsage(): Promise<UsageSummary> {
+  const database = await getDatabase();
+  const row = await database.getFirstAsync<UsageSummary>(
+    `SELECT ${SUMMARY_COLUMNS} FROM usage
+     WHERE strftime('%Y-%m', created_at) = strftime('%Y-%m', 'now', 'localtime')`
+  );
+  return row ?? { calls: 0, audio_seconds: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+}
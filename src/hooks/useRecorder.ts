@@ -1,11 +1,36 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { AudioModule, type RecordingOptions } from 'expo-audio';
-import { IOSOutputFormat, AudioQuality } from 'expo-audio/src/RecordingConstants';
-import { Paths, File, Directory } from 'expo-file-system';
+import { File } from 'expo-file-system';
 import { transcribeAudio } from '../services/ai';
-import { getSettings } from '../services/settings';
-
+import { getSettings, isProviderConfigured, AppSettings } from '../services/settings';
+import { createChunkQueue, ChunkQueue, ChunkQueueState } from '../services/chunkQueue';
+import { joinTranscripts, transcriptTail } from '../services/continuity';
+import { createVoiceActivityDetector, DEFAULT_VAD_SETTINGS } from '../services/vad';
+import { LevelWarning, createLevelMonitor, createWaveformBuilder } from '../services/levels';
+import { ensureFileUri, existingParts, getChunksDir, mergePartsIntoFull, moveChunkParts, moveFullRecording } from '../services/recordingFiles';
+import {
+  createRecordingSession,
+  getRecordingSessions,
+  updateSessionFiles,
+  updateSessionMarkers,
+  updateSessionTranscription,
+} from '../database/sessions';
+import { RecordingMarker, RecordingWaveform, UsageEvent } from '../constants/ai';
+import {
+  DEFAULT_CHUNK_PROFILE,
+  DEFAULT_FULL_PROFILE,
+  RecordingSetup,
+  buildRecordingPreset,
+  describeRecordingProfile,
+} from '../constants/recordingProfiles';
+
+// Fixed chunk length, only used when the recorder gives no metering readings
 const CHUNK_DURATION_DEFAULT_MS = 5000;
+const METERING_INTERVAL_MS = 100;
+// With overlap on, the next chunk starts this long before the current one stops
+const CHUNK_OVERLAP_MS = 700;
+// Readings kept for the scrolling waveform on the recording screen
+const RECENT_LEVELS = 60;
 
 const SLOW_MODELS = ['gemini-2.5-pro', 'gemini-3.1-pro-preview'];
 
@@ -14,80 +39,11 @@ function getChunkDurationMs(model: string): number {
   return CHUNK_DURATION_DEFAULT_MS;
 }
 
-
-/**
- * Preset de alta qualidade para a gravação completa (arquivo final).
- * 256 kbps AAC, 44.1 kHz, mono — ótima fidelidade com tamanho razoável.
- */
-const FULL_RECORDING_PRESET: RecordingOptions = {
-  extension: '.m4a',
-  sampleRate: 44100,
-  numberOfChannels: 1,
-  bitRate: 256000,
-  android: {
-    outputFormat: 'mpeg4',
-    audioEncoder: 'aac',
-    audioSource: 'voice_communication',
-  },
-  ios: {
-    outputFormat: IOSOutputFormat.MPEG4AAC,
-    audioQuality: AudioQuality.MAX,
-    linearPCMBitDepth: 16,
-    linearPCMIsBigEndian: false,
-    linearPCMIsFloat: false,
-  },
-  web: {
-    mimeType: 'audio/webm',
-    bitsPerSecond: 256000,
-  },
-};
-
-/**
- * Preset leve para chunks de transcrição em tempo real.
- * 96 kbps AAC, 16 kHz, mono — suficiente para APIs de STT
- * e reduz latência de upload significativamente.
- */
-const CHUNK_RECORDING_PRESET: RecordingOptions = {
-  extension: '.m4a',
-  sampleRate: 16000,
-  numberOfChannels: 1,
-  bitRate: 96000,
-  android: {
-    outputFormat: 'mpeg4',
-    audioEncoder: 'aac',
-    audioSource: 'voice_communication',
-  },
-  ios: {
-    outputFormat: IOSOutputFormat.MPEG4AAC,
-    audioQuality: AudioQuality.MEDIUM,
-    linearPCMBitDepth: 16,
-    linearPCMIsBigEndian: false,
-    linearPCMIsFloat: false,
-  },
-  web: {
-    mimeType: 'audio/webm',
-    bitsPerSecond: 64000,
-  },
-};
-
-function ensureFileUri(path: string): string {
-  if (path.startsWith('file://')) return path;
-  return `file://${path}`;
-}
-
-function getRecordingsDir(): Directory {
-  const dir = new Directory(Paths.document, 'recordings');
-  if (!dir.exists) dir.create();
-  return dir;
-}
-
-function getChunksDir(): Directory {
-  const dir = new Directory(Paths.cache, 'chunks');
-  if (!dir.exists) dir.create();
-  return dir;
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function createRecorder(preset: RecordingOptions = FULL_RECORDING_PRESET) {
+async function createRecorder(preset: RecordingOptions) {
   const recorder = new AudioModule.AudioRecorder(preset);
   await recorder.prepareToRecordAsync();
   return recorder;
@@ -100,6 +56,11 @@ export function useRecorder() {
   const [finalUri, setFinalUri] = useState<string | null>(null);
   const [liveTranscription, setLiveTranscription] = useState('');
   const [isLiveTranscriptionOn, setIsLiveTranscriptionOn] = useState(true);
+  const [pendingChunks, setPendingChunks] = useState(0);
+  const [failedChunks, setFailedChunks] = useState(0);
+  const [markers, setMarkers] = useState<RecordingMarker[]>([]);
+  const [recentLevels, setRecentLevels] = useState<number[]>([]);
+  const [levelWarning, setLevelWarning] = useState<LevelWarning>(null);
 
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const chunkTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -107,10 +68,27 @@ export function useRecorder() {
   const recorderRef = useRef<any>(null);
   const fullRecorderRef = useRef<any>(null);
   const chunkFilesRef = useRef<string[]>([]);
+  // Seconds each saved chunk repeats from the previous one, and the same for the chunk being recorded
+  const chunkOverlapsRef = useRef<number[]>([]);
+  const currentOverlapRef = useRef(0);
   const transcriptionRef = useRef('');
+  const settingsRef = useRef<AppSettings | null>(null);
+  const queueRef = useRef<ChunkQueue | null>(null);
+  const rotationRef = useRef<Promise<void> | null>(null);
+  const detectorRef = useRef(createVoiceActivityDetector(DEFAULT_VAD_SETTINGS));
+  const chunkElapsedMsRef = useRef(0);
+  const chunkMeteredRef = useRef(false);
+  const sessionIdRef = useRef<number | null>(null);
+  const fullFilePathRef = useRef<string | null>(null);
+  const usageRef = useRef<UsageEvent[]>([]);
+  const markersRef = useRef<RecordingMarker[]>([]);
+  const waveformRef = useRef(createWaveformBuilder());
+  const levelMonitorRef = useRef(createLevelMonitor(DEFAULT_VAD_SETTINGS.silenceThresholdDb));
   const isStoppingRef = useRef(false);
   const chunkDurationMsRef = useRef(CHUNK_DURATION_DEFAULT_MS);
   const liveTranscriptionRef = useRef(true);
+  const setupRef = useRef<RecordingSetup>({ full: DEFAULT_FULL_PROFILE, chunk: DEFAULT_CHUNK_PROFILE });
+  const chunkPresetRef = useRef<RecordingOptions>(buildRecordingPreset(DEFAULT_CHUNK_PROFILE, { metering: true }));
 
   const startTimer = useCallback(() => {
     timerRef.current = setInterval(() => {
@@ -143,8 +121,15 @@ export function useRecorder() {
     };
   }, [stopTimer, stopChunkTimer]);
 
-  const saveCurrentChunk = useCallback(async (): Promise<string | null> => {
-    const recorder = recorderRef.current;
+  // Keeps the session row in step with the files, so a crash loses at most the current chunk
+  const persistSessionFiles = () => {
+    const sessionId = sessionIdRef.current;
+    if (sessionId === null) return;
+    updateSessionFiles(sessionId, fullFilePathRef.current, [...chunkFilesRef.current], [...chunkOverlapsRef.current], durationRef.current)
+      .catch((error) => console.log('[RECORDER] Session update error:', error));
+  };
+
+  const saveChunk = useCallback(async (recorder: any, overlapSeconds: number): Promise<string | null> => {
     if (!recorder) return null;
 
     const uri = recorder.uri;
@@ -161,51 +146,152 @@ export function useRecorder() {
     sourceFile.move(chunkFile);
 
     chunkFilesRef.current.push(chunkFile.uri);
+    chunkOverlapsRef.current.push(overlapSeconds);
+    persistSessionFiles();
     return chunkFile.uri;
   }, []);
 
-  const transcribeChunk = useCallback(async (chunkUri: string) => {
+  const getQueue = useCallback((): ChunkQueue => {
+    if (!queueRef.current) {
+      queueRef.current = createChunkQueue({
+        transcribe: async (chunk, precedingText) => {
+          const settings = settingsRef.current!;
+          return transcribeAudio(
+            settings.provider,
+            settings.apiKey,
+            chunk.uri,
+            settings.transcriptionModel,
+            (event) => usageRef.current.push(event),
+            { prompt: transcriptTail(precedingText) || undefined }
+          );
+        },
+        joinText: joinTranscripts,
+        onChange: (state: ChunkQueueState) => {
+          if (sessionIdRef.current !== null && state.text !== transcriptionRef.current) {
+            updateSessionTranscription(sessionIdRef.current, state.text, durationRef.current)
+              .catch((error) => console.log('[RECORDER] Session update error:', error));
+          }
+          transcriptionRef.current = state.text;
+          setLiveTranscription(state.text);
+          setPendingChunks(state.pending);
+          setFailedChunks(state.failed);
+        },
+      });
+    }
+    return queueRef.current;
+  }, []);
+
+  const transcribeChunk = useCallback((chunkUri: string) => {
     if (!liveTranscriptionRef.current) return;
+    const settings = settingsRef.current;
+    if (!settings || !isProviderConfigured(settings)) return;
+    getQueue().enqueue(chunkUri);
+  }, [getQueue]);
 
-    try {
-      const settings = await getSettings();
-      if (!settings.apiKey) return;
-
-      const text = await transcribeAudio(
-        settings.provider,
-        settings.apiKey,
-        chunkUri,
-        settings.transcriptionModel
-      );
-
-      if (text && text.trim()) {
-        transcriptionRef.current += (transcriptionRef.current ? ' ' : '') + text.trim();
-        setLiveTranscription(transcriptionRef.current);
-      }
-    } catch (error) {
-      console.log('[RECORDER] Chunk transcription error:', error);
-    }
+  const retryFailedChunks = useCallback(() => {
+    queueRef.current?.retryFailed();
+  }, []);
+
+  // Closes the VAD bookkeeping of the current chunk and tells whether it had speech
+  const takeChunkSpeech = useCallback((): boolean => {
+    // Without metering readings there is no way to tell, so the chunk is sent
+    const hasSpeech = !chunkMeteredRef.current || detectorRef.current.hasSpeech();
+    detectorRef.current.reset();
+    chunkElapsedMsRef.current = 0;
+    chunkMeteredRef.current = false;
+    return hasSpeech;
   }, []);
 
   const rotateChunk = useCallback(async () => {
-    if (isStoppingRef.current || isPaused) return;
+    if (isStoppingRef.current || isPaused || rotationRef.current) return;
+    const hasSpeech = takeChunkSpeech();
+
+    const rotate = async () => {
+      const previousRecorder = recorderRef.current;
+      const previousOverlap = currentOverlapRef.current;
+      let chunkUri: string | null;
+
+      if (settingsRef.current?.chunkOverlapEnabled) {
+        // Both recorders hold the words at the cut; joinTranscripts drops the
+        // repeated text, and the measured overlap is trimmed from the audio
+        const newRecorder = await createRecorder(chunkPresetRef.current);
+        newRecorder.record();
+        const startedAt = Date.now();
+        recorderRef.current = newRecorder;
+        await sleep(CHUNK_OVERLAP_MS);
+        currentOverlapRef.current = (Date.now() - startedAt) / 1000;
+        chunkUri = await saveChunk(previousRecorder, previousOverlap);
+      } else {
+        chunkUri = await saveChunk(previousRecorder, previousOverlap);
+
+        // Start new chunk recorder immediately
+        const newRecorder = await createRecorder(chunkPresetRef.current);
+        recorderRef.current = newRecorder;
+        newRecorder.record();
+        currentOverlapRef.current = 0;
+      }
 
-    try {
-      const chunkUri = await saveCurrentChunk();
+      // Queue the saved chunk (only if live transcription is on); silent
+      // chunks stay as audio parts but are not sent, since Whisper invents text on them
+      if (chunkUri && hasSpeech) transcribeChunk(chunkUri);
+      else if (chunkUri) console.log('[RECORDER] Silent chunk not transcribed');
+    };
 
-      // Start new chunk recorder immediately
-      const newRecorder = await createRecorder(CHUNK_RECORDING_PRESET);
-      recorderRef.current = newRecorder;
-      newRecorder.record();
+    rotationRef.current = rotate()
+      .catch((error) => console.log('[RECORDER] Chunk rotation error:', error))
+      .finally(() => { rotationRef.current = null; });
+  }, [saveChunk, transcribeChunk, takeChunkSpeech, isPaused]);
+
+  // Feeds the meter, the stored waveform and the warnings. The full recorder
+  // runs without breaks, so it is read first; chunks cover a failed start
+  const trackInputLevel = useCallback((elapsed: number) => {
+    const level = fullRecorderRef.current?.getStatus?.().metering ?? recorderRef.current?.getStatus?.().metering;
+    if (typeof level !== 'number') return;
+    waveformRef.current.add(level, elapsed);
+    setRecentLevels((prev) => [...prev.slice(-(RECENT_LEVELS - 1)), level]);
+    const warning = levelMonitorRef.current.update(level, elapsed);
+    setLevelWarning((prev) => (prev === warning ? prev : warning));
+  }, []);
 
-      // Transcribe saved chunk in background (only if live transcription is on)
-      if (chunkUri && liveTranscriptionRef.current) {
-        transcribeChunk(chunkUri);
+  /**
+   * Lê o nível dos gravadores a cada 100 ms e corta o trecho na primeira
+   * pausa depois do mínimo (ou no máximo, sem pausa).
+   */
+  const startChunkTimer = useCallback(() => {
+    let lastTick = Date.now();
+    chunkTimerRef.current = setInterval(() => {
+      const now = Date.now();
+      const elapsed = Math.min(now - lastTick, 1000);
+      lastTick = now;
+      trackInputLevel(elapsed);
+      if (rotationRef.current) return;
+
+      chunkElapsedMsRef.current += elapsed;
+      const level = recorderRef.current?.getStatus?.().metering;
+      if (typeof level === 'number') {
+        chunkMeteredRef.current = true;
+        if (detectorRef.current.update(level, elapsed)) rotateChunk();
+      } else if (chunkElapsedMsRef.current >= chunkDurationMsRef.current) {
+        rotateChunk();
       }
-    } catch (error) {
-      console.log('[RECORDER] Chunk rotation error:', error);
+    }, METERING_INTERVAL_MS);
+  }, [rotateChunk, trackInputLevel]);
+
+  /**
+   * Marca um momento da gravação, com uma nota opcional. `time` permite marcar
+   * o instante em que a nota começou a ser digitada; por padrão é o atual.
+   */
+  const addMarker = useCallback((note?: string, time?: number) => {
+    const marker: RecordingMarker = { time: time ?? durationRef.current, note: note?.trim() || null };
+    markersRef.current = [...markersRef.current, marker];
+    setMarkers(markersRef.current);
+
+    const sessionId = sessionIdRef.current;
+    if (sessionId !== null) {
+      updateSessionMarkers(sessionId, markersRef.current)
+        .catch((error) => console.log('[RECORDER] Session update error:', error));
     }
-  }, [saveCurrentChunk, transcribeChunk, isPaused]);
+  }, []);
 
   const requestPermissions = useCallback(async (): Promise<boolean> => {
     const status = await AudioModule.requestRecordingPermissionsAsync();
@@ -218,7 +304,7 @@ export function useRecorder() {
     setIsLiveTranscriptionOn(newValue);
   }, []);
 
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (templateId: number | null = null) => {
     const hasPermission = await requestPermissions();
     if (!hasPermission) {
       throw new Error('Permissão de microfone negada');
@@ -238,47 +324,67 @@ export function useRecorder() {
     setIsPaused(false);
     setLiveTranscription('');
     transcriptionRef.current = '';
+    getQueue().clear();
+    usageRef.current = [];
+    markersRef.current = [];
+    setMarkers([]);
+    waveformRef.current.reset();
+    setRecentLevels([]);
+    setLevelWarning(null);
     chunkFilesRef.current = [];
+    chunkOverlapsRef.current = [];
+    currentOverlapRef.current = 0;
     isStoppingRef.current = false;
+    sessionIdRef.current = null;
+    fullFilePathRef.current = null;
 
     // Determine chunk duration and live transcription preference
     const settings = await getSettings();
+    settingsRef.current = settings;
     const chunkMs = getChunkDurationMs(settings.transcriptionModel);
     chunkDurationMsRef.current = chunkMs;
     liveTranscriptionRef.current = settings.liveTranscriptionEnabled;
     setIsLiveTranscriptionOn(settings.liveTranscriptionEnabled);
-
-    // Clean old chunks
-    const chunksDir = getChunksDir();
-    if (chunksDir.exists) {
+    detectorRef.current = createVoiceActivityDetector(settings.vad);
+    levelMonitorRef.current = createLevelMonitor(settings.vad.silenceThresholdDb);
+    // Both recorders meter the input level: chunks for the pause detection,
+    // the full file for the level meter and waveform
+    setupRef.current = { full: settings.fullRecordingProfile, chunk: settings.chunkRecordingProfile };
+    chunkPresetRef.current = buildRecordingPreset(settings.chunkRecordingProfile, { metering: true });
+    takeChunkSpeech();
+
+    // Clean old chunks, unless they belong to an interrupted session not yet recovered
+    if ((await getRecordingSessions()).length === 0) {
+      const chunksDir = getChunksDir();
       chunksDir.delete();
       chunksDir.create();
     }
 
     // Start the FULL recorder (runs continuously for the entire session)
     try {
-      const fullRecorder = await createRecorder(FULL_RECORDING_PRESET);
+      const fullRecorder = await createRecorder(buildRecordingPreset(settings.fullRecordingProfile, { metering: true }));
       fullRecorderRef.current = fullRecorder;
       fullRecorder.record();
-      console.log('[RECORDER] Full recorder started (256kbps AAC)');
+      fullFilePathRef.current = fullRecorder.uri ?? null;
+      console.log('[RECORDER] Full recorder started:', describeRecordingProfile(settings.fullRecordingProfile));
     } catch (error) {
       console.log('[RECORDER] Full recorder failed to start:', error);
       fullRecorderRef.current = null;
     }
 
+    sessionIdRef.current = await createRecordingSession(fullFilePathRef.current, templateId, setupRef.current);
+
     // Start the chunk recorder
-    const chunkRecorder = await createRecorder(CHUNK_RECORDING_PRESET);
+    const chunkRecorder = await createRecorder(chunkPresetRef.current);
     recorderRef.current = chunkRecorder;
     chunkRecorder.record();
 
     setIsRecording(true);
     startTimer();
 
-    // Start chunk rotation timer
-    chunkTimerRef.current = setInterval(() => {
-      rotateChunk();
-    }, chunkMs);
-  }, [requestPermissions, startTimer, rotateChunk]);
+    // Start watching the input level to cut chunks at pauses
+    startChunkTimer();
+  }, [requestPermissions, startTimer, startChunkTimer, takeChunkSpeech, getQueue]);
 
   const pauseRecording = useCallback(async () => {
     // Pause both recorders
@@ -291,6 +397,9 @@ export function useRecorder() {
     setIsPaused(true);
     stopTimer();
     stopChunkTimer();
+    // Silence while paused is expected; the count starts over on resume
+    levelMonitorRef.current.reset();
+    setLevelWarning(null);
   }, [stopTimer, stopChunkTimer]);
 
   const resumeRecording = useCallback(async () => {
@@ -303,25 +412,32 @@ export function useRecorder() {
 
     setIsPaused(false);
     startTimer();
+    startChunkTimer();
+  }, [startTimer, startChunkTimer]);
 
-    chunkTimerRef.current = setInterval(() => {
-      rotateChunk();
-    }, chunkDurationMsRef.current);
-  }, [startTimer, rotateChunk]);
-
-  const stopRecording = useCallback(async (): Promise<{
+  // onFailedChunks: asked while failed chunks are still in the cache; true retries them
+  const stopRecording = useCallback(async (
+    onFailedChunks?: (failed: number) => Promise<boolean>
+  ): Promise<{
     fullUri: string;
     uri: string;
     duration: number;
     transcription: string;
     audioParts: string[];
+    partOverlaps: number[];
+    usage: UsageEvent[];
+    markers: RecordingMarker[];
+    waveform: RecordingWaveform;
+    setup: RecordingSetup;
+    failedChunks: number;
+    sessionId: number | null;
   }> => {
     isStoppingRef.current = true;
     stopTimer();
     stopChunkTimer();
+    setLevelWarning(null);
 
     const currentDuration = durationRef.current;
-    const recordingsDir = getRecordingsDir();
     const timestamp = Date.now();
 
     // 1. Stop the full recorder and save the integral file
@@ -333,14 +449,8 @@ export function useRecorder() {
         await fullRecorder.stop();
 
         if (fullUri) {
-          const sourceUri = ensureFileUri(fullUri);
-          const sourceFile = new File(sourceUri);
-          if (sourceFile.exists) {
-            const destFile = new File(recordingsDir, `gravacao_${timestamp}_full.m4a`);
-            sourceFile.move(destFile);
-            fullFileUri = destFile.uri;
-            console.log('[RECORDER] Full recording saved:', fullFileUri);
-          }
+          fullFileUri = moveFullRecording(fullUri, timestamp);
+          if (fullFileUri) console.log('[RECORDER] Full recording saved:', fullFileUri);
         }
       } catch (error) {
         console.log('[RECORDER] Error saving full recording:', error);
@@ -348,32 +458,39 @@ export function useRecorder() {
       fullRecorderRef.current = null;
     }
 
-    // 2. Save the last chunk and transcribe it
+    // 2. Save the last chunk and wait for every queued chunk (retries included)
+    // before the files are moved out of the cache
+    await rotationRef.current;
     const recorder = recorderRef.current;
     if (recorder) {
-      const lastChunkUri = await saveCurrentChunk();
-      if (lastChunkUri && liveTranscriptionRef.current) {
-        await transcribeChunk(lastChunkUri);
-      }
+      const hasSpeech = takeChunkSpeech();
+      const lastChunkUri = await saveChunk(recorder, currentOverlapRef.current);
+      if (lastChunkUri && hasSpeech) transcribeChunk(lastChunkUri);
       recorderRef.current = null;
     }
+    let queueState = await getQueue().drain();
+    while (queueState.failed > 0 && onFailedChunks && (await onFailedChunks(queueState.failed))) {
+      getQueue().retryFailed();
+      queueState = await getQueue().drain();
+    }
 
     // 3. Move all chunks to recordings directory
-    const allChunks = chunkFilesRef.current;
-    const savedParts: string[] = [];
-
-    for (let i = 0; i < allChunks.length; i++) {
-      const chunkFile = new File(allChunks[i]);
-      if (chunkFile.exists) {
-        const partNum = String(i + 1).padStart(3, '0');
-        const destFile = new File(recordingsDir, `gravacao_${timestamp}_${partNum}.m4a`);
-        chunkFile.move(destFile);
-        savedParts.push(destFile.uri);
-      }
+    const chunks = existingParts(chunkFilesRef.current, chunkOverlapsRef.current);
+    const savedParts = moveChunkParts(chunks.paths, timestamp);
+
+    // The session follows the files, so it can still be recovered until the
+    // screen saves the recording and deletes it
+    fullFilePathRef.current = fullFileUri || null;
+    chunkFilesRef.current = savedParts;
+    chunkOverlapsRef.current = chunks.overlaps;
+    const sessionId = sessionIdRef.current;
+    if (sessionId !== null) {
+      await updateSessionFiles(sessionId, fullFilePathRef.current, savedParts, chunks.overlaps, currentDuration).catch(() => {});
+      await updateSessionTranscription(sessionId, queueState.text, currentDuration).catch(() => {});
     }
 
-    // Use full recording as primary; fall back to first chunk
-    const primaryUri = fullFileUri || (savedParts.length > 0 ? savedParts[0] : '');
+    // Use full recording as primary; fall back to the chunks joined into one file
+    const primaryUri = fullFileUri || (await mergePartsIntoFull(savedParts, timestamp, chunks.overlaps));
 
     setFinalUri(primaryUri);
     setIsRecording(false);
@@ -383,10 +500,17 @@ export function useRecorder() {
       fullUri: fullFileUri,
       uri: primaryUri,
       duration: currentDuration,
-      transcription: transcriptionRef.current,
+      transcription: queueState.text,
       audioParts: savedParts,
+      partOverlaps: chunks.overlaps,
+      usage: usageRef.current,
+      markers: markersRef.current,
+      waveform: waveformRef.current.build(),
+      setup: setupRef.current,
+      failedChunks: queueState.failed,
+      sessionId,
     };
-  }, [stopTimer, stopChunkTimer, saveCurrentChunk, transcribeChunk]);
+  }, [stopTimer, stopChunkTimer, saveChunk, transcribeChunk, takeChunkSpeech, getQueue]);
 
   return {
     isRecording,
@@ -396,6 +520,13 @@ export function useRecorder() {
     liveTranscription,
     isLiveTranscriptionOn,
     toggleLiveTranscription,
+    pendingChunks,
+    failedChunks,
+    retryFailedChunks,
+    markers,
+    addMarker,
+    recentLevels,
+    levelWarning,
     startRecording,
     pauseRecording,
     resumeRecording,
@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createAudioPlayer, AudioPlayer, AudioStatus } from 'expo-audio';
+import { File } from 'expo-file-system';
+import { Recording, getAudioParts, getPartOverlaps } from '../database/recordings';
+import { getAudioDurationSeconds } from '../services/mp4';
+import { ensureFileUri, existingParts } from '../services/recordingFiles';
+import { SilentRange } from '../services/levels';
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// Skipping a silence lands this long before the speech comes back
+const SILENCE_LEAD_S = 0.3;
+
+interface PlaybackSource {
+  uri: string;
+  offset: number;   // seconds from the start of the recording
+  duration: number; // seconds it adds to the recording (without the skipped start)
+  skip: number;     // seconds at the start of the file already heard in the previous part
+}
+
+export interface RecordingPlayback {
+  time: number;      // seconds from the start of the recording, across parts
+  duration: number;
+  playing: boolean;
+  rate: number;
+  partCount: number; // more than 1 when the parts play in place of a missing full file
+}
+
+export interface RecordingPlayerControls {
+  play: () => void;
+  pause: () => void;
+  seekTo: (seconds: number) => void;
+  setRate: (rate: number) => void;
+}
+
+function fileExists(path: string): boolean {
+  try {
+    return new File(ensureFileUri(path)).exists;
+  } catch {
+    return false;
+  }
+}
+
+// The full file when it is there; otherwise the parts, one after the other,
+// each one starting after the stretch it repeats from the previous part
+async function resolveSources(recording: Recording): Promise<PlaybackSource[]> {
+  if (fileExists(recording.file_path)) {
+    return [{ uri: recording.file_path, offset: 0, duration: recording.duration, skip: 0 }];
+  }
+  const parts = existingParts(getAudioParts(recording), getPartOverlaps(recording));
+  const sources: PlaybackSource[] = [];
+  let offset = 0;
+  for (const [i, uri] of parts.paths.entries()) {
+    const fileDuration = (await getAudioDurationSeconds(uri)) ?? recording.duration / parts.paths.length;
+    const skip = Math.min(parts.overlaps[i], fileDuration);
+    sources.push({ uri, offset, duration: fileDuration - skip, skip });
+    offset += fileDuration - skip;
+  }
+  return sources;
+}
+
+/**
+ * Player da gravação, criado pela tela para que o diálogo e a transcrição
+ * acompanhem a posição e possam pular para um trecho. Sem o arquivo completo,
+ * toca as partes em sequência como se fossem um só áudio; com `skipSilence`,
+ * pula os trechos de silêncio medidos durante a gravação.
+ */
+export function useRecordingPlayer(recording: Recording | null, silentRanges: SilentRange[], skipSilence: boolean) {
+  const [sources, setSources] = useState<PlaybackSource[]>([]);
+  const [playback, setPlayback] = useState<RecordingPlayback>({ time: 0, duration: 0, playing: false, rate: 1, partCount: 0 });
+
+  const sourcesRef = useRef<PlaybackSource[]>([]);
+  const playerRef = useRef<AudioPlayer | null>(null);
+  const subscriptionRef = useRef<{ remove: () => void } | null>(null);
+  const partRef = useRef(0);
+  const pendingSeekRef = useRef<number | null>(null);
+  const rateRef = useRef(1);
+  const skipRef = useRef({ ranges: silentRanges, enabled: skipSilence });
+  skipRef.current = { ranges: silentRanges, enabled: skipSilence };
+
+  useEffect(() => {
+    let cancelled = false;
+    setSources([]);
+    if (!recording) return;
+    resolveSources(recording)
+      .then((resolved) => { if (!cancelled) setSources(resolved); })
+      .catch((error) => console.log('[PLAYER] Failed to find the audio:', error));
+    return () => { cancelled = true; };
+  }, [recording?.file_path, recording?.audio_parts, recording?.part_overlaps]);
+
+  function totalDuration(): number {
+    const all = sourcesRef.current;
+    const last = all[all.length - 1];
+    return last ? last.offset + last.duration : 0;
+  }
+
+  function unloadPart() {
+    subscriptionRef.current?.remove();
+    subscriptionRef.current = null;
+    playerRef.current?.release();
+    playerRef.current = null;
+  }
+
+  function loadPart(index: number, startAt: number, autoplay: boolean) {
+    unloadPart();
+    const player = createAudioPlayer({ uri: sourcesRef.current[index].uri });
+    playerRef.current = player;
+    partRef.current = index;
+    // Seeking before the file is loaded is ignored, so it waits for the first status
+    const fileTime = sourcesRef.current[index].skip + startAt;
+    pendingSeekRef.current = fileTime > 0 ? fileTime : null;
+    player.setPlaybackRate(rateRef.current);
+    subscriptionRef.current = player.addListener('playbackStatusUpdate', (status) => handleStatus(player, index, status));
+    if (autoplay) player.play();
+  }
+
+  function handleStatus(player: AudioPlayer, index: number, status: AudioStatus) {
+    if (playerRef.current !== player) return;
+    const source = sourcesRef.current[index];
+
+    if (status.isLoaded && pendingSeekRef.current !== null) {
+      const seconds = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+      player.seekTo(seconds);
+      return;
+    }
+    // The stored length is rounded to whole seconds; the player knows better
+    if (sourcesRef.current.length === 1 && status.duration > 0) source.duration = status.duration;
+
+    if (status.didJustFinish && index < sourcesRef.current.length - 1) {
+      loadPart(index + 1, 0, true);
+      return;
+    }
+
+    const time = source.offset + Math.max(0, (status.currentTime ?? 0) - source.skip);
+    if (status.playing && skipRef.current.enabled) {
+      const silence = skipRef.current.ranges.find((r) => r.start <= time && time < r.end - SILENCE_LEAD_S);
+      if (silence) seekTo(silence.end - SILENCE_LEAD_S);
+    }
+    setPlayback((prev) => ({ ...prev, time, playing: status.playing, duration: totalDuration() }));
+  }
+
+  function seekTo(seconds: number) {
+    const all = sourcesRef.current;
+    if (all.length === 0) return;
+    const target = Math.max(0, Math.min(seconds, totalDuration()));
+    let index = 0;
+    while (index < all.length - 1 && all[index + 1].offset <= target) index++;
+
+    if (index === partRef.current && playerRef.current) {
+      playerRef.current.seekTo(all[index].skip + target - all[index].offset);
+    } else {
+      loadPart(index, target - all[index].offset, playerRef.current?.playing ?? false);
+    }
+    setPlayback((prev) => ({ ...prev, time: target }));
+  }
+
+  useEffect(() => {
+    sourcesRef.current = sources;
+    setPlayback((prev) => ({ ...prev, time: 0, playing: false, duration: totalDuration(), partCount: sources.length }));
+    if (sources.length === 0) return;
+    loadPart(0, 0, false);
+    return unloadPart;
+  }, [sources]);
+
+  const controls = useMemo<RecordingPlayerControls | null>(() => {
+    if (sources.length === 0) return null;
+    return {
+      play: () => playerRef.current?.play(),
+      pause: () => playerRef.current?.pause(),
+      seekTo,
+      setRate(rate) {
+        rateRef.current = rate;
+        playerRef.current?.setPlaybackRate(rate);
+        setPlayback((prev) => ({ ...prev, rate }));
+      },
+    };
+  }, [sources]);
+
+  return { controls, playback };
+}
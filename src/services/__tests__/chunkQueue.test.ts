@@ -0,0 +1,102 @@
+import { ChunkQueueState, createChunkQueue } from '../chunkQueue';
+
+type Transcriber = (uri: string, precedingText: string) => Promise<string>;
+
+function makeQueue(transcribe: Transcriber) {
+  const states: ChunkQueueState[] = [];
+  const queue = createChunkQueue({
+    transcribe: (chunk, precedingText) => transcribe(chunk.uri, precedingText),
+    onChange: (state) => states.push(state),
+  });
+  return { queue, states };
+}
+
+function deferred() {
+  let resolve!: (text: string) => void;
+  const promise = new Promise<string>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createChunkQueue', () => {
+  it('assembles the text in recording order around a failed middle chunk', async () => {
+    const prompts: Record<string, string> = {};
+    const { queue } = makeQueue(async (uri, precedingText) => {
+      prompts[uri] = precedingText;
+      if (uri === 'b') throw new Error('falhou');
+      return uri.toUpperCase();
+    });
+    queue.enqueue('a');
+    queue.enqueue('b');
+    queue.enqueue('c');
+
+    expect(await queue.drain()).toEqual({ text: 'A C', pending: 0, failed: 1 });
+    expect(prompts).toEqual({ a: '', b: 'A', c: 'A' });
+  });
+
+  it('waits for the previous chunk so its text is the next prompt', async () => {
+    const first = deferred();
+    const prompts: string[] = [];
+    const { queue } = makeQueue((uri, precedingText) => {
+      prompts.push(precedingText);
+      return uri === 'a' ? first.promise : Promise.resolve('segundo');
+    });
+    queue.enqueue('a');
+    queue.enqueue('b');
+    first.resolve('primeiro');
+
+    expect((await queue.drain()).text).toBe('primeiro segundo');
+    expect(prompts).toEqual(['', 'primeiro']);
+  });
+
+  it('retries only the failed chunks', async () => {
+    let failing = true;
+    const calls: string[] = [];
+    const { queue } = makeQueue(async (uri) => {
+      calls.push(uri);
+      if (uri === 'b' && failing) throw new Error('falhou');
+      return uri.toUpperCase();
+    });
+    queue.enqueue('a');
+    queue.enqueue('b');
+    queue.enqueue('c');
+    await queue.drain();
+
+    failing = false;
+    queue.retryFailed();
+    expect(await queue.drain()).toEqual({ text: 'A B C', pending: 0, failed: 0 });
+    expect(calls).toEqual(['a', 'b', 'c', 'b']);
+  });
+
+  it('resolves drain after clear and ignores late answers', async () => {
+    const late = deferred();
+    const { queue, states } = makeQueue(() => late.promise);
+    queue.enqueue('a');
+    queue.clear();
+
+    expect(await queue.drain()).toEqual({ text: '', pending: 0, failed: 0 });
+    late.resolve('atrasado');
+    await late.promise;
+    await Promise.resolve();
+    expect(queue.getState().text).toBe('');
+    expect(states[states.length - 1].text).toBe('');
+  });
+
+  it('starts over from the first chunk after clear', async () => {
+    const { queue } = makeQueue(async (uri, precedingText) => `${uri}(${precedingText})`);
+    queue.enqueue('a');
+    await queue.drain();
+    queue.clear();
+    queue.enqueue('b');
+
+    expect(queue.getChunks().map(c => c.seq)).toEqual([0]);
+    expect((await queue.drain()).text).toBe('b()');
+  });
+});
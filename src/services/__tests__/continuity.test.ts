@@ -0,0 +1,34 @@
+import { joinTranscripts, transcriptTail } from '../continuity';
+
+describe('joinTranscripts', () => {
+  it('drops the words the next chunk repeats from the previous one', () => {
+    expect(joinTranscripts('o réu não pagou a dívida', 'pagou a dívida em março'))
+      .toBe('o réu não pagou a dívida em março');
+  });
+
+  it('matches across case, accents and punctuation', () => {
+    expect(joinTranscripts('O prazo é de quinze dias.', 'Quinze dias, contados da citação'))
+      .toBe('O prazo é de quinze dias. contados da citação');
+  });
+
+  it('keeps a short repeated word, which is often real speech', () => {
+    expect(joinTranscripts('ele disse que', 'que não vinha')).toBe('ele disse que que não vinha');
+  });
+
+  it('removes a long single repeated word', () => {
+    expect(joinTranscripts('foi assinado o contrato', 'contrato de locação')).toBe('foi assinado o contrato de locação');
+  });
+
+  it('handles empty sides and fully repeated chunks', () => {
+    expect(joinTranscripts('', '  texto novo ')).toBe('texto novo');
+    expect(joinTranscripts('texto anterior', '   ')).toBe('texto anterior');
+    expect(joinTranscripts('bom dia doutora', 'bom dia doutora')).toBe('bom dia doutora');
+  });
+});
+
+describe('transcriptTail', () => {
+  it('keeps whole words at the end of the text', () => {
+    expect(transcriptTail('um dois três quatro', 12)).toBe('três quatro');
+    expect(transcriptTail('  curto  ')).toBe('curto');
+  });
+});
@@ -0,0 +1,53 @@
+import { collapseRepetitionLoops, filterHallucinations, filterTimestampedTranscription } from '../hallucinations';
+
+describe('filterHallucinations', () => {
+  it('drops subtitle credits and channel sign-offs', () => {
+    expect(filterHallucinations('O contrato venceu em março. Legendas pela comunidade Amara.org, 2023'))
+      .toBe('O contrato venceu em março.');
+    expect(filterHallucinations('Obrigado por assistir! Inscreva-se no canal.')).toBe('');
+    expect(filterHallucinations('Até o próximo vídeo.')).toBe('');
+  });
+
+  it('keeps real sentences that share words with the signatures', () => {
+    for (const sentence of [
+      'Inscreva-se no INSS.',
+      'Inscreva-se no concurso.',
+      'As legendas por favor.',
+      'Até o próximo vídeo da audiência.',
+      'Legendado por quem?',
+    ]) {
+      expect(filterHallucinations(sentence)).toBe(sentence);
+    }
+  });
+
+  it('keeps line breaks between the remaining sentences', () => {
+    expect(filterHallucinations('Primeira frase.\nObrigado por assistir.\nSegunda frase.'))
+      .toBe('Primeira frase.\nSegunda frase.');
+  });
+
+  it('collapses repetition loops', () => {
+    expect(filterHallucinations('e aí, e aí, e aí, e aí, tudo certo')).toBe('e aí, tudo certo');
+  });
+});
+
+describe('collapseRepetitionLoops', () => {
+  it('keeps short hesitations but collapses long single-word runs', () => {
+    expect(collapseRepetitionLoops('não, não, não, pode ser')).toBe('não, não, não, pode ser');
+    expect(collapseRepetitionLoops('sim sim sim sim sim sim sim ok')).toBe('sim ok');
+  });
+});
+
+describe('filterTimestampedTranscription', () => {
+  it('drops segments the model marks as silence and rebuilds the plain text', () => {
+    const result = filterTimestampedTranscription({
+      plainText: 'Bom dia. Obrigado por assistir. Pode sentar.',
+      segments: [
+        { start: 0, end: 2, text: 'Bom dia.' },
+        { start: 2, end: 4, text: 'Obrigado por assistir.' },
+        { start: 4, end: 6, text: 'Pode sentar.', noSpeechProb: 0.9, avgLogprob: -1.5 },
+      ],
+    });
+    expect(result.segments.map(seg => seg.text)).toEqual(['Bom dia.']);
+    expect(result.plainText).toBe('Bom dia.');
+  });
+});
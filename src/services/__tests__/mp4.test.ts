@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { bytesSource, concatAudioFiles, concatMp4Audio, getAudioDurationSeconds, readMp4DurationSeconds } from '../mp4';
+
+// Fixtures written by an independent muxer (scripts/make-mp4-fixtures.js) and
+// checked here with an independent parser, so the tests never trust our own
+// reading of the boxes. mp4box ships without types.
+const MP4Box = require('mp4box');
+
+// expo-file-system backed by the real disk, with the reads counted
+jest.mock('expo-file-system', () => {
+  const nodeFs = jest.requireActual('fs');
+  class FakeHandle {
+    offset = 0;
+    fd: number;
+    constructor(fd: number) { this.fd = fd; }
+    readBytes(length: number) {
+      const out = new Uint8Array(length);
+      const read = nodeFs.readSync(this.fd, out, 0, length, this.offset);
+      this.offset += read;
+      (globalThis as any).mockBytesRead += read;
+      return out.subarray(0, read);
+    }
+    writeBytes(bytes: Uint8Array) {
+      nodeFs.writeSync(this.fd, bytes, 0, bytes.length, this.offset);
+      this.offset += bytes.length;
+    }
+    close() {
+      nodeFs.closeSync(this.fd);
+    }
+  }
+  class FakeFile {
+    uri: string;
+    constructor(uri: string) { this.uri = uri; }
+    get exists() { return nodeFs.existsSync(this.uri); }
+    get size() { return nodeFs.statSync(this.uri).size; }
+    create() { nodeFs.writeFileSync(this.uri, new Uint8Array(0)); }
+    delete() { nodeFs.unlinkSync(this.uri); }
+    open() { return new FakeHandle(nodeFs.openSync(this.uri, 'r+')); }
+  }
+  return { File: FakeFile };
+});
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const fixturePath = (name: string) => path.join(FIXTURES, name);
+const fixture = (name: string) => new Uint8Array(fs.readFileSync(fixturePath(name)));
+
+interface ParsedAudio {
+  boxes: string[];
+  movieDuration: number;  // seconds, from mvhd
+  mediaDuration: number;  // timescale units, from mdhd
+  timescale: number;
+  stts: [number, number][];
+  samplesPerChunk: number[];
+  samples: Uint8Array[];  // sample bytes, found through stsc/stco/stsz
+}
+
+function parse(bytes: Uint8Array): ParsedAudio {
+  const buffer = bytes.slice().buffer as ArrayBuffer & { fileStart?: number };
+  buffer.fileStart = 0;
+  const file = MP4Box.createFile();
+  file.appendBuffer(buffer);
+  file.flush();
+
+  const trak = file.moov.traks[0];
+  const stbl = trak.mdia.minf.stbl;
+  const chunkOffsets: number[] = stbl.stco.chunk_offsets;
+  const firstChunk: number[] = stbl.stsc.first_chunk;
+  const perEntry: number[] = stbl.stsc.samples_per_chunk;
+  const sizes: number[] = stbl.stsz.sample_sizes;
+
+  const samplesPerChunk = chunkOffsets.map((_, i) => {
+    let entry = 0;
+    while (entry + 1 < firstChunk.length && firstChunk[entry + 1] <= i + 1) entry++;
+    return perEntry[entry];
+  });
+  const samples: Uint8Array[] = [];
+  chunkOffsets.forEach((offset, chunk) => {
+    for (let s = 0; s < samplesPerChunk[chunk]; s++) {
+      const size = sizes[samples.length];
+      samples.push(bytes.subarray(offset, offset + size));
+      offset += size;
+    }
+  });
+
+  return {
+    boxes: file.boxes.map((box: { type: string }) => box.type),
+    movieDuration: file.moov.mvhd.duration / file.moov.mvhd.timescale,
+    mediaDuration: trak.mdia.mdhd.duration,
+    timescale: trak.mdia.mdhd.timescale,
+    stts: stbl.stts.sample_counts.map((count: number, i: number) => [count, stbl.stts.sample_deltas[i]]),
+    samplesPerChunk,
+    samples,
+  };
+}
+
+const partA = parse(fixture('part-a.m4a'));
+const partB = parse(fixture('part-b.m4a'));
+
+describe('readMp4DurationSeconds', () => {
+  it('reads the duration with the moov at the end or at the start', () => {
+    expect(readMp4DurationSeconds(bytesSource(fixture('part-a.m4a')))).toBeCloseTo(2.56);
+    expect(readMp4DurationSeconds(bytesSource(fixture('part-b.m4a')))).toBeCloseTo(1.6);
+  });
+
+  it('returns null for something that is not MP4', () => {
+    expect(readMp4DurationSeconds(bytesSource(new Uint8Array(64)))).toBeNull();
+  });
+});
+
+describe('concatMp4Audio', () => {
+  const output = concatMp4Audio([fixture('part-a.m4a'), fixture('part-b.m4a')]);
+  const parsed = parse(output);
+
+  it('writes ftyp, mdat and moov', () => {
+    expect(parsed.boxes).toEqual(['ftyp', 'mdat', 'moov']);
+  });
+
+  it('rebuilds the sample tables from both parts in order', () => {
+    expect(parsed.stts).toEqual([[65, 1024]]);
+    expect(parsed.samplesPerChunk).toEqual([...partA.samplesPerChunk, ...partB.samplesPerChunk]);
+    expect(parsed.samples.map(s => s.length)).toEqual([...partA.samples, ...partB.samples].map(s => s.length));
+  });
+
+  it('points every chunk offset at the same sample bytes as the sources', () => {
+    const expected = [...partA.samples, ...partB.samples];
+    parsed.samples.forEach((sample, i) => expect(Array.from(sample)).toEqual(Array.from(expected[i])));
+  });
+
+  it('sums the durations in mdhd and mvhd', () => {
+    expect(parsed.timescale).toBe(16000);
+    expect(parsed.mediaDuration).toBe(65 * 1024);
+    expect(parsed.movieDuration).toBeCloseTo(2.56 + 1.6);
+    expect(readMp4DurationSeconds(bytesSource(output))).toBeCloseTo(4.16);
+  });
+
+  it('keeps only the samples that start inside each range', () => {
+    // 1024-sample frames at 16 kHz: 0.5 s falls inside frame 7, 1 s inside frame 15
+    const trimmed = parse(concatMp4Audio(
+      [fixture('part-a.m4a'), fixture('part-b.m4a')],
+      [{ start: 0.5 }, { end: 1 }]
+    ));
+    const expected = [...partA.samples.slice(8), ...partB.samples.slice(0, 16)];
+    expect(trimmed.samples.map(s => Array.from(s))).toEqual(expected.map(s => Array.from(s)));
+    expect(trimmed.mediaDuration).toBe(expected.length * 1024);
+  });
+
+  it('splits one file by time', () => {
+    const file = fixture('part-a.m4a');
+    const head = parse(concatMp4Audio([file], [{ end: 1.28 }]));
+    const tail = parse(concatMp4Audio([file], [{ start: 1.28 }]));
+    expect([...head.samples, ...tail.samples].map(s => Array.from(s)))
+      .toEqual(partA.samples.map(s => Array.from(s)));
+  });
+
+  it('rejects parts with different formats', () => {
+    expect(() => concatMp4Audio([fixture('part-a.m4a'), fixture('other-rate.m4a')]))
+      .toThrow('formatos diferentes');
+  });
+
+  it('rejects an empty range', () => {
+    expect(() => concatMp4Audio([fixture('part-a.m4a')], [{ start: 10 }])).toThrow();
+  });
+});
+
+describe('concatAudioFiles', () => {
+  let tmpDir: string;
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'mp4-'));
+    (globalThis as any).mockBytesRead = 0;
+  });
+  afterEach(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+  it('streams the same file the in-memory version builds', async () => {
+    const outputPath = path.join(tmpDir, 'out.m4a');
+    const slices = [{ path: fixturePath('part-a.m4a'), start: 0.5 }, fixturePath('part-b.m4a')];
+    await expect(concatAudioFiles(slices, outputPath)).resolves.toBe(true);
+    expect(Array.from(fs.readFileSync(outputPath))).toEqual(Array.from(
+      concatMp4Audio([fixture('part-a.m4a'), fixture('part-b.m4a')], [{ start: 0.5 }])
+    ));
+  });
+
+  it('skips missing inputs', async () => {
+    const outputPath = path.join(tmpDir, 'out.m4a');
+    await concatAudioFiles([fixturePath('part-a.m4a'), path.join(tmpDir, 'missing.m4a')], outputPath);
+    expect(parse(new Uint8Array(fs.readFileSync(outputPath))).samples).toHaveLength(40);
+  });
+
+  it('leaves no output when the formats differ', async () => {
+    const outputPath = path.join(tmpDir, 'out.m4a');
+    await expect(concatAudioFiles([fixturePath('part-a.m4a'), fixturePath('other-rate.m4a')], outputPath))
+      .resolves.toBe(false);
+    expect(fs.existsSync(outputPath)).toBe(false);
+  });
+});
+
+describe('getAudioDurationSeconds', () => {
+  it('reads the headers without the audio data', async () => {
+    (globalThis as any).mockBytesRead = 0;
+    const size = fs.statSync(fixturePath('part-a.m4a')).size;
+    const mdatSize = partA.samples.reduce((sum, s) => sum + s.length, 0);
+    await expect(getAudioDurationSeconds(fixturePath('part-a.m4a'))).resolves.toBeCloseTo(2.56);
+    expect((globalThis as any).mockBytesRead).toBeLessThan(size - mdatSize);
+  });
+});
@@ -0,0 +1,59 @@
+import { DEFAULT_VAD_SETTINGS, createVoiceActivityDetector, normalizeVadSettings } from '../vad';
+
+const SPEECH_DB = -20;
+const SILENCE_DB = -60;
+const STEP_MS = 100;
+
+// Feeds readings until the detector asks for a cut; returns the chunk length
+function feedUntilCut(levels: (elapsedMs: number) => number, limitMs = 60000): number | null {
+  const detector = createVoiceActivityDetector(DEFAULT_VAD_SETTINGS);
+  for (let elapsed = STEP_MS; elapsed <= limitMs; elapsed += STEP_MS) {
+    if (detector.update(levels(elapsed), STEP_MS)) return elapsed;
+  }
+  return null;
+}
+
+describe('createVoiceActivityDetector', () => {
+  it('cuts at the maximum length when nobody pauses', () => {
+    expect(feedUntilCut(() => SPEECH_DB)).toBe(DEFAULT_VAD_SETTINGS.maxChunkMs);
+  });
+
+  it('waits for the minimum length before cutting at a pause', () => {
+    // Speech for 1 s, then silence: the pause is long enough early, but the cut waits for minChunkMs
+    expect(feedUntilCut((elapsed) => (elapsed <= 1000 ? SPEECH_DB : SILENCE_DB))).toBe(DEFAULT_VAD_SETTINGS.minChunkMs);
+  });
+
+  it('cuts at the first long enough pause after the minimum length', () => {
+    // Speech until 5 s, then silence: cut once the pause reaches minSilenceMs
+    expect(feedUntilCut((elapsed) => (elapsed <= 5000 ? SPEECH_DB : SILENCE_DB)))
+      .toBe(5000 + DEFAULT_VAD_SETTINGS.minSilenceMs);
+  });
+
+  it('only cuts silence at the maximum length and reports no speech', () => {
+    const detector = createVoiceActivityDetector(DEFAULT_VAD_SETTINGS);
+    let cutAt: number | null = null;
+    for (let elapsed = STEP_MS; cutAt === null; elapsed += STEP_MS) {
+      if (detector.update(SILENCE_DB, STEP_MS)) cutAt = elapsed;
+    }
+    expect(cutAt).toBe(DEFAULT_VAD_SETTINGS.maxChunkMs);
+    expect(detector.hasSpeech()).toBe(false);
+  });
+
+  it('treats a short noise as no speech and starts over on reset', () => {
+    const detector = createVoiceActivityDetector(DEFAULT_VAD_SETTINGS);
+    detector.update(SPEECH_DB, 200);
+    expect(detector.hasSpeech()).toBe(false);
+    detector.update(SPEECH_DB, 200);
+    expect(detector.hasSpeech()).toBe(true);
+    detector.reset();
+    expect(detector.hasSpeech()).toBe(false);
+  });
+});
+
+describe('normalizeVadSettings', () => {
+  it('falls back to the defaults and keeps the maximum above the minimum', () => {
+    expect(normalizeVadSettings(null)).toEqual(DEFAULT_VAD_SETTINGS);
+    expect(normalizeVadSettings({ minChunkMs: 20000, maxChunkMs: 5000, silenceThresholdDb: -200 }))
+      .toMatchObject({ minChunkMs: 20000, maxChunkMs: 20000, silenceThresholdDb: -80 });
+  });
+});
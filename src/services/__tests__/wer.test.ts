@@ -0,0 +1,32 @@
+import { normalizeWords, wordErrorRate } from '../wer';
+
+describe('wordErrorRate', () => {
+  it('is zero for the same words, ignoring case, accents and punctuation', () => {
+    expect(wordErrorRate('Ação de indenização.', 'acao de INDENIZACAO').wer).toBe(0);
+  });
+
+  it('counts substitutions, deletions and insertions', () => {
+    expect(wordErrorRate('o réu pagou a dívida', 'o autor pagou dívida'))
+      .toEqual({ wer: 2 / 5, substitutions: 1, deletions: 1, insertions: 0, referenceWords: 5 });
+    expect(wordErrorRate('o réu pagou', 'o réu pagou tudo'))
+      .toEqual({ wer: 1 / 3, substitutions: 0, deletions: 0, insertions: 1, referenceWords: 3 });
+  });
+
+  it('handles empty texts', () => {
+    expect(wordErrorRate('', '').wer).toBe(0);
+    expect(wordErrorRate('', 'algo').wer).toBe(1);
+    expect(wordErrorRate('três palavras aqui', '')).toMatchObject({ wer: 1, deletions: 3 });
+  });
+
+  it('scores long texts without building the whole matrix', () => {
+    const reference = Array.from({ length: 5000 }, (_, i) => `palavra${i % 97}`).join(' ');
+    const hypothesis = reference.replace('palavra5 ', '');
+    expect(wordErrorRate(reference, hypothesis)).toMatchObject({ deletions: 1, substitutions: 0, insertions: 0 });
+  });
+});
+
+describe('normalizeWords', () => {
+  it('reads amounts the same way with or without separators', () => {
+    expect(normalizeWords('R$ 15.000,00')).toEqual(normalizeWords('R$ 15000'));
+  });
+});
@@ -1,67 +1,245 @@
-import { AIProvider, TimestampedSegment, DiarizedSegment, DIARIZATION_PROMPT, formatTimestamp } from '../constants/ai';
-import { transcribeWithOpenAI, generateDossierWithOpenAI, transcribeWithOpenAITimestamped } from './openai';
-import { transcribeWithGemini, generateDossierWithGemini, transcribeWithGeminiTimestamped } from './gemini';
-import { transcribeWithGroq, generateDossierWithGroq, transcribeWithGroqTimestamped } from './groq';
+import { AIProvider, AIUsage, CompletionOptions, TranscriptionOptions, TimestampedSegment, TimestampedTranscription, DiarizedTranscription, StructuredDossier, UsageEvent, DOSSIER_JSON_SCHEMA, estimateCostUsd } from '../constants/ai';
+import { Recording } from '../database/recordings';
+import { DossierTemplate, getTemplateSections } from '../database/templates';
+import { getProviderService } from './providers';
+import { getAudioDurationSeconds } from './mp4';
+import { joinTranscripts } from './continuity';
+import { planAudioPieces, releaseAudioPieces } from './audioPieces';
+import { SpeakerProfile, buildDiarizationPrompt, buildDiarizationWindows, mergeSpeakerTurns, mergeWindowSpeakers, parseDiarizationWindow, splitLongSegments } from './diarization';
+import { filterHallucinations, filterTimestampedTranscription } from './hallucinations';
+import { DossierHighlights, buildDossierPrompt, parsePartialStructuredDossier, parseStructuredDossier, structuredDossierToMarkdown } from './dossier';
+
+const MAX_CONCURRENT_UPLOADS = 3;
+const MAX_DOSSIER_REPAIRS = 2;
+const MAX_DIARIZATION_REPAIRS = 2;
+
+export interface TranscriptionProgress {
+  completed: number;
+  total: number;
+}
+
+/** Recebe o consumo de cada chamada ao provedor, já com o custo estimado. */
+export type UsageListener = (event: UsageEvent) => void;
+
+export interface GeneratedDossier {
+  structured: StructuredDossier;
+  markdown: string;
+}
+
+function emitUsage(
+  onUsage: UsageListener | undefined,
+  provider: AIProvider,
+  model: string,
+  kind: 'transcription' | 'completion',
+  usage: AIUsage
+) {
+  if (!onUsage) return;
+  onUsage({ ...usage, provider, model, costUsd: estimateCostUsd(provider, model, kind, usage) });
+}
+
+async function emitTranscriptionUsage(
+  onUsage: UsageListener | undefined,
+  provider: AIProvider,
+  model: string,
+  audioFilePath: string,
+  usage: AIUsage = {}
+) {
+  if (!onUsage) return;
+  // Not every response reports duration; measure the uploaded file instead
+  const audioSeconds = usage.audioSeconds ?? (await getAudioDurationSeconds(audioFilePath)) ?? undefined;
+  emitUsage(onUsage, provider, model, 'transcription', { ...usage, audioSeconds });
+}
 
 export async function transcribeAudio(
   provider: AIProvider,
   apiKey: string,
   audioFilePath: string,
-  model: string
+  model: string,
+  onUsage?: UsageListener,
+  options?: TranscriptionOptions
 ): Promise<string> {
-  switch (provider) {
-    case 'openai':
-      return transcribeWithOpenAI(apiKey, audioFilePath, model);
-    case 'gemini':
-      return transcribeWithGemini(apiKey, audioFilePath, model);
-    case 'groq':
-      return transcribeWithGroq(apiKey, audioFilePath, model);
-    default:
-      throw new Error(`Provedor não suportado: ${provider}`);
-  }
+  const result = await getProviderService(provider).transcribe(apiKey, audioFilePath, model, options);
+  await emitTranscriptionUsage(onUsage, provider, model, audioFilePath, result.usage);
+  return filterHallucinations(result.text);
 }
 
 export async function transcribeAudioWithTimestamps(
   provider: AIProvider,
   apiKey: string,
   audioFilePath: string,
-  model: string
-): Promise<{ segments: TimestampedSegment[]; plainText: string }> {
-  switch (provider) {
-    case 'openai':
-      return transcribeWithOpenAITimestamped(apiKey, audioFilePath, model);
-    case 'gemini':
-      return transcribeWithGeminiTimestamped(apiKey, audioFilePath, model);
-    case 'groq':
-      return transcribeWithGroqTimestamped(apiKey, audioFilePath, model);
-    default:
-      throw new Error(`Provedor não suportado: ${provider}`);
+  model: string,
+  onUsage?: UsageListener
+): Promise<TimestampedTranscription> {
+  const result = await getProviderService(provider).transcribeTimestamped(apiKey, audioFilePath, model);
+  await emitTranscriptionUsage(onUsage, provider, model, audioFilePath, result.usage);
+  return filterTimestampedTranscription(result);
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
   }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
-export async function generateDossier(
+export async function transcribeRecording(
   provider: AIProvider,
   apiKey: string,
-  transcription: string,
-  model: string
+  recording: Recording,
+  model: string,
+  onProgress?: (progress: TranscriptionProgress) => void,
+  onUsage?: UsageListener
 ): Promise<string> {
-  switch (provider) {
-    case 'openai':
-      return generateDossierWithOpenAI(apiKey, transcription, model);
-    case 'gemini':
-      return generateDossierWithGemini(apiKey, transcription, model);
-    case 'groq':
-      return generateDossierWithGroq(apiKey, transcription, model);
-    default:
-      throw new Error(`Provedor não suportado: ${provider}`);
+  const pieces = await planAudioPieces(provider, recording);
+  let completed = 0;
+  onProgress?.({ completed, total: pieces.length });
+
+  const texts = await mapWithConcurrency(pieces, MAX_CONCURRENT_UPLOADS, async (piece) => {
+    const text = await transcribeAudio(provider, apiKey, piece.uri, model, onUsage);
+    onProgress?.({ completed: ++completed, total: pieces.length });
+    return text.trim();
+  }).finally(() => releaseAudioPieces(pieces));
+
+  // Overlapping pieces repeat a few words at the seam; joinTranscripts drops them
+  return texts.reduce(joinTranscripts, '');
+}
+
+export async function transcribeRecordingWithTimestamps(
+  provider: AIProvider,
+  apiKey: string,
+  recording: Recording,
+  model: string,
+  onProgress?: (progress: TranscriptionProgress) => void,
+  onUsage?: UsageListener
+): Promise<TimestampedTranscription> {
+  const pieces = await planAudioPieces(provider, recording);
+  let completed = 0;
+  onProgress?.({ completed, total: pieces.length });
+
+  const results = await mapWithConcurrency(pieces, MAX_CONCURRENT_UPLOADS, async (piece) => {
+    const result = await transcribeAudioWithTimestamps(provider, apiKey, piece.uri, model, onUsage);
+    onProgress?.({ completed: ++completed, total: pieces.length });
+    return result;
+  }).finally(() => releaseAudioPieces(pieces));
+
+  const segments: TimestampedSegment[] = [];
+  results.forEach((result, i) => {
+    const { offset, lead } = pieces[i];
+    for (const seg of result.segments) {
+      if (!seg.text) continue;
+      // Speech in the lead was already transcribed at the end of the previous piece
+      if ((seg.start + seg.end) / 2 < lead) continue;
+      segments.push({ start: seg.start + offset, end: seg.end + offset, text: seg.text });
+    }
+  });
+
+  const plainText = results.map(r => r.plainText.trim()).reduce(joinTranscripts, '');
+  return { segments, plainText };
+}
+
+async function complete(
+  provider: AIProvider,
+  apiKey: string,
+  prompt: string,
+  model: string,
+  onUsage?: UsageListener,
+  options?: CompletionOptions
+): Promise<string> {
+  const result = await getProviderService(provider).complete(apiKey, prompt, model, options);
+  emitUsage(onUsage, provider, model, 'completion', result.usage);
+  return result.text;
+}
+
+/**
+ * Valida o JSON do dossiê e, se vier quebrado ou incompleto, devolve ao modelo
+ * a resposta anterior com a lista de problemas para que ele a corrija.
+ */
+async function ensureValidDossier(
+  provider: AIProvider,
+  apiKey: string,
+  raw: string,
+  model: string,
+  template: DossierTemplate | null,
+  onUsage?: UsageListener
+): Promise<GeneratedDossier> {
+  const requiredSections = template ? getTemplateSections(template) : [];
+  let attempt = raw;
+  for (let repair = 0; ; repair++) {
+    const { dossier, errors } = parseStructuredDossier(attempt, requiredSections);
+    if (dossier) return { structured: dossier, markdown: structuredDossierToMarkdown(dossier) };
+    if (repair >= MAX_DOSSIER_REPAIRS) break;
+
+    console.log(`[DOSSIER] Resposta inválida, pedindo correção (${repair + 1}):`, errors.join(' | '));
+    const prompt = `O JSON abaixo deveria ser o dossiê de um atendimento jurídico, mas tem problemas:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Corrija-o e retorne APENAS o objeto JSON válido, exatamente com estas chaves:
+${DOSSIER_JSON_SCHEMA}
+${requiredSections.length > 0 ? `e "extraSections" com as seções: ${requiredSections.join('; ')}\n` : ''}
+Mantenha todo o conteúdo que já estava correto; não invente informações.
+
+JSON COM PROBLEMAS:
+${attempt}`;
+    attempt = await complete(provider, apiKey, prompt, model, onUsage, { json: true });
   }
+
+  throw new Error('O modelo não retornou um dossiê válido. Tente novamente ou escolha outro modelo em Configurações.');
+}
+
+export async function generateDossier(
+  provider: AIProvider,
+  apiKey: string,
+  transcription: string,
+  model: string,
+  template: DossierTemplate | null,
+  onUsage?: UsageListener,
+  highlights?: DossierHighlights
+): Promise<GeneratedDossier> {
+  const raw = await complete(provider, apiKey, buildDossierPrompt(template, transcription, highlights), model, onUsage, { json: true });
+  return ensureValidDossier(provider, apiKey, raw, model, template, onUsage);
+}
+
+/** onPartial recebe as seções já legíveis do JSON que ainda está chegando. */
+export async function generateDossierStream(
+  provider: AIProvider,
+  apiKey: string,
+  transcription: string,
+  model: string,
+  template: DossierTemplate | null,
+  onPartial: (partial: StructuredDossier) => void,
+  onUsage?: UsageListener,
+  highlights?: DossierHighlights
+): Promise<GeneratedDossier> {
+  const result = await getProviderService(provider).completeStream(
+    apiKey,
+    buildDossierPrompt(template, transcription, highlights),
+    model,
+    (text) => {
+      const partial = parsePartialStructuredDossier(text);
+      if (partial) onPartial(partial);
+    },
+    { json: true }
+  );
+  emitUsage(onUsage, provider, model, 'completion', result.usage);
+  return ensureValidDossier(provider, apiKey, result.text, model, template, onUsage);
 }
 
 export async function generateTitle(
   provider: AIProvider,
   apiKey: string,
   transcription: string,
-  model: string
+  model: string,
+  onUsage?: UsageListener
 ): Promise<string> {
   const prompt = `Com base na transcrição abaixo de uma reunião jurídica, gere um título curto (máximo 8 palavras) que resuma o assunto.
 O título deve começar com "Reunião" e mencionar o tema principal ou a pessoa envolvida.
@@ -71,60 +249,56 @@ Retorne APENAS o título, sem aspas, sem explicações.
 TRANSCRIÇÃO:
 ${transcription}`;
 
-  switch (provider) {
-    case 'openai':
-      return (await generateDossierWithOpenAI(apiKey, prompt, model)).trim();
-    case 'gemini':
-      return (await generateDossierWithGemini(apiKey, prompt, model)).trim();
-    case 'groq':
-      return (await generateDossierWithGroq(apiKey, prompt, model)).trim();
-    default:
-      throw new Error(`Provedor não suportado: ${provider}`);
-  }
+  return (await complete(provider, apiKey, prompt, model, onUsage)).trim();
 }
 
+/**
+ * Identifica os falantes janela a janela. Cada janela recebe a lista de
+ * falantes já conhecidos e o fim da anterior como contexto, e reclassifica as
+ * últimas falas da anterior (sobreposição); respostas que não cobrem as falas
+ * de origem ou saem da ordem são pedidas de novo.
+ */
 export async function diarizeTranscription(
   provider: AIProvider,
   apiKey: string,
   segments: TimestampedSegment[],
-  model: string
-): Promise<DiarizedSegment[]> {
-  // Format timestamped segments for the LLM
-  const formattedSegments = segments
-    .filter(s => s.text.trim())
-    .map(s => `[${formatTimestamp(s.start)} - ${formatTimestamp(s.end)}] "${s.text}"`)
-    .join('\n');
-
-  const prompt = DIARIZATION_PROMPT + formattedSegments;
-
-  let response: string;
-  switch (provider) {
-    case 'openai':
-      response = await generateDossierWithOpenAI(apiKey, prompt, model);
-      break;
-    case 'gemini':
-      response = await generateDossierWithGemini(apiKey, prompt, model);
-      break;
-    case 'groq':
-      response = await generateDossierWithGroq(apiKey, prompt, model);
-      break;
-    default:
-      throw new Error(`Provedor não suportado: ${provider}`);
-  }
+  model: string,
+  onProgress?: (progress: TranscriptionProgress) => void,
+  onUsage?: UsageListener
+): Promise<DiarizedTranscription> {
+  const source = splitLongSegments(segments);
+  const windows = buildDiarizationWindows(source);
+  let speakers: string[] = [];
+  let roster: SpeakerProfile[] = [];
+  onProgress?.({ completed: 0, total: windows.length });
+
+  for (const [index, window] of windows.entries()) {
+    const prompt = buildDiarizationPrompt(source, window, roster, speakers);
+    let attemptPrompt = prompt;
+    for (let repair = 0; ; repair++) {
+      const response = await complete(provider, apiKey, attemptPrompt, model, onUsage, { json: true });
+      const result = parseDiarizationWindow(response, source, window, roster);
+      if (result.speakers) {
+        speakers = mergeWindowSpeakers(speakers, window, result.speakers);
+        roster = result.roster;
+        break;
+      }
+      console.log(`[DIARIZE] Janela ${index + 1} inválida:`, result.errors.join(' | '));
+      if (repair >= MAX_DIARIZATION_REPAIRS) {
+        throw new Error('Falha ao interpretar resposta da diarização. Tente novamente.');
+      }
+      attemptPrompt = `${prompt}
 
-  // Parse JSON from LLM response (may be wrapped in markdown code block)
-  const cleaned = response.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
-  try {
-    const parsed = JSON.parse(cleaned);
-    const arr = Array.isArray(parsed) ? parsed : parsed.segments || [];
-    return arr.map((seg: any) => ({
-      speaker: seg.speaker || 'Desconhecido',
-      start: seg.start || '00:00',
-      end: seg.end || '00:00',
-      text: seg.text || '',
-    }));
-  } catch {
-    console.log('[DIARIZE] Failed to parse LLM response:', response.substring(0, 200));
-    throw new Error('Falha ao interpretar resposta da diarização. Tente novamente.');
+SUA RESPOSTA ANTERIOR TINHA PROBLEMAS:
+${result.errors.map(e => `- ${e}`).join('\n')}
+Responda novamente seguindo todas as regras.`;
+    }
+    onProgress?.({ completed: index + 1, total: windows.length });
   }
+
+  return {
+    diarized: true,
+    segments: mergeSpeakerTurns(source, speakers),
+    plainText: source.map(seg => seg.text).join(' '),
+  };
 }
@@ -0,0 +1,94 @@
+import { File as FSFile } from 'expo-file-system';
+
+// Detecção do tipo do áudio pelo conteúdo, com a extensão como último recurso.
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  '3gp': 'audio/mp4',
+  aac: 'audio/aac',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  webm: 'audio/webm',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff',
+  amr: 'audio/amr',
+};
+
+// Whisper-style APIs pick the decoder from the upload's file name
+const MIME_EXTENSIONS: Record<string, string> = {
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/flac': 'flac',
+  'audio/webm': 'webm',
+  'audio/aiff': 'aiff',
+  'audio/amr': 'amr',
+};
+
+export interface AudioUpload {
+  uri: string;
+  type: string;
+  name: string;
+}
+
+function matchesAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/** Reconhece o formato pelos primeiros bytes do arquivo (assinatura). */
+export function sniffAudioMimeType(header: Uint8Array): string | null {
+  if (header.length < 12) return null;
+  // MP4/M4A/3GP: the recorder's AAC always comes in an ISO BMFF container
+  if (matchesAscii(header, 4, 'ftyp')) return 'audio/mp4';
+  if (matchesAscii(header, 0, 'RIFF') && matchesAscii(header, 8, 'WAVE')) return 'audio/wav';
+  if (matchesAscii(header, 0, 'FORM') && (matchesAscii(header, 8, 'AIFF') || matchesAscii(header, 8, 'AIFC'))) return 'audio/aiff';
+  if (matchesAscii(header, 0, 'OggS')) return 'audio/ogg';
+  if (matchesAscii(header, 0, 'fLaC')) return 'audio/flac';
+  if (matchesAscii(header, 0, '#!AMR')) return 'audio/amr';
+  if (matchesAscii(header, 0, 'ID3')) return 'audio/mpeg';
+  if (header[0] === 0x1a && header[1] === 0x45 && header[2] === 0xdf && header[3] === 0xa3) return 'audio/webm';
+  if (header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    // Frame sync: layer bits 00 mean ADTS (AAC), anything else is MPEG audio
+    return (header[1] & 0x06) === 0 ? 'audio/aac' : 'audio/mpeg';
+  }
+  return null;
+}
+
+/** `fileName` serve para arquivos sem extensão no caminho (content:// no Android). */
+export function detectAudioMimeType(path: string, fileName: string = path): string {
+  let handle: ReturnType<FSFile['open']> | null = null;
+  try {
+    const file = new FSFile(path);
+    if (file.exists && file.size > 0) {
+      handle = file.open();
+      const sniffed = sniffAudioMimeType(handle.readBytes(Math.min(16, file.size)));
+      if (sniffed) return sniffed;
+    }
+  } catch {
+    // Unopenable or unreadable file; fall back to the extension
+  } finally {
+    handle?.close();
+  }
+
+  const extension = fileName.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_MIME_TYPES[extension] ?? 'audio/mp4';
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  return MIME_EXTENSIONS[mimeType] ?? 'm4a';
+}
+
+/** Parte `file` do multipart de transcrição, com tipo e nome de acordo com o conteúdo. */
+export function audioUploadPart(path: string): AudioUpload {
+  const type = detectAudioMimeType(path);
+  return { uri: path, type, name: `audio.${extensionForMimeType(type)}` };
+}
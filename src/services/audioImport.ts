@@ -0,0 +1,91 @@
+import { File } from 'expo-file-system';
+import { createAudioPlayer } from 'expo-audio';
+import { createRecording } from '../database/recordings';
+import { AI_PROVIDERS } from '../constants/ai';
+import { getSettings } from './settings';
+import { detectAudioMimeType, extensionForMimeType } from './audioFormat';
+import { getAudioDurationSeconds } from './mp4';
+import { getRecordingsDir } from './recordingFiles';
+import { canSplitAudio, oversizedAudioMessage } from './audioPieces';
+
+// Importação de áudios de fora do app (mensagens de voz do WhatsApp,
+// gravações de ligação, audiências) como gravações comuns.
+
+const DURATION_PROBE_TIMEOUT_MS = 10000;
+
+export interface ImportedAudio {
+  id: number;
+  mimeType: string;
+}
+
+/** Duração lida pelo player, para os formatos que não são MP4; 0 se não carregar. */
+function probeDurationSeconds(uri: string): Promise<number> {
+  return new Promise((resolve) => {
+    const player = createAudioPlayer({ uri });
+    let settled = false;
+    const finish = (seconds: number) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      subscription.remove();
+      player.release();
+      resolve(seconds);
+    };
+    const subscription = player.addListener('playbackStatusUpdate', (status) => {
+      if (status.isLoaded && status.duration > 0) finish(status.duration);
+    });
+    const timer = setTimeout(() => finish(player.duration > 0 ? player.duration : 0), DURATION_PROBE_TIMEOUT_MS);
+  });
+}
+
+function baseName(name: string): string {
+  const withoutExtension = name.replace(/\.[^./]+$/, '').trim();
+  return withoutExtension || 'áudio';
+}
+
+/**
+ * Abre o seletor de arquivos e cria uma gravação com o áudio escolhido,
+ * copiado para a pasta das gravações. Retorna null se nada foi escolhido.
+ * Áudios maiores que o limite de upload do provedor atual só entram se forem
+ * M4A, que a transcrição divide por tempo; os demais são recusados.
+ */
+export async function importAudioFile(): Promise<ImportedAudio | null> {
+  let picked: File;
+  try {
+    const result = await File.pickFileAsync(undefined, 'audio/*');
+    const first = Array.isArray(result) ? result[0] : result;
+    picked = new File(first.uri);
+  } catch (error: any) {
+    if (/cancel/i.test(error?.message ?? '')) return null;
+    throw error;
+  }
+  if (!picked?.exists) return null;
+
+  // The picked content:// URI may not allow reads beyond the copy, so the
+  // type is sniffed from the copy and its extension fixed afterwards
+  const stamp = Date.now();
+  const pickedExtension = /\.([^./]+)$/.exec(picked.name)?.[1]?.toLowerCase() ?? 'm4a';
+  let destFile = new File(getRecordingsDir(), `importado_${stamp}.${pickedExtension}`);
+  picked.copy(destFile);
+  const mimeType = detectAudioMimeType(destFile.uri, picked.name);
+  const extension = extensionForMimeType(mimeType);
+  if (extension !== pickedExtension) {
+    const renamed = new File(getRecordingsDir(), `importado_${stamp}.${extension}`);
+    destFile.move(renamed);
+    destFile = renamed;
+  }
+
+  const { provider } = await getSettings();
+  if (destFile.size > AI_PROVIDERS[provider].maxUploadBytes && !(await canSplitAudio(destFile.uri))) {
+    const size = destFile.size;
+    destFile.delete();
+    throw new Error(oversizedAudioMessage(provider, size));
+  }
+
+  const seconds = mimeType === 'audio/mp4'
+    ? (await getAudioDurationSeconds(destFile.uri)) ?? (await probeDurationSeconds(destFile.uri))
+    : await probeDurationSeconds(destFile.uri);
+
+  const id = await createRecording(`Áudio importado — ${baseName(picked.name)}`, destFile.uri, Math.round(seconds));
+  return { id, mimeType };
+}
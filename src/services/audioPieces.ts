@@ -0,0 +1,155 @@
+import { Directory, File as FSFile, Paths } from 'expo-file-system';
+import { AIProvider, AI_PROVIDERS } from '../constants/ai';
+import { Recording, getAudioParts, getPartOverlaps } from '../database/recordings';
+import { detectAudioMimeType } from './audioFormat';
+import { concatAudioFiles, getAudioDurationSeconds } from './mp4';
+import { existingParts } from './recordingFiles';
+
+// Pedaços de áudio enviados à transcrição: o arquivo completo quando cabe no
+// limite de upload do provedor; senão as partes gravadas, juntadas em sequência
+// até perto do limite, ou o próprio arquivo cortado por tempo. Os pedaços
+// montados aqui ficam no cache e são apagados por releaseAudioPieces.
+
+// Room under the limit for the multipart body and uneven bitrates
+const UPLOAD_FILL_RATIO = 0.9;
+// Each cut of a long file is repeated at the start of the next piece, so a word on it is not lost
+const SPLIT_OVERLAP_S = 1;
+
+export interface AudioPiece {
+  uri: string;
+  offset: number;     // where the piece's 0 s falls in the recording, in seconds
+  lead: number;       // seconds at the start that repeat the end of the previous piece
+  temporary: boolean; // built for the upload; deleted by releaseAudioPieces
+}
+
+function getPiecesDir(): Directory {
+  const dir = new Directory(Paths.cache, 'upload_pieces');
+  if (!dir.exists) dir.create();
+  return dir;
+}
+
+function fileSize(path: string): number {
+  const file = new FSFile(path);
+  return file.exists ? file.size : 0;
+}
+
+/** Motivo para recusar um áudio grande demais que não pode ser dividido. */
+export function oversizedAudioMessage(provider: AIProvider, size: number): string {
+  const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(0);
+  const { maxUploadBytes, name } = AI_PROVIDERS[provider];
+  return `O áudio tem ${megabytes(size)} MB e passa do limite de ${megabytes(maxUploadBytes)} MB de ${name}. `
+    + 'Só áudios M4A podem ser divididos automaticamente; converta o arquivo ou escolha outro provedor em Configurações.';
+}
+
+/** Se o arquivo pode ser cortado por tempo para caber no limite de upload (só MP4/M4A). */
+export async function canSplitAudio(path: string): Promise<boolean> {
+  return detectAudioMimeType(path) === 'audio/mp4' && (await getAudioDurationSeconds(path)) !== null;
+}
+
+export function releaseAudioPieces(pieces: AudioPiece[]): void {
+  for (const piece of pieces) {
+    if (!piece.temporary) continue;
+    try {
+      new FSFile(piece.uri).delete();
+    } catch {}
+  }
+}
+
+/**
+ * Junta partes consecutivas enquanto couberem em `budget` bytes. Dentro de um
+ * grupo, o início repetido de cada parte sai na emenda; o do primeiro vira o
+ * `lead` do pedaço. Se a junção falhar, as partes do grupo vão uma a uma.
+ */
+async function groupParts(
+  paths: string[],
+  overlaps: number[],
+  fallbackDuration: number,
+  budget: number
+): Promise<AudioPiece[]> {
+  const pieces: AudioPiece[] = [];
+  let end = 0; // end of the previous piece in the recording
+  let group: number[] = [];
+  let groupBytes = 0;
+
+  const durations: number[] = [];
+  for (const path of paths) durations.push((await getAudioDurationSeconds(path)) ?? fallbackDuration);
+
+  const pushPiece = (uri: string, lead: number, duration: number, temporary: boolean) => {
+    const offset = Math.max(0, end - lead);
+    pieces.push({ uri, offset, lead, temporary });
+    end = offset + duration;
+  };
+
+  const flush = async () => {
+    if (group.length === 0) return;
+    const [first, ...rest] = group;
+    const dest = new FSFile(getPiecesDir(), `piece_${Date.now()}_${first}.m4a`);
+    const slices = [{ path: paths[first] }, ...rest.map(i => ({ path: paths[i], start: overlaps[i] || undefined }))];
+    if (rest.length > 0 && (await concatAudioFiles(slices, dest.uri))) {
+      const duration = durations[first] + rest.reduce((sum, i) => sum + durations[i] - overlaps[i], 0);
+      pushPiece(dest.uri, overlaps[first], duration, true);
+    } else {
+      for (const i of group) pushPiece(paths[i], overlaps[i], durations[i], false);
+    }
+    group = [];
+    groupBytes = 0;
+  };
+
+  for (const [i, path] of paths.entries()) {
+    const size = fileSize(path);
+    if (group.length > 0 && groupBytes + size > budget) await flush();
+    group.push(i);
+    groupBytes += size;
+  }
+  await flush();
+  return pieces;
+}
+
+/** Corta um arquivo MP4 em pedaços de mesma duração, cada um repetindo o fim do anterior. */
+async function splitByTime(path: string, size: number, budget: number): Promise<AudioPiece[]> {
+  const duration = (await getAudioDurationSeconds(path)) ?? 0;
+  const count = Math.ceil(size / budget);
+  const length = duration / count;
+  const stamp = Date.now();
+  const pieces: AudioPiece[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = i === 0 ? 0 : i * length - SPLIT_OVERLAP_S;
+    const end = i === count - 1 ? undefined : (i + 1) * length;
+    const dest = new FSFile(getPiecesDir(), `piece_${stamp}_${i}.m4a`);
+    if (!(await concatAudioFiles([{ path, start, end }], dest.uri))) {
+      releaseAudioPieces(pieces);
+      throw new Error('Não foi possível dividir o áudio para o envio.');
+    }
+    pieces.push({ uri: dest.uri, offset: start, lead: i === 0 ? 0 : SPLIT_OVERLAP_S, temporary: true });
+  }
+  return pieces;
+}
+
+/**
+ * Decide o que enviar ao provedor: o arquivo completo quando cabe no limite de
+ * upload; senão as partes gravadas em paralelo (audio_parts) agrupadas até o
+ * limite ou, sem partes, o arquivo cortado por tempo. Cada pedaço leva o seu
+ * deslocamento para costurar os timestamps depois.
+ */
+export async function planAudioPieces(provider: AIProvider, recording: Recording): Promise<AudioPiece[]> {
+  const maxBytes = AI_PROVIDERS[provider].maxUploadBytes;
+  const budget = maxBytes * UPLOAD_FILL_RATIO;
+  const parts = recording.audio_parts
+    ? existingParts(getAudioParts(recording), getPartOverlaps(recording))
+    : { paths: [], overlaps: [] };
+  const fullSize = fileSize(recording.file_path);
+  // When the full recorder failed, file_path is just the first part
+  const fullIsPart = parts.paths.includes(recording.file_path);
+  const whole: AudioPiece[] = [{ uri: recording.file_path, offset: 0, lead: 0, temporary: false }];
+
+  if (fullSize > 0 && fullSize <= maxBytes && !fullIsPart) return whole;
+  if (parts.paths.length > 0) {
+    return groupParts(parts.paths, parts.overlaps, recording.duration / parts.paths.length, budget);
+  }
+  if (fullSize <= maxBytes) return whole;
+
+  if (!(await canSplitAudio(recording.file_path))) {
+    throw new Error(oversizedAudioMessage(provider, fullSize));
+  }
+  return splitByTime(recording.file_path, fullSize, budget);
+}
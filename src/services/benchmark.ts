@@ -0,0 +1,129 @@
+import { AIProvider, AI_PROVIDERS, PROVIDER_IDS } from '../constants/ai';
+import { Recording } from '../database/recordings';
+import {
+  BenchmarkRun,
+  BenchmarkScore,
+  NewBenchmarkRun,
+  getBenchmarkRuns,
+  saveBenchmarkRun,
+  updateBenchmarkScore,
+} from '../database/benchmarks';
+import { recordUsage } from '../database/usage';
+import { transcribeRecording } from './ai';
+import { getSettingsForProvider, isProviderConfigured } from './settings';
+import { WerResult, wordErrorRate } from './wer';
+
+// Comparação de provedores e modelos de transcrição sobre uma gravação já
+// salva: cada combinação transcreve o áudio inteiro e guarda tempo, custo e
+// texto. A WER é calculada uma vez, quando a rodada termina, e refeita só
+// quando a referência corrigida muda.
+
+export interface BenchmarkCandidate {
+  provider: AIProvider;
+  model: string;
+  label: string; // e.g. "Groq · Whisper Large V3 Turbo"
+}
+
+export function candidateKey(candidate: Pick<BenchmarkCandidate, 'provider' | 'model'>): string {
+  return `${candidate.provider}:${candidate.model}`;
+}
+
+/** Modelos de transcrição de todos os provedores já configurados. */
+export async function getBenchmarkCandidates(): Promise<BenchmarkCandidate[]> {
+  const candidates: BenchmarkCandidate[] = [];
+  for (const provider of PROVIDER_IDS) {
+    const settings = await getSettingsForProvider(provider);
+    if (!isProviderConfigured(settings)) continue;
+    const config = AI_PROVIDERS[provider];
+    // The custom server has no model list; its saved model is the only one to try
+    const models = config.customEndpoint
+      ? settings.transcriptionModel.trim() ? [{ id: settings.transcriptionModel.trim(), name: settings.transcriptionModel.trim() }] : []
+      : config.transcriptionModels;
+    for (const model of models) {
+      candidates.push({ provider, model: model.id, label: `${config.shortName} · ${model.name}` });
+    }
+  }
+  return candidates;
+}
+
+const NO_SCORE: BenchmarkScore = { wer: null, substitutions: null, deletions: null, insertions: null, reference_words: null };
+
+function scoreOutput(reference: string, output: string | null): BenchmarkScore {
+  if (output === null || !reference.trim()) return NO_SCORE;
+  const result = wordErrorRate(reference, output);
+  return {
+    wer: result.wer,
+    substitutions: result.substitutions,
+    deletions: result.deletions,
+    insertions: result.insertions,
+    reference_words: result.referenceWords,
+  };
+}
+
+/** WER guardada da rodada; null quando ela falhou ou não havia referência. */
+export function runScore(run: BenchmarkRun): WerResult | null {
+  if (run.wer === null) return null;
+  return {
+    wer: run.wer,
+    substitutions: run.substitutions ?? 0,
+    deletions: run.deletions ?? 0,
+    insertions: run.insertions ?? 0,
+    referenceWords: run.reference_words ?? 0,
+  };
+}
+
+/** Recalcula a WER de todas as rodadas da gravação contra uma nova referência. */
+export async function rescoreBenchmarkRuns(recordingId: number, reference: string): Promise<void> {
+  for (const run of await getBenchmarkRuns(recordingId)) {
+    await updateBenchmarkScore(run.id, scoreOutput(reference, run.output));
+  }
+}
+
+/**
+ * Transcreve a gravação com a combinação dada e salva a rodada, inclusive
+ * quando ela falha — o erro também conta na comparação. A rodada já sai
+ * pontuada contra `reference`.
+ */
+export async function runBenchmark(
+  candidate: BenchmarkCandidate,
+  recording: Recording,
+  reference: string
+): Promise<NewBenchmarkRun> {
+  const settings = await getSettingsForProvider(candidate.provider);
+  let costUsd = 0;
+  const startedAt = Date.now();
+  let output: string | null = null;
+  let error: string | null = null;
+
+  try {
+    output = await transcribeRecording(
+      candidate.provider,
+      settings.apiKey,
+      recording,
+      candidate.model,
+      undefined,
+      (event) => {
+        costUsd += event.costUsd;
+        recordUsage(recording.id, 'benchmark', event).catch((usageError) => {
+          console.log('[BENCHMARK] Failed to record usage:', usageError);
+        });
+      }
+    );
+  } catch (failure: any) {
+    console.log(`[BENCHMARK] ${candidateKey(candidate)} failed:`, failure);
+    error = failure?.message || 'Falha na transcrição';
+  }
+
+  const run: NewBenchmarkRun = {
+    recording_id: recording.id,
+    provider: candidate.provider,
+    model: candidate.model,
+    latency_ms: Date.now() - startedAt,
+    cost_usd: costUsd,
+    output,
+    error,
+    ...scoreOutput(reference, output),
+  };
+  await saveBenchmarkRun(run);
+  return run;
+}
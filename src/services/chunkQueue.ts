@@ -0,0 +1,172 @@
+// Fila dos trechos da transcrição em tempo real: limita as chamadas
+// simultâneas e monta o texto na ordem da gravação, não na ordem em que as
+// respostas chegam. As novas tentativas automáticas ficam só no withRetry do
+// registro de provedores; aqui um trecho que falha espera o retryFailed.
+//
+// O contexto (prompt) de cada trecho é o texto montado antes dele. Com duas
+// chamadas simultâneas o trecho anterior ainda pode estar em andamento, então
+// cada trecho espera o anterior terminar, até PROMPT_WAIT_MS; passado esse
+// tempo segue com o contexto que houver, para uma chamada lenta não travar a fila.
+
+const DEFAULT_CONCURRENCY = 2;
+const PROMPT_WAIT_MS = 10000;
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface QueuedChunk {
+  seq: number;
+  uri: string;
+  status: ChunkStatus;
+  text: string;
+}
+
+export interface ChunkQueueState {
+  text: string;    // transcribed chunks joined in recording order
+  pending: number; // waiting or running
+  failed: number;  // failed after the provider's own retries
+}
+
+export interface ChunkQueueOptions {
+  // precedingText: what is already transcribed before this chunk, in order
+  transcribe: (chunk: QueuedChunk, precedingText: string) => Promise<string>;
+  onChange: (state: ChunkQueueState) => void;
+  // Joins consecutive chunks; the default just adds a space
+  joinText?: (previous: string, next: string) => string;
+  concurrency?: number;
+}
+
+export interface ChunkQueue {
+  enqueue: (uri: string) => void;
+  retryFailed: () => void;
+  /** Resolve quando não há mais trechos pendentes (os que falharam ficam de fora). */
+  drain: () => Promise<ChunkQueueState>;
+  getState: () => ChunkQueueState;
+  getChunks: () => QueuedChunk[];
+  clear: () => void;
+}
+
+export function createChunkQueue(options: ChunkQueueOptions): ChunkQueue {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  let chunks: QueuedChunk[] = [];
+  let nextSeq = 0;
+  let generation = 0; // bumped by clear() so stale responses are ignored
+  let drainWaiters: (() => void)[] = [];
+  let settleWaiters = new Map<number, (() => void)[]>(); // by seq
+
+  // Only chunks that follow each other directly go through joinText; across a
+  // missing chunk there is nothing to de-duplicate
+  function assemble(until: number): string {
+    let text = '';
+    let previousDone = false;
+    for (const chunk of chunks) {
+      if (chunk.seq >= until) break;
+      const done = chunk.status === 'done' && !!chunk.text;
+      if (done) {
+        text = previousDone && options.joinText
+          ? options.joinText(text, chunk.text)
+          : text ? `${text} ${chunk.text}` : chunk.text;
+      }
+      previousDone = done;
+    }
+    return text;
+  }
+
+  function getState(): ChunkQueueState {
+    return {
+      text: assemble(nextSeq),
+      pending: chunks.filter(c => c.status === 'pending' || c.status === 'running').length,
+      failed: chunks.filter(c => c.status === 'failed').length,
+    };
+  }
+
+  function settle(chunk: QueuedChunk) {
+    const waiters = settleWaiters.get(chunk.seq) ?? [];
+    settleWaiters.delete(chunk.seq);
+    waiters.forEach(resolve => resolve());
+  }
+
+  // Resolves when the chunk is done or failed, or after PROMPT_WAIT_MS
+  function waitForSettled(seq: number): Promise<void> {
+    const chunk = chunks[seq];
+    if (!chunk || chunk.status === 'done' || chunk.status === 'failed') return Promise.resolve();
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, PROMPT_WAIT_MS);
+      const waiters = settleWaiters.get(seq) ?? [];
+      waiters.push(() => { clearTimeout(timer); resolve(); });
+      settleWaiters.set(seq, waiters);
+    });
+  }
+
+  function notify() {
+    const state = getState();
+    options.onChange(state);
+    if (state.pending === 0) {
+      const waiters = drainWaiters;
+      drainWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  async function run(chunk: QueuedChunk) {
+    const runGeneration = generation;
+    chunk.status = 'running';
+    try {
+      await waitForSettled(chunk.seq - 1);
+      if (runGeneration !== generation) return;
+      const text = await options.transcribe(chunk, assemble(chunk.seq));
+      if (runGeneration !== generation) return;
+      chunk.text = text.trim();
+      chunk.status = 'done';
+    } catch (error) {
+      if (runGeneration !== generation) return;
+      console.log(`[RECORDER] Chunk ${chunk.seq + 1} failed:`, error);
+      chunk.status = 'failed';
+    }
+    settle(chunk);
+    notify();
+    pump();
+  }
+
+  function pump() {
+    let running = chunks.filter(c => c.status === 'running').length;
+    for (const chunk of chunks) {
+      if (running >= concurrency) break;
+      if (chunk.status !== 'pending') continue;
+      running++;
+      run(chunk);
+    }
+  }
+
+  return {
+    enqueue(uri) {
+      chunks.push({ seq: nextSeq++, uri, status: 'pending', text: '' });
+      notify();
+      pump();
+    },
+    retryFailed() {
+      for (const chunk of chunks) {
+        if (chunk.status !== 'failed') continue;
+        chunk.status = 'pending';
+      }
+      notify();
+      pump();
+    },
+    drain() {
+      if (getState().pending === 0) return Promise.resolve(getState());
+      return new Promise((resolve) => {
+        drainWaiters.push(() => resolve(getState()));
+      });
+    },
+    getState,
+    getChunks: () => chunks,
+    clear() {
+      generation++;
+      // Chunks waiting on a previous one give up along with it
+      settleWaiters.forEach(waiters => waiters.forEach(resolve => resolve()));
+      settleWaiters = new Map();
+      chunks = [];
+      nextSeq = 0;
+      notify();
+    },
+  };
+}
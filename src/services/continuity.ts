@@ -0,0 +1,53 @@
+// Emendas entre os trechos da transcrição em tempo real: o fim do texto
+// anterior vira contexto do próximo pedido, e as palavras repetidas na
+// junção (corte no meio da palavra ou trechos gravados com sobreposição)
+// são removidas ao juntar.
+
+const PROMPT_TAIL_CHARS = 200;
+const MAX_OVERLAP_WORDS = 12;
+
+function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/** Últimas palavras inteiras do texto, para o `prompt` do próximo trecho. */
+export function transcriptTail(text: string, maxChars = PROMPT_TAIL_CHARS): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+  const tail = trimmed.slice(-maxChars);
+  const firstSpace = tail.indexOf(' ');
+  return firstSpace >= 0 ? tail.slice(firstSpace + 1) : tail;
+}
+
+/**
+ * Junta o texto de um trecho ao anterior descartando o início que repete o
+ * final do anterior. Uma única palavra só conta como repetição se for longa,
+ * para não engolir repetições naturais ("é é", "que que").
+ */
+export function joinTranscripts(previous: string, next: string): string {
+  const nextText = next.trim();
+  if (!previous.trim()) return nextText;
+  if (!nextText) return previous;
+
+  const previousWords = previous.trim().split(/\s+/).map(normalizeWord);
+  const nextWords = nextText.split(/\s+/);
+  const nextNormalized = nextWords.map(normalizeWord);
+  const limit = Math.min(MAX_OVERLAP_WORDS, previousWords.length, nextWords.length);
+
+  let overlap = 0;
+  for (let size = limit; size >= 1; size--) {
+    const tail = previousWords.slice(-size);
+    if (tail.every((word, i) => word && word === nextNormalized[i])) {
+      overlap = size;
+      break;
+    }
+  }
+  if (overlap === 1 && nextNormalized[0].length <= 3) overlap = 0;
+
+  const remainder = nextWords.slice(overlap).join(' ');
+  return remainder ? `${previous} ${remainder}` : previous;
+}
@@ -0,0 +1,74 @@
+import { AIProviderService, CompletionOptions, CompletionResult, TimestampedTranscription, TranscriptionOptions, TranscriptionResult } from '../constants/ai';
+import { getSettingsForProvider } from './settings';
+import { OpenAICompatibleEndpoint, requestTranscription, parseTranscription, parseVerboseTranscription, completeWithEndpoint, streamWithEndpoint } from './openai';
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Lê as URLs do servidor próprio salvas nas configurações. A URL do dossiê
+ * é opcional: em branco, usa o mesmo servidor da transcrição.
+ */
+async function getCustomEndpoint(apiKey: string, purpose: 'transcription' | 'chat'): Promise<OpenAICompatibleEndpoint> {
+  const settings = await getSettingsForProvider('custom');
+  const url = purpose === 'chat' && settings.chatBaseUrl.trim() ? settings.chatBaseUrl : settings.baseUrl;
+  if (!url.trim()) {
+    throw new Error('Configure a URL do servidor personalizado em Configurações.');
+  }
+  return { label: 'Servidor próprio', baseUrl: normalizeBaseUrl(url), apiKey };
+}
+
+export async function transcribeWithCustom(
+  apiKey: string,
+  audioFilePath: string,
+  model: string,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult> {
+  const endpoint = await getCustomEndpoint(apiKey, 'transcription');
+  const response = await requestTranscription(endpoint, audioFilePath, model, false, options.prompt);
+  return parseTranscription(await response.json());
+}
+
+export async function transcribeWithCustomTimestamped(
+  apiKey: string,
+  audioFilePath: string,
+  model: string
+): Promise<TimestampedTranscription> {
+  const endpoint = await getCustomEndpoint(apiKey, 'transcription');
+  // whisper.cpp and faster-whisper servers both implement verbose_json
+  const response = await requestTranscription(endpoint, audioFilePath, model, true);
+  const result = parseVerboseTranscription(await response.json());
+  if (result.segments.length === 0 && result.plainText) {
+    return { ...result, segments: [{ start: 0, end: 0, text: result.plainText.trim() }], plainText: result.plainText.trim() };
+  }
+  return result;
+}
+
+export async function completeWithCustom(
+  apiKey: string,
+  prompt: string,
+  model: string,
+  options?: CompletionOptions
+): Promise<CompletionResult> {
+  const endpoint = await getCustomEndpoint(apiKey, 'chat');
+  return completeWithEndpoint(endpoint, prompt, model, options);
+}
+
+export async function streamWithCustom(
+  apiKey: string,
+  prompt: string,
+  model: string,
+  onPartial: (text: string) => void,
+  options?: CompletionOptions
+): Promise<CompletionResult> {
+  const endpoint = await getCustomEndpoint(apiKey, 'chat');
+  return streamWithEndpoint(endpoint, prompt, model, onPartial, options);
+}
+
+export const customProvider: AIProviderService = {
+  transcribe: transcribeWithCustom,
+  transcribeTimestamped: transcribeWithCustomTimestamped,
+  complete: completeWithCustom,
+  completeStream: streamWithCustom,
+};
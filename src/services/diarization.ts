@@ -0,0 +1,235 @@
+import { DiarizedSegment, TimestampedSegment, DIARIZATION_PROMPT, formatTimestamp } from '../constants/ai';
+
+// Diarização em janelas: cada janela cabe com folga no contexto do modelo, e a
+// lista de falantes (roster) passa de uma janela para a seguinte.
+
+const WINDOW_MAX_CHARS = 6000;
+const CONTEXT_SEGMENTS = 4;
+// Segments at the end of a window that are classified again by the next one
+const WINDOW_OVERLAP_SEGMENTS = 4;
+const MAX_SENTENCE_SEGMENT_CHARS = 300;
+// Below this share of the window's text left unassigned, the gaps are filled from neighbours
+const MIN_TEXT_COVERAGE = 0.9;
+
+export interface SpeakerProfile {
+  name: string;
+  description: string;
+}
+
+export interface DiarizationWindow {
+  start: number; // index of the first source segment
+  end: number;   // exclusive
+}
+
+export interface WindowResult {
+  speakers: string[] | null; // one label per source segment of the window
+  roster: SpeakerProfile[];
+  errors: string[];
+}
+
+/**
+ * Quebra segmentos longos em frases para que cada uma possa ter seu falante.
+ * Transcrições sem timestamps chegam como um único segmento; nelas as frases
+ * ficam sem tempo, e nas demais o tempo é repartido pelo tamanho do texto.
+ */
+export function splitLongSegments(segments: TimestampedSegment[]): TimestampedSegment[] {
+  const result: TimestampedSegment[] = [];
+  for (const seg of segments) {
+    const text = seg.text.trim();
+    if (!text) continue;
+    if (text.length <= MAX_SENTENCE_SEGMENT_CHARS) {
+      result.push({ ...seg, text });
+      continue;
+    }
+
+    const sentences = text.match(/[^.!?…]+[.!?…]*\s*/g) ?? [text];
+    const span = seg.end - seg.start;
+    let offset = 0;
+    for (const sentence of sentences) {
+      const trimmed = sentence.trim();
+      const start = span > 0 ? seg.start + (span * offset) / text.length : seg.start;
+      offset += sentence.length;
+      const end = span > 0 ? seg.start + (span * offset) / text.length : seg.end;
+      if (trimmed) result.push({ start, end, text: trimmed });
+    }
+  }
+  return result;
+}
+
+export function buildDiarizationWindows(segments: TimestampedSegment[]): DiarizationWindow[] {
+  const windows: DiarizationWindow[] = [];
+  let start = 0;
+  let chars = 0;
+  segments.forEach((seg, i) => {
+    if (i > start && chars + seg.text.length > WINDOW_MAX_CHARS) {
+      windows.push({ start, end: i });
+      start = i;
+      chars = 0;
+    }
+    chars += seg.text.length;
+  });
+  if (start < segments.length) windows.push({ start, end: segments.length });
+
+  // Each window re-reads the tail of the previous one, so a turn cut at the
+  // boundary is seen whole at least once; mergeWindowSpeakers reconciles it
+  return windows.map((window, i) => i === 0 ? window : {
+    start: Math.max(windows[i - 1].start + 1, window.start - WINDOW_OVERLAP_SEGMENTS),
+    end: window.end,
+  });
+}
+
+/**
+ * Junta os falantes de uma janela aos já atribuídos. As falas repetidas da
+ * sobreposição ficam com uma só atribuição: a primeira metade mantém a da
+ * janela anterior, que viu o que vinha antes delas, e a segunda metade fica
+ * com a da janela nova, que vê o que vem depois.
+ */
+export function mergeWindowSpeakers(
+  speakers: string[],
+  window: DiarizationWindow,
+  windowSpeakers: string[]
+): string[] {
+  const overlap = Math.max(0, speakers.length - window.start);
+  const keep = window.start + Math.ceil(overlap / 2);
+  return [...speakers.slice(0, keep), ...windowSpeakers.slice(keep - window.start)];
+}
+
+// Ids shown to the model are 1-based positions in the whole transcription
+function formatSegmentLine(seg: TimestampedSegment, index: number): string {
+  return `[${index + 1}] [${formatTimestamp(seg.start)} - ${formatTimestamp(seg.end)}] "${seg.text}"`;
+}
+
+export function buildDiarizationPrompt(
+  segments: TimestampedSegment[],
+  window: DiarizationWindow,
+  roster: SpeakerProfile[],
+  previousSpeakers: string[]
+): string {
+  let prompt = DIARIZATION_PROMPT;
+
+  if (roster.length > 0) {
+    prompt += `\nFALANTES JÁ IDENTIFICADOS NOS TRECHOS ANTERIORES (use exatamente estes nomes para as mesmas pessoas):
+${roster.map(s => `- ${s.name}${s.description ? `: ${s.description}` : ''}`).join('\n')}\n`;
+  }
+
+  const contextStart = Math.max(0, window.start - CONTEXT_SEGMENTS);
+  if (window.start > contextStart) {
+    const lines = segments.slice(contextStart, window.start)
+      .map((seg, i) => `${previousSpeakers[contextStart + i]}: "${seg.text}"`);
+    prompt += `\nFINAL DO TRECHO ANTERIOR (apenas contexto, já classificado — não inclua na resposta):
+${lines.join('\n')}\n`;
+  }
+
+  const lines = segments.slice(window.start, window.end).map((seg, i) => formatSegmentLine(seg, window.start + i));
+  return `${prompt}\nFALAS A CLASSIFICAR:\n${lines.join('\n')}`;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Valida a resposta de uma janela: ids dentro da janela, grupos em ordem
+ * cronológica, sem falas repetidas e cobrindo o texto de origem. Lacunas
+ * pequenas herdam o falante da fala vizinha; as grandes pedem nova tentativa.
+ */
+export function parseDiarizationWindow(
+  raw: string,
+  segments: TimestampedSegment[],
+  window: DiarizationWindow,
+  roster: SpeakerProfile[]
+): WindowResult {
+  const fail = (errors: string[]): WindowResult => ({ speakers: null, roster, errors });
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim());
+  } catch (error: any) {
+    return fail([`JSON inválido: ${error.message}`]);
+  }
+  const groups: any[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.segments) ? parsed.segments : [];
+  if (groups.length === 0) return fail(['A resposta deve ter a lista "segments" com os grupos de falas.']);
+
+  const nextRoster = [...roster];
+  const canonicalName = (name: string, description = ''): string => {
+    const known = nextRoster.find(s => sameName(s.name, name));
+    if (known) return known.name;
+    nextRoster.push({ name: name.trim(), description });
+    return name.trim();
+  };
+  for (const speaker of Array.isArray(parsed?.speakers) ? parsed.speakers : []) {
+    if (typeof speaker?.name === 'string' && speaker.name.trim()) {
+      canonicalName(speaker.name, typeof speaker.description === 'string' ? speaker.description.trim() : '');
+    }
+  }
+
+  const errors: string[] = [];
+  const assigned: (string | null)[] = new Array(window.end - window.start).fill(null);
+  let lastId = 0;
+  for (const group of groups) {
+    const speaker = typeof group?.speaker === 'string' ? group.speaker.trim() : '';
+    const ids: number[] = Array.isArray(group?.ids) ? group.ids.map(Number) : [];
+    if (!speaker || ids.length === 0) {
+      errors.push('Todo grupo precisa de "speaker" e de uma lista "ids" não vazia.');
+      continue;
+    }
+    const name = canonicalName(speaker);
+    for (const id of ids) {
+      const offset = id - 1 - window.start;
+      if (!Number.isInteger(id) || offset < 0 || offset >= assigned.length) {
+        errors.push(`A fala ${id} não pertence a este trecho (use ids de ${window.start + 1} a ${window.end}).`);
+      } else if (assigned[offset] !== null) {
+        errors.push(`A fala ${id} aparece em mais de um grupo.`);
+      } else if (id <= lastId) {
+        errors.push(`Os grupos devem seguir a ordem do tempo (a fala ${id} veio depois da ${lastId}).`);
+      } else {
+        assigned[offset] = name;
+        lastId = id;
+      }
+    }
+  }
+  if (errors.length > 0) return fail([...new Set(errors)]);
+
+  const windowSegments = segments.slice(window.start, window.end);
+  const totalChars = windowSegments.reduce((sum, seg) => sum + seg.text.length, 0);
+  const coveredChars = windowSegments.reduce((sum, seg, i) => sum + (assigned[i] ? seg.text.length : 0), 0);
+  if (totalChars > 0 && coveredChars / totalChars < MIN_TEXT_COVERAGE) {
+    const missing = assigned.map((s, i) => (s ? null : window.start + i + 1)).filter(id => id !== null);
+    return fail([`Faltam falas na resposta: ${missing.slice(0, 30).join(', ')}. Toda fala numerada deve estar em um grupo.`]);
+  }
+
+  // Fill the few unassigned segments from the nearest labelled neighbour
+  const firstLabel = assigned.find(s => s !== null) ?? nextRoster[0]?.name ?? 'Interlocutor 1';
+  let previous = firstLabel;
+  const speakers = assigned.map(s => (previous = s ?? previous));
+  return { speakers, roster: nextRoster, errors: [] };
+}
+
+/** Junta falas consecutivas do mesmo falante no formato exibido no chat. */
+export function mergeSpeakerTurns(segments: TimestampedSegment[], speakers: string[]): DiarizedSegment[] {
+  const merged: DiarizedSegment[] = [];
+  let current: { speaker: string; start: number; end: number; texts: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    merged.push({
+      speaker: current.speaker,
+      start: formatTimestamp(current.start),
+      end: formatTimestamp(current.end),
+      text: current.texts.join(' '),
+    });
+  };
+
+  segments.forEach((seg, i) => {
+    const speaker = speakers[i];
+    if (current && current.speaker === speaker) {
+      current.end = Math.max(current.end, seg.end);
+      current.texts.push(seg.text);
+      return;
+    }
+    flush();
+    current = { speaker, start: seg.start, end: seg.end, texts: [seg.text] };
+  });
+  flush();
+  return merged;
+}
@@ -0,0 +1,239 @@
+import { StructuredDossier, DOSSIER_PROMPT, RecordingMarker, TimestampedSegment, formatTimestamp } from '../constants/ai';
+import { DossierTemplate, getTemplateSections } from '../database/templates';
+
+export interface DossierValidation {
+  dossier: StructuredDossier | null;
+  errors: string[];
+}
+
+// Speech around a marker quoted in the prompt, so the model can find the moment
+const MARKER_CONTEXT_BEFORE_S = 5;
+const MARKER_CONTEXT_AFTER_S = 15;
+const MARKER_EXCERPT_MAX_CHARS = 240;
+
+/** Marcadores da gravação e os trechos com tempo para localizar o que foi dito em cada um. */
+export interface DossierHighlights {
+  markers: RecordingMarker[];
+  segments: TimestampedSegment[] | null;
+}
+
+const SECTION_KEYS: (keyof StructuredDossier)[] = ['parties', 'facts', 'legalIssues', 'documents', 'actionItems', 'observations'];
+
+function stripCodeFence(raw: string): string {
+  return raw.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function requiredText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Converte um objeto qualquer no formato do dossiê, descartando itens sem o
+ * campo principal. Não reclama de nada — usada para exibir o JSON parcial
+ * durante o streaming e pela validação estrita abaixo.
+ */
+function coerceDossier(value: any): StructuredDossier {
+  const list = (key: keyof StructuredDossier): any[] => (Array.isArray(value?.[key]) ? value[key] : []);
+  return {
+    parties: list('parties')
+      .map((p) => ({ name: requiredText(p?.name), role: requiredText(p?.role) || 'Não informado', notes: optionalText(p?.notes) }))
+      .filter((p) => p.name),
+    facts: list('facts')
+      .map((f) => ({ date: optionalText(f?.date), description: requiredText(f?.description) }))
+      .filter((f) => f.description),
+    legalIssues: list('legalIssues')
+      .map((i) => ({ issue: requiredText(i?.issue), details: optionalText(i?.details) }))
+      .filter((i) => i.issue),
+    documents: list('documents')
+      .map((d) => ({ name: requiredText(d?.name), status: optionalText(d?.status) }))
+      .filter((d) => d.name),
+    actionItems: list('actionItems')
+      .map((a) => ({ task: requiredText(a?.task), deadline: optionalText(a?.deadline), responsible: optionalText(a?.responsible) }))
+      .filter((a) => a.task),
+    observations: list('observations').map(requiredText).filter(Boolean),
+    extraSections: (Array.isArray(value?.extraSections) ? value.extraSections : [])
+      .map((section: any) => ({
+        title: requiredText(section?.title),
+        items: (Array.isArray(section?.items) ? section.items : []).map(requiredText).filter(Boolean),
+      }))
+      .filter((section: { title: string }) => section.title),
+  };
+}
+
+function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function markerExcerpt(time: number, segments: TimestampedSegment[] | null): string {
+  if (!segments) return '';
+  const text = segments
+    .filter(seg => seg.end >= time - MARKER_CONTEXT_BEFORE_S && seg.start <= time + MARKER_CONTEXT_AFTER_S)
+    .map(seg => seg.text.trim())
+    .join(' ');
+  return text.length > MARKER_EXCERPT_MAX_CHARS ? `${text.slice(0, MARKER_EXCERPT_MAX_CHARS).trimEnd()}…` : text;
+}
+
+function buildMarkersBlock(highlights: DossierHighlights | undefined): string {
+  if (!highlights || highlights.markers.length === 0) return '';
+  const lines = [...highlights.markers]
+    .sort((a, b) => a.time - b.time)
+    .map((marker) => {
+      const excerpt = markerExcerpt(marker.time, highlights.segments);
+      let line = `- [${formatTimestamp(marker.time)}] ${marker.note ?? '(marcado sem anotação)'}`;
+      if (excerpt) line += `\n  Fala nesse momento: "${excerpt}"`;
+      return line;
+    });
+  return `\nPONTOS MARCADOS PELO ADVOGADO DURANTE O ATENDIMENTO (dê ênfase a eles no dossiê; as anotações são do advogado, não do cliente):
+${lines.join('\n')}\n`;
+}
+
+/**
+ * Prompt do dossiê com as orientações e seções extras do modelo da área e os
+ * pontos que o advogado marcou durante a gravação.
+ */
+export function buildDossierPrompt(
+  template: DossierTemplate | null,
+  transcription: string,
+  highlights?: DossierHighlights
+): string {
+  let areaBlock = '';
+  if (template) {
+    const sections = getTemplateSections(template);
+    areaBlock = `\nÁREA DO ATENDIMENTO: ${template.name}\n${template.instructions.trim()}\n`;
+    if (sections.length > 0) {
+      areaBlock += `\nInclua também a chave "extraSections": uma lista com exatamente estas seções, nesta ordem, cada uma no formato {"title": "...", "items": ["frase curta", ...]}:
+${sections.map(title => `- ${title}`).join('\n')}\n`;
+    }
+  }
+  return `${DOSSIER_PROMPT}${areaBlock}${buildMarkersBlock(highlights)}\nTRANSCRIÇÃO DO ATENDIMENTO:\n${transcription}`;
+}
+
+/**
+ * Valida a resposta do modelo; `errors` vai de volta no pedido de correção.
+ * `requiredSections` são as seções extras que o modelo da área exige.
+ */
+export function parseStructuredDossier(raw: string, requiredSections: string[] = []): DossierValidation {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripCodeFence(raw));
+  } catch (error: any) {
+    return { dossier: null, errors: [`JSON inválido: ${error.message}`] };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { dossier: null, errors: ['A resposta deve ser um objeto JSON, não uma lista ou texto.'] };
+  }
+
+  const errors: string[] = [];
+  for (const key of SECTION_KEYS) {
+    if (!Array.isArray(parsed[key])) errors.push(`A chave "${key}" deve existir e ser uma lista.`);
+  }
+
+  const dossier = coerceDossier(parsed);
+  const dropped = SECTION_KEYS.filter((key) => Array.isArray(parsed[key]) && parsed[key].length !== dossier[key].length);
+  for (const key of dropped) {
+    errors.push(`Há itens em "${key}" sem o campo obrigatório ou com tipo errado.`);
+  }
+  for (const title of requiredSections) {
+    if (!dossier.extraSections.some((section) => sameTitle(section.title, title))) {
+      errors.push(`Falta a seção "${title}" em "extraSections".`);
+    }
+  }
+
+  return errors.length > 0 ? { dossier: null, errors } : { dossier, errors };
+}
+
+/** Fecha strings, listas e objetos abertos de um JSON cortado no meio. */
+function closeTruncatedJson(text: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') closers.pop();
+  }
+
+  let closed = escaped ? text.slice(0, -1) : text;
+  if (inString) closed += '"';
+  return closed + closers.reverse().join('');
+}
+
+/**
+ * Melhor esforço para ler o dossiê enquanto ele chega pelo streaming: fecha o
+ * JSON truncado e, se ainda for inválido (chave sem valor, vírgula pendente),
+ * recua até o último item completo.
+ */
+export function parsePartialStructuredDossier(raw: string): StructuredDossier | null {
+  let candidate = stripCodeFence(raw);
+  for (let attempt = 0; attempt < 20 && candidate; attempt++) {
+    try {
+      const parsed = JSON.parse(closeTruncatedJson(candidate));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? coerceDossier(parsed) : null;
+    } catch {}
+
+    const comma = candidate.lastIndexOf(',');
+    if (comma > 0) {
+      candidate = candidate.slice(0, comma);
+      continue;
+    }
+    const bracket = Math.max(candidate.lastIndexOf('{'), candidate.lastIndexOf('['));
+    if (bracket < 0) return null;
+    candidate = candidate.slice(0, bracket + 1 === candidate.length ? bracket : bracket + 1);
+  }
+  return null;
+}
+
+/** Lê a coluna dossier_json; dossiês antigos só têm o markdown. */
+export function parseStoredDossier(value: string | null): StructuredDossier | null {
+  if (!value) return null;
+  try {
+    return coerceDossier(JSON.parse(value));
+  } catch {}
+  return null;
+}
+
+export function createEmptyDossier(): StructuredDossier {
+  return coerceDossier({});
+}
+
+export function isDossierEmpty(dossier: StructuredDossier): boolean {
+  return SECTION_KEYS.every((key) => dossier[key].length === 0)
+    && dossier.extraSections.every((section) => section.items.length === 0);
+}
+
+/** Versão em markdown do dossiê estruturado, usada para copiar e exportar. */
+export function structuredDossierToMarkdown(dossier: StructuredDossier): string {
+  const section = (title: string, lines: string[]) =>
+    `### ${title}\n${lines.length > 0 ? lines.join('\n') : '- Nada consta.'}`;
+
+  return [
+    '## DOSSIÊ DO ATENDIMENTO',
+    section('1. IDENTIFICAÇÃO DAS PARTES', dossier.parties.map((p) =>
+      `- **${p.name}** (${p.role})${p.notes ? ` — ${p.notes}` : ''}`)),
+    section('2. RESUMO DOS FATOS', dossier.facts.map((f) =>
+      `- ${f.date ? `**${f.date}:** ` : ''}${f.description}`)),
+    section('3. QUESTÕES JURÍDICAS IDENTIFICADAS', dossier.legalIssues.map((i) =>
+      `- **${i.issue}**${i.details ? ` — ${i.details}` : ''}`)),
+    section('4. DOCUMENTOS MENCIONADOS', dossier.documents.map((d) =>
+      `- ${d.name}${d.status ? ` (${d.status})` : ''}`)),
+    section('5. PROVIDÊNCIAS E ENCAMINHAMENTOS', dossier.actionItems.map((a) => {
+      const details = [a.responsible, a.deadline ? `prazo: ${a.deadline}` : null].filter(Boolean).join(', ');
+      return `- ${a.task}${details ? ` (${details})` : ''}`;
+    })),
+    section('6. OBSERVAÇÕES IMPORTANTES', dossier.observations.map((o) => `- ${o}`)),
+    ...dossier.extraSections.map((extra, idx) =>
+      section(`${idx + 7}. ${extra.title.toUpperCase()}`, extra.items.map((item) => `- ${item}`))),
+  ].join('\n\n');
+}
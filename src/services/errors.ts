@@ -0,0 +1,221 @@
+export type AIErrorKind =
+  | 'invalid_key'
+  | 'rate_limit'
+  | 'quota'
+  | 'payload_too_large'
+  | 'unsupported_format'
+  | 'timeout'
+  | 'server'
+  | 'network'
+  | 'unknown';
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['rate_limit', 'timeout', 'server', 'network'];
+
+const MESSAGES: Record<AIErrorKind, { message: string; suggestion: string }> = {
+  invalid_key: {
+    message: 'A chave de API foi recusada pelo provedor.',
+    suggestion: 'Confira a chave em Configurações ou gere uma nova no painel do provedor.',
+  },
+  rate_limit: {
+    message: 'O provedor limitou o número de requisições.',
+    suggestion: 'Aguarde alguns instantes e tente novamente.',
+  },
+  quota: {
+    message: 'A cota ou o crédito da conta no provedor se esgotou.',
+    suggestion: 'Verifique o faturamento da conta ou troque de provedor em Configurações.',
+  },
+  payload_too_large: {
+    message: 'O arquivo de áudio é grande demais para o provedor.',
+    suggestion: 'Tente outro provedor ou grave atendimentos mais curtos.',
+  },
+  unsupported_format: {
+    message: 'O provedor não aceitou o formato do arquivo de áudio.',
+    suggestion: 'Tente outro modelo ou provedor em Configurações.',
+  },
+  timeout: {
+    message: 'O provedor demorou demais para responder.',
+    suggestion: 'Verifique a conexão e tente novamente.',
+  },
+  server: {
+    message: 'O provedor está com instabilidade no momento.',
+    suggestion: 'Tente novamente em alguns minutos.',
+  },
+  network: {
+    message: 'Não foi possível conectar ao provedor.',
+    suggestion: 'Verifique a conexão com a internet (ou com o servidor próprio) e tente novamente.',
+  },
+  unknown: {
+    message: 'O provedor retornou um erro inesperado.',
+    suggestion: 'Tente novamente. Se persistir, troque de modelo ou provedor em Configurações.',
+  },
+};
+
+/**
+ * Erro normalizado de qualquer provedor de IA. `message` já vem em português
+ * para exibição; o corpo bruto da resposta fica em `detail`, só para log.
+ */
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  readonly detail?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: AIErrorKind,
+    provider: string,
+    options: { status?: number; detail?: string; retryAfterMs?: number } = {}
+  ) {
+    super(`${MESSAGES[kind].message} (${provider})`);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.provider = provider;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get suggestion(): string {
+    return MESSAGES[this.kind].suggestion;
+  }
+}
+
+// Only these mean the account is out of credit; Gemini's per-minute limits
+// also say RESOURCE_EXHAUSTED and "quota" but clear up on their own
+const QUOTA_PATTERN = /insufficient_quota|billing/;
+const FORMAT_PATTERN = /invalid file format|unsupported (audio|file|media|format|mime)|file format .*not supported|could not be decoded|mime type/;
+
+function classify(status: number | undefined, body: string): AIErrorKind {
+  const text = body.toLowerCase();
+
+  if (status === 429 || text.includes('resource_exhausted')) {
+    return QUOTA_PATTERN.test(text) ? 'quota' : 'rate_limit';
+  }
+  if (QUOTA_PATTERN.test(text)) return 'quota';
+  if (status === 401 || status === 403 || text.includes('api key not valid') || text.includes('invalid_api_key') || text.includes('incorrect api key')) {
+    return 'invalid_key';
+  }
+  if (status === 413 || text.includes('too large') || text.includes('maximum content size') || text.includes('payload size')) {
+    return 'payload_too_large';
+  }
+  if (FORMAT_PATTERN.test(text)) return 'unsupported_format';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status !== undefined && status >= 500) return 'server';
+  return 'unknown';
+}
+
+interface ErrorLike {
+  message?: unknown;
+  name?: unknown;
+  status?: unknown;
+  headers?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// SDK errors carry either a fetch Headers object or a plain record
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!isObject(headers)) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+export async function httpError(response: Response, provider: string): Promise<AIError> {
+  const body = await response.text().catch(() => '');
+  return new AIError(classify(response.status, body), provider, {
+    status: response.status,
+    detail: body.substring(0, 500),
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+}
+
+/** Converte erros de SDKs (OpenAI, Groq, Gemini) e de rede para AIError. */
+export function toAIError(error: unknown, provider: string): AIError {
+  if (error instanceof AIError) return error;
+
+  const err: ErrorLike = isObject(error) ? error : {};
+  const message = String(err.message ?? error);
+  const name = String(err.name ?? '');
+
+  if (name === 'AbortError' || name.includes('Timeout')) {
+    return new AIError('timeout', provider, { detail: message });
+  }
+  if (typeof err.status === 'number') {
+    return new AIError(classify(err.status, message), provider, {
+      status: err.status,
+      detail: message.substring(0, 500),
+      retryAfterMs: parseRetryAfter(readHeader(err.headers, 'retry-after')),
+    });
+  }
+  if ((name === 'TypeError' && /network|fetch/i.test(message)) || name.includes('Connection')) {
+    return new AIError('network', provider, { detail: message });
+  }
+  return new AIError(classify(undefined, message), provider, { detail: message.substring(0, 500) });
+}
+
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  provider: string
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    throw toAIError(error, provider);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Repete a chamada com backoff exponencial (1s, 2s, 4s + jitter) enquanto o
+ * erro for transitório. Respeita o Retry-After quando o provedor o envia.
+ * Erros que não são AIError (arquivo ausente, configuração) sobem intactos,
+ * assim como qualquer erro depois que `canRetry` passar a retornar false.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof AIError) || !error.retryable || attempt >= MAX_RETRIES || !canRetry()) throw error;
+
+      const backoff = BASE_DELAY_MS * 2 ** attempt + Math.random() * 250;
+      const delay = Math.min(error.retryAfterMs ?? backoff, MAX_DELAY_MS);
+      console.log(`[AI] ${error.provider} ${error.kind}, tentativa ${attempt + 2} em ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/** Texto para Alert: mensagem amigável e a ação sugerida. */
+export function formatErrorForUser(error: unknown, fallback: string): string {
+  if (error instanceof AIError) {
+    return `${error.message}\n\n${error.suggestion}`;
+  }
+  const message = isObject(error) ? error.message : undefined;
+  return typeof message === 'string' && message ? message : fallback;
+}
@@ -1,74 +1,227 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, GoogleGenerativeAIAbortError, Part } from '@google/generative-ai';
 import { File as FSFile } from 'expo-file-system';
-import { DOSSIER_PROMPT, TimestampedSegment } from '../constants/ai';
+import { AIProviderService, AIUsage, CompletionOptions, CompletionResult, TimestampedSegment, TimestampedTranscription, TranscriptionOptions, TranscriptionResult } from '../constants/ai';
+import { AIError, fetchWithTimeout, httpError, toAIError } from './errors';
+import { postServerSentEvents } from './stream';
+import { detectAudioMimeType } from './audioFormat';
 
-function bufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+// Short live-transcription chunks stay inline; anything larger goes through the Files API
+const INLINE_MAX_BYTES = 4 * 1024 * 1024;
+// The resumable protocol requires chunks in multiples of 256 KiB
+const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+const UPLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_CHUNK_RETRIES = 3;
+const FILE_PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+// Same ceiling as the other providers' transcription requests
+const GENERATE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Names Gemini expects where they differ from the standard MIME type
+const GEMINI_MIME_ALIASES: Record<string, string> = {
+  'audio/mpeg': 'audio/mp3',
+};
+
+interface GeminiFile {
+  name: string;  // "files/abc123"
+  uri: string;
+  mimeType: string;
+  state?: 'PROCESSING' | 'ACTIVE' | 'FAILED';
+}
+
+interface PreparedAudio {
+  part: Part;
+  release: () => void;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function startResumableUpload(apiKey: string, size: number, mimeType: string): Promise<string> {
+  const response = await fetchWithTimeout(`${GEMINI_API_URL}/upload/v1beta/files`, {
+    method: 'POST',
+    headers: {
+      'x-goog-api-key': apiKey,
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(size),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { display_name: 'atendimento' } }),
+  }, 30000, 'Gemini');
+  if (!response.ok) throw await httpError(response, 'Gemini');
+
+  const uploadUrl = response.headers.get('x-goog-upload-url');
+  if (!uploadUrl) throw new AIError('unknown', 'Gemini', { detail: 'Resposta sem x-goog-upload-url' });
+  return uploadUrl;
+}
+
+/** Quantos bytes o servidor já recebeu, para retomar um envio interrompido. */
+async function queryUploadOffset(uploadUrl: string): Promise<number> {
+  const response = await fetchWithTimeout(uploadUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Command': 'query' },
+  }, 30000, 'Gemini');
+  if (!response.ok) throw await httpError(response, 'Gemini');
+  return Number(response.headers.get('x-goog-upload-size-received')) || 0;
+}
+
+/**
+ * Envia o arquivo em blocos pelo protocolo resumable da Files API, lendo do
+ * disco um bloco por vez. Se um bloco falhar, pergunta ao servidor até onde
+ * recebeu e continua dali em vez de recomeçar.
+ */
+async function uploadFile(apiKey: string, audioFilePath: string, mimeType: string): Promise<GeminiFile> {
+  const file = new FSFile(audioFilePath);
+  const size = file.size;
+  const uploadUrl = await startResumableUpload(apiKey, size, mimeType);
+
+  const handle = file.open();
+  try {
+    let offset = 0;
+    let failures = 0;
+    while (true) {
+      handle.offset = offset;
+      const chunk = handle.readBytes(Math.min(UPLOAD_CHUNK_BYTES, size - offset));
+      const isLast = offset + chunk.length >= size;
+      try {
+        const response = await fetchWithTimeout(uploadUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Length': String(chunk.length),
+            'X-Goog-Upload-Offset': String(offset),
+            'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+          },
+          body: chunk,
+        }, UPLOAD_TIMEOUT_MS, 'Gemini');
+        if (!response.ok) throw await httpError(response, 'Gemini');
+
+        if (isLast) return (await response.json()).file as GeminiFile;
+        offset += chunk.length;
+        failures = 0;
+      } catch (error) {
+        if (!(error instanceof AIError) || !error.retryable || ++failures > MAX_CHUNK_RETRIES) throw error;
+        console.log(`[GEMINI] Falha no envio em ${offset} bytes, retomando (${failures})`);
+        await sleep(1000 * failures);
+        offset = await queryUploadOffset(uploadUrl);
+      }
+    }
+  } finally {
+    handle.close();
+  }
+}
+
+/** Arquivos de áudio podem passar por processamento antes de poderem ser usados. */
+async function waitUntilActive(apiKey: string, file: GeminiFile): Promise<GeminiFile> {
+  const deadline = Date.now() + FILE_PROCESSING_TIMEOUT_MS;
+  let current = file;
+  while (current.state === 'PROCESSING') {
+    if (Date.now() > deadline) throw new AIError('timeout', 'Gemini', { detail: `Arquivo ${file.name} ainda em processamento` });
+    await sleep(2000);
+    const response = await fetchWithTimeout(`${GEMINI_API_URL}/v1beta/${file.name}`, {
+      headers: { 'x-goog-api-key': apiKey },
+    }, 30000, 'Gemini');
+    if (!response.ok) throw await httpError(response, 'Gemini');
+    current = await response.json();
   }
-  return btoa(binary);
+  if (current.state === 'FAILED') {
+    throw new AIError('unsupported_format', 'Gemini', { detail: `Processamento de ${file.name} falhou` });
+  }
+  return current;
+}
+
+function deleteUploadedFile(apiKey: string, name: string): void {
+  // The API drops files after 48h anyway, but client audio shouldn't linger that long
+  fetchWithTimeout(`${GEMINI_API_URL}/v1beta/${name}`, {
+    method: 'DELETE',
+    headers: { 'x-goog-api-key': apiKey },
+  }, 30000, 'Gemini').catch(() => {});
+}
+
+async function prepareAudio(apiKey: string, audioFilePath: string): Promise<PreparedAudio> {
+  const file = new FSFile(audioFilePath);
+  const detected = detectAudioMimeType(audioFilePath);
+  const mimeType = GEMINI_MIME_ALIASES[detected] ?? detected;
+
+  if (file.size <= INLINE_MAX_BYTES) {
+    return { part: { inlineData: { mimeType, data: await file.base64() } }, release: () => {} };
+  }
+
+  const pending = await uploadFile(apiKey, audioFilePath, mimeType);
+  let uploaded: GeminiFile;
+  try {
+    uploaded = await waitUntilActive(apiKey, pending);
+  } catch (error) {
+    // The upload already exists remotely; don't leave it behind on failure
+    deleteUploadedFile(apiKey, pending.name);
+    throw error;
+  }
+  return {
+    part: { fileData: { mimeType: uploaded.mimeType || mimeType, fileUri: uploaded.uri } },
+    release: () => deleteUploadedFile(apiKey, uploaded.name),
+  };
+}
+
+// The SDK reports its own timeout as a generic abort error
+function toGeminiError(error: unknown): AIError {
+  if (error instanceof GoogleGenerativeAIAbortError) return new AIError('timeout', 'Gemini', { detail: error.message });
+  return toAIError(error, 'Gemini');
+}
+
+function parseUsageMetadata(metadata: any): AIUsage {
+  if (!metadata) return {};
+  return { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount };
 }
 
 export async function transcribeWithGemini(
   apiKey: string,
   audioFilePath: string,
-  model: string
-): Promise<string> {
+  model: string,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult> {
   const genAI = new GoogleGenerativeAI(apiKey);
-  const genModel = genAI.getGenerativeModel({ model });
-
-  const file = new FSFile(audioFilePath);
-  const buffer = await file.arrayBuffer();
-  const audioBase64 = bufferToBase64(buffer);
+  const genModel = genAI.getGenerativeModel({ model }, { timeout: GENERATE_TIMEOUT_MS });
 
+  const audio = await prepareAudio(apiKey, audioFilePath);
   const result = await genModel.generateContent([
+    audio.part,
     {
-      inlineData: {
-        mimeType: 'audio/m4a',
-        data: audioBase64,
-      },
+      text: `Transcreva este áudio na íntegra em português. Retorne APENAS a transcrição, sem comentários adicionais.${options.prompt
+        ? `\n\nO áudio continua uma gravação cujo trecho anterior terminou com: "${options.prompt}". Use isso só como contexto: não repita esse texto e complete a palavra ou frase que ficou cortada.`
+        : ''}`,
     },
-    {
-      text: `Transcreva este áudio na íntegra em português. Retorne APENAS a transcrição, sem comentários adicionais.`,
-    },
-  ]);
+  ]).catch((error) => { throw toGeminiError(error); })
+    .finally(audio.release);
 
-  return result.response.text();
+  return { text: result.response.text(), usage: parseUsageMetadata(result.response.usageMetadata) };
 }
 
 export async function transcribeWithGeminiTimestamped(
   apiKey: string,
   audioFilePath: string,
   model: string
-): Promise<{ segments: TimestampedSegment[]; plainText: string }> {
+): Promise<TimestampedTranscription> {
   const genAI = new GoogleGenerativeAI(apiKey);
   const genModel = genAI.getGenerativeModel({
     model,
     generationConfig: { responseMimeType: 'application/json' },
-  });
-
-  const file = new FSFile(audioFilePath);
-  const buffer = await file.arrayBuffer();
-  const audioBase64 = bufferToBase64(buffer);
+  }, { timeout: GENERATE_TIMEOUT_MS });
 
+  const audio = await prepareAudio(apiKey, audioFilePath);
   const result = await genModel.generateContent([
-    {
-      inlineData: {
-        mimeType: 'audio/m4a',
-        data: audioBase64,
-      },
-    },
+    audio.part,
     {
       text: `Transcreva este áudio em português com timestamps. Retorne APENAS um JSON com o formato:
 {"segments": [{"start": 0.0, "end": 3.5, "text": "texto aqui"}], "text": "texto completo aqui"}
 
 Onde start/end são segundos decimais. Retorne o JSON puro sem markdown.`,
     },
-  ]);
+  ]).catch((error) => { throw toGeminiError(error); })
+    .finally(audio.release);
 
   const raw = result.response.text();
+  const usage = parseUsageMetadata(result.response.usageMetadata);
   try {
     const data = JSON.parse(raw);
     const segments: TimestampedSegment[] = (data.segments || []).map((seg: any) => ({
@@ -76,22 +229,70 @@ Onde start/end são segundos decimais. Retorne o JSON puro sem markdown.`,
       end: Number(seg.end) || 0,
       text: (seg.text || '').trim(),
     }));
-    return { segments, plainText: data.text || segments.map(s => s.text).join(' ') };
+    return { segments, plainText: data.text || segments.map(s => s.text).join(' '), usage };
   } catch {
     // Fallback if Gemini doesn't return valid JSON
-    return { segments: [{ start: 0, end: 0, text: raw.trim() }], plainText: raw.trim() };
+    return { segments: [{ start: 0, end: 0, text: raw.trim() }], plainText: raw.trim(), usage };
   }
 }
 
-export async function generateDossierWithGemini(
+export async function completeWithGemini(
   apiKey: string,
-  transcription: string,
-  model: string
-): Promise<string> {
+  prompt: string,
+  model: string,
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
   const genAI = new GoogleGenerativeAI(apiKey);
-  const genModel = genAI.getGenerativeModel({ model });
+  const genModel = genAI.getGenerativeModel({
+    model,
+    ...(options.json ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+  }, { timeout: GENERATE_TIMEOUT_MS });
 
-  const result = await genModel.generateContent(DOSSIER_PROMPT + transcription);
+  const result = await genModel.generateContent(prompt)
+    .catch((error) => { throw toGeminiError(error); });
 
-  return result.response.text();
+  return { text: result.response.text(), usage: parseUsageMetadata(result.response.usageMetadata) };
 }
+
+/**
+ * O SDK do Gemini depende de ReadableStream no fetch global, ausente no React
+ * Native; por isso o streaming fala direto com a API REST (alt=sse).
+ */
+export async function streamWithGemini(
+  apiKey: string,
+  prompt: string,
+  model: string,
+  onPartial: (text: string) => void,
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  let text = '';
+  let usage: AIUsage = {};
+  await postServerSentEvents(
+    `${GEMINI_API_URL}/v1beta/models/${model}:streamGenerateContent?alt=sse`,
+    { 'x-goog-api-key': apiKey },
+    {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      ...(options.json ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+    },
+    'Gemini',
+    (chunk) => {
+      // Each chunk carries cumulative usage; the last one has the totals
+      if (chunk.usageMetadata) usage = parseUsageMetadata(chunk.usageMetadata);
+
+      const parts = chunk.candidates?.[0]?.content?.parts || [];
+      const delta = parts.map((part: any) => part.text || '').join('');
+      if (delta) {
+        text += delta;
+        onPartial(text);
+      }
+    }
+  );
+  return { text, usage };
+}
+
+export const geminiProvider: AIProviderService = {
+  transcribe: transcribeWithGemini,
+  transcribeTimestamped: transcribeWithGeminiTimestamped,
+  complete: completeWithGemini,
+  completeStream: streamWithGemini,
+};
@@ -1,71 +1,69 @@
 import Groq from 'groq-sdk';
 import { File as FSFile } from 'expo-file-system';
-import { DOSSIER_PROMPT, TimestampedSegment } from '../constants/ai';
+import { AIProviderService, CompletionOptions, CompletionResult, TimestampedSegment, TimestampedTranscription, TranscriptionOptions, TranscriptionResult } from '../constants/ai';
+import { fetchWithTimeout, httpError, toAIError } from './errors';
+import { streamWithEndpoint } from './openai';
+import { audioUploadPart } from './audioFormat';
+
+const TRANSCRIPTION_TIMEOUT_MS = 5 * 60 * 1000;
 
 export async function transcribeWithGroq(
   apiKey: string,
   audioFilePath: string,
-  model: string
-): Promise<string> {
+  model: string,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult> {
   const file = new FSFile(audioFilePath);
   if (!file.exists) throw new Error('Arquivo de áudio não encontrado');
 
   const formData = new FormData();
-  formData.append('file', {
-    uri: audioFilePath,
-    type: 'audio/m4a',
-    name: 'audio.m4a',
-  } as any);
+  formData.append('file', audioUploadPart(audioFilePath) as any);
   formData.append('model', model);
   formData.append('language', 'pt');
+  if (options.prompt) formData.append('prompt', options.prompt);
   formData.append('response_format', 'text');
 
-  const response = await fetch('https://api.groq.com/openai/v1/audio/transcriptions', {
+  const response = await fetchWithTimeout('https://api.groq.com/openai/v1/audio/transcriptions', {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${apiKey}`,
     },
     body: formData,
-  });
+  }, TRANSCRIPTION_TIMEOUT_MS, 'Groq');
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Erro na transcrição Groq: ${error}`);
+    throw await httpError(response, 'Groq');
   }
 
-  return response.text();
+  // The text format carries no usage; the dispatcher measures the audio instead
+  return { text: await response.text(), usage: {} };
 }
 
 export async function transcribeWithGroqTimestamped(
   apiKey: string,
   audioFilePath: string,
   model: string
-): Promise<{ segments: TimestampedSegment[]; plainText: string }> {
+): Promise<TimestampedTranscription> {
   const file = new FSFile(audioFilePath);
   if (!file.exists) throw new Error('Arquivo de áudio não encontrado');
 
   const formData = new FormData();
-  formData.append('file', {
-    uri: audioFilePath,
-    type: 'audio/m4a',
-    name: 'audio.m4a',
-  } as any);
+  formData.append('file', audioUploadPart(audioFilePath) as any);
   formData.append('model', model);
   formData.append('language', 'pt');
   formData.append('response_format', 'verbose_json');
   formData.append('timestamp_granularities[]', 'segment');
 
-  const response = await fetch('https://api.groq.com/openai/v1/audio/transcriptions', {
+  const response = await fetchWithTimeout('https://api.groq.com/openai/v1/audio/transcriptions', {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${apiKey}`,
     },
     body: formData,
-  });
+  }, TRANSCRIPTION_TIMEOUT_MS, 'Groq');
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Erro na transcrição Groq: ${error}`);
+    throw await httpError(response, 'Groq');
   }
 
   const data = await response.json();
@@ -73,27 +71,57 @@ export async function transcribeWithGroqTimestamped(
     start: seg.start,
     end: seg.end,
     text: seg.text?.trim() || '',
+    noSpeechProb: typeof seg.no_speech_prob === 'number' ? seg.no_speech_prob : undefined,
+    avgLogprob: typeof seg.avg_logprob === 'number' ? seg.avg_logprob : undefined,
   }));
-  return { segments, plainText: data.text || '' };
+  return {
+    segments,
+    plainText: data.text || '',
+    usage: typeof data.duration === 'number' ? { audioSeconds: data.duration } : {},
+  };
 }
 
-export async function generateDossierWithGroq(
+export async function completeWithGroq(
   apiKey: string,
-  transcription: string,
-  model: string
-): Promise<string> {
-  const client = new Groq({ apiKey });
+  prompt: string,
+  model: string,
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  // Retries are handled by withRetry in the provider registry
+  const client = new Groq({ apiKey, maxRetries: 0 });
 
   const response = await client.chat.completions.create({
     model,
     messages: [
       {
         role: 'user',
-        content: DOSSIER_PROMPT + transcription,
+        content: prompt,
       },
     ],
     temperature: 0.3,
-  });
+    ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+  }).catch((error) => { throw toAIError(error, 'Groq'); });
 
-  return response.choices[0]?.message?.content || 'Erro ao gerar dossiê.';
+  return {
+    text: response.choices[0]?.message?.content || '',
+    usage: { inputTokens: response.usage?.prompt_tokens, outputTokens: response.usage?.completion_tokens },
+  };
 }
+
+export async function streamWithGroq(
+  apiKey: string,
+  prompt: string,
+  model: string,
+  onPartial: (text: string) => void,
+  options?: CompletionOptions
+): Promise<CompletionResult> {
+  // Groq exposes the OpenAI chat protocol, streaming included
+  return streamWithEndpoint({ label: 'Groq', baseUrl: 'https://api.groq.com/openai/v1', apiKey }, prompt, model, onPartial, options);
+}
+
+export const groqProvider: AIProviderService = {
+  transcribe: transcribeWithGroq,
+  transcribeTimestamped: transcribeWithGroqTimestamped,
+  complete: completeWithGroq,
+  completeStream: streamWithGroq,
+};
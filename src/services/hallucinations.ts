@@ -0,0 +1,151 @@
+import { TimestampedSegment, TimestampedTranscription } from '../constants/ai';
+
+// Filtro de alucinações do Whisper: frases de legenda de vídeo que o modelo
+// "ouve" no silêncio, laços de repetição e, quando o verbose_json traz as
+// probabilidades, segmentos que o próprio modelo marca como sem fala.
+
+// Same rule Whisper uses to skip silent windows
+const NO_SPEECH_PROB_THRESHOLD = 0.6;
+const AVG_LOGPROB_THRESHOLD = -1.0;
+// A listed phrase only counts when it is most of the sentence
+const MAX_EXTRA_CHARS = 15;
+const MAX_LOOP_NGRAM = 8;
+const MIN_LOOP_REPEATS = 3;
+const MIN_SINGLE_WORD_REPEATS = 6;
+
+// Normalized (lowercase, no accents or punctuation). The sentence may carry a
+// few extra words ("Legendas pela comunidade Amara.org, 2023"), so only whole
+// signatures go here: a short one like "inscreva-se" plus 15 characters is
+// still real speech ("Inscreva-se no concurso.")
+const HALLUCINATION_PHRASES = [
+  'legendas pela comunidade amara org',
+  'legendas pela comunidade amaraorg',
+  'comunidade amaraorg',
+  'legendado pela comunidade amara org',
+  'legendas e revisao',
+  'traducao e legendas',
+  'transcricao e legendas',
+  'obrigado por assistir',
+  'obrigada por assistir',
+  'obrigado por assistirem',
+  'obrigada por assistirem',
+  'obrigado por ter assistido',
+  'obrigado pela atencao e ate o proximo video',
+  'inscrevase no canal',
+  'se inscreva no canal',
+  'deixe seu like',
+  'deixe o seu like',
+  'ative o sininho',
+  'ative as notificacoes',
+  'compartilhe com os amigos',
+  'e ai pessoal tudo bem',
+  'sejam bemvindos ao canal',
+  'subtitles by the amara org community',
+  'thanks for watching',
+  'thank you for watching',
+];
+
+// Too common in real speech to match inside a sentence; only as the whole sentence
+const HALLUCINATION_SENTENCES = [
+  'musica',
+  'musica de fundo',
+  'aplausos',
+  'risos',
+  'silencio',
+  'ate a proxima',
+  'ate o proximo video',
+  'inscrevase',
+  'tchau tchau',
+];
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isHallucinatedSentence(sentence: string): boolean {
+  const normalized = normalize(sentence);
+  if (!normalized) return false;
+  if (HALLUCINATION_SENTENCES.includes(normalized)) return true;
+  return HALLUCINATION_PHRASES.some(phrase =>
+    normalized.includes(phrase) && normalized.length - phrase.length <= MAX_EXTRA_CHARS);
+}
+
+interface WordToken {
+  end: number; // index just past the word in the text
+  key: string; // normalized word
+}
+
+function tokenize(text: string): WordToken[] {
+  return [...text.matchAll(/\S+/g)].map(match => ({
+    end: match.index! + match[0].length,
+    key: normalize(match[0]),
+  }));
+}
+
+/**
+ * Desfaz laços do tipo "e aí, e aí, e aí, e aí": uma sequência de até 8
+ * palavras repetida seguidamente fica uma vez só. Palavras soltas só a partir
+ * de 6 repetições, para preservar hesitações reais ("não, não, não"). Só o
+ * trecho repetido sai; espaços e quebras de linha do resto ficam como estão.
+ */
+export function collapseRepetitionLoops(text: string): string {
+  for (let size = MAX_LOOP_NGRAM; size >= 1; size--) {
+    const minRepeats = size === 1 ? MIN_SINGLE_WORD_REPEATS : MIN_LOOP_REPEATS;
+    let tokens = tokenize(text);
+    let i = 0;
+    while (i + size * minRepeats <= tokens.length) {
+      const keys = tokens.slice(i, i + size).map(t => t.key);
+      const gram = keys.join(' ');
+      // A run of one word is left to the single-word threshold
+      if (!gram || (size > 1 && keys.every(key => key === keys[0]))) { i++; continue; }
+      let repeats = 1;
+      while (tokens.slice(i + repeats * size, i + (repeats + 1) * size).map(t => t.key).join(' ') === gram) repeats++;
+      if (repeats >= minRepeats) {
+        // Cut from the end of the first copy to the end of the last one
+        text = text.slice(0, tokens[i + size - 1].end) + text.slice(tokens[i + repeats * size - 1].end);
+        tokens = tokenize(text);
+      }
+      i++;
+    }
+  }
+  return text.trim();
+}
+
+/** Remove frases de legenda inventadas e laços de repetição do texto. */
+export function filterHallucinations(text: string): string {
+  // Each match is a sentence plus the whitespace before it, so dropping one
+  // keeps the separator that follows. Sentence ends need a following space,
+  // so "Amara.org" stays in one piece
+  const kept = text.replace(/(\s*)(\S[\s\S]*?(?:[.!?…]+(?=\s|$)|$))/g,
+    (match, _lead: string, sentence: string) => (isHallucinatedSentence(sentence) ? '' : match));
+  return collapseRepetitionLoops(kept);
+}
+
+function isSilentSegment(seg: TimestampedSegment): boolean {
+  return seg.noSpeechProb !== undefined
+    && seg.avgLogprob !== undefined
+    && seg.noSpeechProb > NO_SPEECH_PROB_THRESHOLD
+    && seg.avgLogprob < AVG_LOGPROB_THRESHOLD;
+}
+
+export function filterTimestampedTranscription(result: TimestampedTranscription): TimestampedTranscription {
+  let changed = false;
+  const segments: TimestampedSegment[] = [];
+  for (const seg of result.segments) {
+    const text = isSilentSegment(seg) ? '' : filterHallucinations(seg.text);
+    if (text !== seg.text.trim()) changed = true;
+    if (text) segments.push({ ...seg, text });
+  }
+
+  // The provider's plain text does not say which part came from which segment
+  const plainText = changed && result.segments.length > 1
+    ? segments.map(seg => seg.text).join(' ')
+    : filterHallucinations(result.plainText);
+  return { ...result, segments, plainText };
+}
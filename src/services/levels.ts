@@ -0,0 +1,137 @@
+import { RecordingWaveform } from '../constants/ai';
+
+// Nível de entrada do microfone durante a gravação: medidor ao vivo, forma de
+// onda reduzida guardada com a gravação e avisos de microfone mudo ou coberto
+// (silêncio prolongado) e de saturação.
+
+// Quietest level drawn; anything below shows as an empty bar
+export const LEVEL_FLOOR_DB = -60;
+export const WAVEFORM_BUCKET_MS = 500;
+
+// At or above this the input is clipping
+const CLIP_DB = -1;
+const SILENCE_WARNING_MS = 15000;
+// The clipping warning stays up this long after the last clipped reading
+const CLIP_WARNING_MS = 3000;
+// Shorter pauses are part of the conversation and are not skipped
+const MIN_SKIPPED_SILENCE_MS = 1500;
+
+export type LevelWarning = 'silence' | 'clipping' | null;
+
+/** Nível em dBFS convertido para 0–1, para a altura das barras. */
+export function levelToFraction(levelDb: number): number {
+  if (!Number.isFinite(levelDb) || levelDb <= LEVEL_FLOOR_DB) return 0;
+  return Math.min(1, (levelDb - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB);
+}
+
+export interface WaveformBuilder {
+  add: (levelDb: number, elapsedMs: number) => void;
+  build: () => RecordingWaveform;
+  reset: () => void;
+}
+
+/** Junta as leituras do medidor em blocos de tamanho fixo, guardando o pico de cada um. */
+export function createWaveformBuilder(bucketMs = WAVEFORM_BUCKET_MS): WaveformBuilder {
+  let levels: number[] = [];
+  let bucketElapsedMs = 0;
+  let bucketPeak = -Infinity;
+
+  return {
+    add(levelDb, elapsedMs) {
+      bucketPeak = Math.max(bucketPeak, levelDb);
+      bucketElapsedMs += elapsedMs;
+      // A late tick can cover more than one bucket; they all get its peak
+      while (bucketElapsedMs >= bucketMs) {
+        levels.push(Math.round(Math.max(LEVEL_FLOOR_DB, bucketPeak)));
+        bucketElapsedMs -= bucketMs;
+        if (bucketElapsedMs < bucketMs) bucketPeak = -Infinity;
+      }
+    },
+    build() {
+      const tail = bucketPeak > -Infinity ? [Math.round(Math.max(LEVEL_FLOOR_DB, bucketPeak))] : [];
+      return { bucketMs, levels: [...levels, ...tail] };
+    },
+    reset() {
+      levels = [];
+      bucketElapsedMs = 0;
+      bucketPeak = -Infinity;
+    },
+  };
+}
+
+export interface LevelMonitor {
+  /** Registra uma leitura do nível; retorna o aviso a mostrar, se houver. */
+  update: (levelDb: number, elapsedMs: number) => LevelWarning;
+  reset: () => void;
+}
+
+export function createLevelMonitor(silenceThresholdDb: number): LevelMonitor {
+  let silenceRunMs = 0;
+  let sinceClipMs = Infinity;
+
+  return {
+    update(levelDb, elapsedMs) {
+      silenceRunMs = levelDb > silenceThresholdDb ? 0 : silenceRunMs + elapsedMs;
+      sinceClipMs = levelDb >= CLIP_DB ? 0 : sinceClipMs + elapsedMs;
+
+      if (sinceClipMs < CLIP_WARNING_MS) return 'clipping';
+      if (silenceRunMs >= SILENCE_WARNING_MS) return 'silence';
+      return null;
+    },
+    reset() {
+      silenceRunMs = 0;
+      sinceClipMs = Infinity;
+    },
+  };
+}
+
+/**
+ * Reduz a forma de onda para `bars` barras (0–1), ficando com o pico de cada
+ * grupo para que falas curtas não sumam.
+ */
+export function downsampleWaveform(waveform: RecordingWaveform, bars: number): number[] {
+  const { levels } = waveform;
+  if (levels.length === 0 || bars <= 0) return [];
+  if (levels.length <= bars) return levels.map(levelToFraction);
+
+  const result: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    const start = Math.floor((i * levels.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * levels.length) / bars));
+    result.push(levelToFraction(Math.max(...levels.slice(start, end))));
+  }
+  return result;
+}
+
+export interface SilentRange {
+  start: number; // seconds
+  end: number;
+}
+
+/** Trechos de silêncio da forma de onda guardada, para o player pular. */
+export function findSilentRanges(
+  waveform: RecordingWaveform,
+  thresholdDb: number,
+  minMs = MIN_SKIPPED_SILENCE_MS
+): SilentRange[] {
+  const { bucketMs, levels } = waveform;
+  const ranges: SilentRange[] = [];
+  let runStart = -1;
+
+  const closeRun = (end: number) => {
+    if (runStart >= 0 && (end - runStart) * bucketMs >= minMs) {
+      ranges.push({ start: (runStart * bucketMs) / 1000, end: (end * bucketMs) / 1000 });
+    }
+    runStart = -1;
+  };
+
+  levels.forEach((level, i) => {
+    if (level <= thresholdDb) {
+      if (runStart < 0) runStart = i;
+    } else {
+      closeRun(i);
+    }
+  });
+  closeRun(levels.length);
+  return ranges;
+}
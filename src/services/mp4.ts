@@ -0,0 +1,497 @@
+import { File as FSFile, FileHandle } from 'expo-file-system';
+
+// Leitura mínima de contêineres ISO BMFF (MP4/M4A/3GP) gerados pelo MediaRecorder.
+// Os arquivos são lidos por posição: só os cabeçalhos das caixas e o `moov`
+// passam pela memória, nunca o áudio inteiro.
+
+/** Bytes lidos por posição, de um arquivo aberto ou de um buffer. */
+export interface ByteSource {
+  size: number;
+  read: (offset: number, length: number) => Uint8Array;
+}
+
+export function bytesSource(bytes: Uint8Array): ByteSource {
+  return { size: bytes.length, read: (offset, length) => bytes.subarray(offset, offset + length) };
+}
+
+function handleSource(handle: FileHandle, size: number): ByteSource {
+  return {
+    size,
+    read: (offset, length) => {
+      handle.offset = offset;
+      return handle.readBytes(length);
+    },
+  };
+}
+
+interface Box {
+  type: string;
+  start: number;   // offset of the box header
+  dataStart: number;
+  end: number;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function readUint64(bytes: Uint8Array, offset: number): number {
+  return readUint32(bytes, offset) * 0x100000000 + readUint32(bytes, offset + 4);
+}
+
+function readType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+// Reads only the headers, so walking a file's top level costs a few bytes per box
+function readBoxes(source: ByteSource, start = 0, end = source.size): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const header = source.read(offset, Math.min(16, end - offset));
+    let size = readUint32(header, 0);
+    const type = readType(header, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      if (header.length < 16) break;
+      size = readUint64(header, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type, start: offset, dataStart: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(source: ByteSource, path: string[], start = 0, end = source.size): Box | null {
+  const [head, ...rest] = path;
+  const box = readBoxes(source, start, end).find(b => b.type === head);
+  if (!box) return null;
+  if (rest.length === 0) return box;
+  return findBox(source, rest, box.dataStart, box.end);
+}
+
+/** Duração em segundos lida do `mvhd`, ou null se o arquivo não for MP4 válido. */
+export function readMp4DurationSeconds(source: ByteSource): number | null {
+  const mvhdBox = findBox(source, ['moov', 'mvhd']);
+  if (!mvhdBox) return null;
+  const mvhd = source.read(mvhdBox.dataStart, mvhdBox.end - mvhdBox.dataStart);
+
+  let timescale: number;
+  let duration: number;
+  if (mvhd[0] === 1) {
+    timescale = readUint32(mvhd, 20);
+    duration = readUint64(mvhd, 24);
+  } else {
+    timescale = readUint32(mvhd, 12);
+    duration = readUint32(mvhd, 16);
+  }
+  if (!timescale) return null;
+  return duration / timescale;
+}
+
+export async function getAudioDurationSeconds(audioFilePath: string): Promise<number | null> {
+  try {
+    const file = new FSFile(audioFilePath);
+    if (!file.exists) return null;
+    const handle = file.open();
+    try {
+      return readMp4DurationSeconds(handleSource(handle, file.size));
+    } finally {
+      handle.close();
+    }
+  } catch {
+    return null;
+  }
+}
+
+// ─── Concatenação ───
+// Junta arquivos M4A de áudio (mesmo codec e configuração, como as partes
+// gravadas em paralelo) num único arquivo: as amostras AAC vão em sequência
+// para um só `mdat` e o `moov` é refeito com as tabelas de amostras somadas.
+// Cada arquivo pode entrar inteiro ou só um trecho (por tempo, na resolução
+// de um quadro AAC). Listas de edição (elst) são ignoradas, então cada emenda
+// carrega o priming do encoder (~50 ms), imperceptível na fala.
+
+const COPY_BLOCK_BYTES = 1024 * 1024;
+
+/** Trecho de um arquivo em segundos; sem `start`/`end`, do início ou até o fim. */
+export interface TimeRange {
+  start?: number;
+  end?: number;
+}
+
+export interface AudioSlice extends TimeRange {
+  path: string;
+}
+
+interface AudioTrack {
+  source: ByteSource;
+  ftyp: Uint8Array | null;
+  movieTimescale: number;
+  timescale: number;
+  language: number;
+  hdlr: Uint8Array;
+  smhd: Uint8Array | null;
+  dinf: Uint8Array | null;
+  stsd: Uint8Array;
+  // One entry per sample
+  offsets: Float64Array; // byte offset in the source file
+  sizes: Uint32Array;
+  deltas: Uint32Array;   // duration in `timescale` units
+  chunkStarts: Uint8Array; // 1 where the sample opens a chunk of the source
+}
+
+// A chunk of the output: samples that are contiguous in one source
+interface SampleRun {
+  source: ByteSource;
+  offset: number;
+  size: number;
+  samples: number;
+}
+
+interface ConcatPlan {
+  header: Uint8Array; // ftyp + mdat header
+  runs: SampleRun[];
+  moov: Uint8Array;
+  size: number;
+}
+
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+function requireBox(moov: ByteSource, path: string[], start: number, end: number): Box {
+  const box = findBox(moov, path, start, end);
+  if (!box) throw new Error(`Arquivo de áudio sem a caixa ${path.join('/')}`);
+  return box;
+}
+
+function readAudioTrack(source: ByteSource): AudioTrack {
+  const top = readBoxes(source);
+  const moovBox = top.find(box => box.type === 'moov');
+  if (!moovBox) throw new Error('Arquivo de áudio incompleto (sem moov)');
+  const ftypBox = top.find(box => box.type === 'ftyp');
+
+  // Only the moov is loaded; offsets below are relative to it
+  const bytes = source.read(moovBox.start, moovBox.end - moovBox.start);
+  const moov = bytesSource(bytes);
+  const boxBytes = (box: Box | null) => (box ? bytes.subarray(box.start, box.end) : null);
+  const mvhd = requireBox(moov, ['mvhd'], 8, bytes.length);
+
+  const trak = readBoxes(moov, 8, bytes.length).find((box) => {
+    const hdlr = findBox(moov, ['mdia', 'hdlr'], box.dataStart, box.end);
+    return box.type === 'trak' && !!hdlr && readType(bytes, hdlr.dataStart + 8) === 'soun';
+  });
+  if (!trak) throw new Error('Arquivo sem trilha de áudio');
+
+  const mdia = requireBox(moov, ['mdia'], trak.dataStart, trak.end);
+  const mdhd = requireBox(moov, ['mdhd'], mdia.dataStart, mdia.end);
+  const minf = requireBox(moov, ['minf'], mdia.dataStart, mdia.end);
+  const stbl = requireBox(moov, ['stbl'], minf.dataStart, minf.end);
+  const table = (type: string) => findBox(moov, [type], stbl.dataStart, stbl.end);
+
+  const mdhdV1 = bytes[mdhd.dataStart] === 1;
+  const timescale = readUint32(bytes, mdhd.dataStart + (mdhdV1 ? 20 : 12));
+  const language = (bytes[mdhd.dataStart + (mdhdV1 ? 32 : 20)] << 8) | bytes[mdhd.dataStart + (mdhdV1 ? 33 : 21)];
+  const movieTimescale = readUint32(bytes, mvhd.dataStart + (bytes[mvhd.dataStart] === 1 ? 20 : 12));
+
+  const stts = table('stts');
+  const stsz = table('stsz');
+  const stsc = table('stsc');
+  const stco = table('stco') ?? table('co64');
+  const stsd = table('stsd');
+  if (!stts || !stsz || !stsc || !stco || !stsd) throw new Error('Tabela de amostras incompleta');
+
+  const uniformSize = readUint32(bytes, stsz.dataStart + 4);
+  const sampleCount = readUint32(bytes, stsz.dataStart + 8);
+  const sizes = new Uint32Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    sizes[i] = uniformSize || readUint32(bytes, stsz.dataStart + 12 + i * 4);
+  }
+
+  const deltas = new Uint32Array(sampleCount);
+  let sample = 0;
+  for (let i = 0, n = readUint32(bytes, stts.dataStart + 4); i < n; i++) {
+    const at = stts.dataStart + 8 + i * 8;
+    const delta = readUint32(bytes, at + 4);
+    for (let count = readUint32(bytes, at); count > 0 && sample < sampleCount; count--) deltas[sample++] = delta;
+  }
+  if (sample !== sampleCount) throw new Error('Tabela de amostras inconsistente');
+
+  const is64 = stco.type === 'co64';
+  const chunkCount = readUint32(bytes, stco.dataStart + 4);
+  const stscEntries: [number, number][] = [];
+  for (let i = 0, n = readUint32(bytes, stsc.dataStart + 4); i < n; i++) {
+    const at = stsc.dataStart + 8 + i * 12;
+    stscEntries.push([readUint32(bytes, at), readUint32(bytes, at + 4)]);
+  }
+
+  // stsc maps runs of chunks to their sample count; expand it chunk by chunk
+  const offsets = new Float64Array(sampleCount);
+  const chunkStarts = new Uint8Array(sampleCount);
+  let entry = 0;
+  sample = 0;
+  for (let chunk = 0; chunk < chunkCount; chunk++) {
+    while (entry + 1 < stscEntries.length && stscEntries[entry + 1][0] <= chunk + 1) entry++;
+    const at = stco.dataStart + 8 + chunk * (is64 ? 8 : 4);
+    let offset = is64 ? readUint64(bytes, at) : readUint32(bytes, at);
+    const samples = Math.min(stscEntries[entry]?.[1] ?? 0, sampleCount - sample);
+    for (let s = 0; s < samples; s++, sample++) {
+      if (offset + sizes[sample] > source.size) throw new Error('Amostras de áudio fora do arquivo');
+      offsets[sample] = offset;
+      chunkStarts[sample] = s === 0 ? 1 : 0;
+      offset += sizes[sample];
+    }
+  }
+  if (sample !== sampleCount) throw new Error('Tabela de amostras inconsistente');
+
+  return {
+    source,
+    ftyp: ftypBox ? source.read(ftypBox.start, ftypBox.end - ftypBox.start) : null,
+    movieTimescale: movieTimescale || timescale,
+    timescale,
+    language,
+    hdlr: boxBytes(requireBox(moov, ['hdlr'], mdia.dataStart, mdia.end))!,
+    smhd: boxBytes(findBox(moov, ['smhd'], minf.dataStart, minf.end)),
+    dinf: boxBytes(findBox(moov, ['dinf'], minf.dataStart, minf.end)),
+    stsd: bytes.subarray(stsd.start, stsd.end),
+    offsets,
+    sizes,
+    deltas,
+    chunkStarts,
+  };
+}
+
+// Samples that start inside the range: [first, last)
+function selectSamples(track: AudioTrack, range: TimeRange): [number, number] {
+  const start = (range.start ?? 0) * track.timescale;
+  const end = range.end === undefined ? Infinity : range.end * track.timescale;
+  let first = track.deltas.length;
+  let last = track.deltas.length;
+  let time = 0;
+  for (let i = 0; i < track.deltas.length; i++) {
+    if (first === track.deltas.length && time >= start) first = i;
+    if (time >= end) {
+      last = i;
+      break;
+    }
+    time += track.deltas[i];
+  }
+  return [first, Math.max(first, last)];
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff];
+}
+
+function concatBytes(parts: (Uint8Array | number[])[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function makeBox(type: string, ...payload: (Uint8Array | number[])[]): Uint8Array {
+  const body = concatBytes(payload);
+  const typeBytes = Array.from(type, (ch) => ch.charCodeAt(0));
+  return concatBytes([uint32(body.length + 8), typeBytes, body]);
+}
+
+function makeFullBox(type: string, version: number, flags: number, ...payload: (Uint8Array | number[])[]): Uint8Array {
+  return makeBox(type, [version, (flags >>> 16) & 0xff, (flags >>> 8) & 0xff, flags & 0xff], ...payload);
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+function uint32Table(values: ArrayLike<number>): Uint8Array {
+  const out = new Uint8Array(values.length * 4);
+  for (let i = 0; i < values.length; i++) out.set(uint32(values[i]), i * 4);
+  return out;
+}
+
+/**
+ * Monta o arquivo de saída sem copiar o áudio: o cabeçalho, a lista de
+ * trechos de bytes a copiar de cada origem, em ordem, e o `moov` final.
+ */
+function planConcat(sources: ByteSource[], ranges: TimeRange[]): ConcatPlan {
+  if (sources.length === 0) throw new Error('Nenhum arquivo de áudio para juntar');
+  const tracks = sources.map(readAudioTrack);
+  const first = tracks[0];
+  for (const track of tracks) {
+    if (track.timescale !== first.timescale || !sameBytes(track.stsd, first.stsd)) {
+      throw new Error('As partes do áudio têm formatos diferentes');
+    }
+  }
+
+  // Sample tables of the output: source chunks are kept, cut at the range edges
+  const timeToSample: [number, number][] = [];
+  const sampleSizes: number[] = [];
+  const runs: SampleRun[] = [];
+  tracks.forEach((track, t) => {
+    const [from, to] = selectSamples(track, ranges[t] ?? {});
+    for (let i = from; i < to; i++) {
+      const last = timeToSample[timeToSample.length - 1];
+      if (last && last[1] === track.deltas[i]) last[0]++;
+      else timeToSample.push([1, track.deltas[i]]);
+      sampleSizes.push(track.sizes[i]);
+
+      const run = runs[runs.length - 1];
+      if (i > from && !track.chunkStarts[i] && run.offset + run.size === track.offsets[i]) {
+        run.size += track.sizes[i];
+        run.samples++;
+      } else {
+        runs.push({ source: track.source, offset: track.offsets[i], size: track.sizes[i], samples: 1 });
+      }
+    }
+  });
+  if (sampleSizes.length === 0) throw new Error('Nenhuma amostra de áudio no trecho pedido');
+
+  const mediaDuration = timeToSample.reduce((sum, [count, delta]) => sum + count * delta, 0);
+  const movieDuration = Math.round((mediaDuration * first.movieTimescale) / first.timescale);
+
+  const stscEntries: [number, number][] = [];
+  runs.forEach((run, i) => {
+    const last = stscEntries[stscEntries.length - 1];
+    if (!last || last[1] !== run.samples) stscEntries.push([i + 1, run.samples]);
+  });
+
+  const ftyp = first.ftyp ?? makeBox('ftyp', Array.from('M4A ', (ch) => ch.charCodeAt(0)), uint32(0));
+  const dataSize = runs.reduce((sum, run) => sum + run.size, 0);
+  const dataStart = ftyp.length + 8;
+  const chunkOffsets: number[] = [];
+  let cursor = dataStart;
+  for (const run of runs) {
+    chunkOffsets.push(cursor);
+    cursor += run.size;
+  }
+  if (cursor > 0xffffffff) throw new Error('Áudio grande demais para juntar');
+
+  const stbl = makeBox(
+    'stbl',
+    first.stsd,
+    makeFullBox('stts', 0, 0, uint32(timeToSample.length), uint32Table(timeToSample.flat())),
+    makeFullBox('stsc', 0, 0, uint32(stscEntries.length), uint32Table(stscEntries.flatMap(([chunk, samples]) => [chunk, samples, 1]))),
+    makeFullBox('stsz', 0, 0, uint32(0), uint32(sampleSizes.length), uint32Table(sampleSizes)),
+    makeFullBox('stco', 0, 0, uint32(chunkOffsets.length), uint32Table(chunkOffsets)),
+  );
+  const minf = makeBox(
+    'minf',
+    first.smhd ?? makeFullBox('smhd', 0, 0, uint16(0), uint16(0)),
+    first.dinf ?? makeBox('dinf', makeFullBox('dref', 0, 0, uint32(1), makeFullBox('url ', 0, 1))),
+    stbl,
+  );
+  const mdia = makeBox(
+    'mdia',
+    makeFullBox('mdhd', 0, 0, uint32(0), uint32(0), uint32(first.timescale), uint32(mediaDuration), uint16(first.language), uint16(0)),
+    first.hdlr,
+    minf,
+  );
+  const tkhd = makeFullBox(
+    'tkhd', 0, 0x000003,
+    uint32(0), uint32(0), uint32(1), uint32(0), uint32(movieDuration),
+    new Array(8).fill(0), uint16(0), uint16(0), uint16(0x0100), uint16(0),
+    MATRIX.flatMap(uint32), uint32(0), uint32(0),
+  );
+  const mvhd = makeFullBox(
+    'mvhd', 0, 0,
+    uint32(0), uint32(0), uint32(first.movieTimescale), uint32(movieDuration),
+    uint32(0x00010000), uint16(0x0100), new Array(10).fill(0),
+    MATRIX.flatMap(uint32), new Array(24).fill(0), uint32(2),
+  );
+  const moov = makeBox('moov', mvhd, makeBox('trak', tkhd, mdia));
+
+  const header = concatBytes([ftyp, uint32(dataSize + 8), Array.from('mdat', (ch) => ch.charCodeAt(0))]);
+  return { header, runs, moov, size: dataStart + dataSize + moov.length };
+}
+
+/**
+ * Concatena arquivos M4A de áudio na ordem dada, em memória; `ranges[i]`
+ * recorta o arquivo `i`. Lança erro se algum estiver incompleto ou se os
+ * codecs/configurações forem diferentes.
+ */
+export function concatMp4Audio(files: Uint8Array[], ranges: TimeRange[] = []): Uint8Array {
+  const plan = planConcat(files.map(bytesSource), ranges);
+  const out = new Uint8Array(plan.size);
+  out.set(plan.header, 0);
+  let cursor = plan.header.length;
+  for (const run of plan.runs) {
+    out.set(run.source.read(run.offset, run.size), cursor);
+    cursor += run.size;
+  }
+  out.set(plan.moov, cursor);
+  return out;
+}
+
+// Source chunks are small; copy contiguous ones together, a block at a time
+function* copyBlocks(runs: SampleRun[]): Generator<{ source: ByteSource; offset: number; size: number }> {
+  let block: { source: ByteSource; offset: number; size: number } | null = null;
+  for (const run of runs) {
+    if (block && block.source === run.source && block.offset + block.size === run.offset
+      && block.size + run.size <= COPY_BLOCK_BYTES) {
+      block.size += run.size;
+      continue;
+    }
+    if (block) yield block;
+    block = { source: run.source, offset: run.offset, size: run.size };
+  }
+  if (block) yield block;
+}
+
+/**
+ * Junta os arquivos (ou trechos deles) num arquivo novo em `outputPath`,
+ * copiando o áudio do disco para o disco um bloco por vez. Retorna false (sem
+ * arquivo) se alguma parte não puder ser lida ou os formatos não baterem.
+ */
+export async function concatAudioFiles(inputs: (string | AudioSlice)[], outputPath: string): Promise<boolean> {
+  const handles: FileHandle[] = [];
+  const output = new FSFile(outputPath);
+  let writer: FileHandle | null = null;
+  try {
+    const sources: ByteSource[] = [];
+    const ranges: TimeRange[] = [];
+    for (const input of inputs) {
+      const slice = typeof input === 'string' ? { path: input } : input;
+      const file = new FSFile(slice.path);
+      if (!file.exists) continue;
+      const handle = file.open();
+      handles.push(handle);
+      sources.push(handleSource(handle, file.size));
+      ranges.push(slice);
+    }
+    if (sources.length === 0) return false;
+    const plan = planConcat(sources, ranges);
+
+    if (output.exists) output.delete();
+    output.create();
+    writer = output.open();
+    writer.writeBytes(plan.header);
+    for (const block of copyBlocks(plan.runs)) {
+      writer.writeBytes(block.source.read(block.offset, block.size));
+      // Let the UI breathe between blocks of a long recording
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    writer.writeBytes(plan.moov);
+    return true;
+  } catch (error) {
+    console.log('[MP4] Concatenation failed:', error);
+    writer?.close();
+    writer = null;
+    if (output.exists) output.delete();
+    return false;
+  } finally {
+    writer?.close();
+    handles.forEach(handle => handle.close());
+  }
+}
@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
 import { File as FSFile } from 'expo-file-system';
-import { DOSSIER_PROMPT, TimestampedSegment } from '../constants/ai';
+import { AIProviderService, AIUsage, CompletionOptions, CompletionResult, TimestampedSegment, TimestampedTranscription, TranscriptionOptions, TranscriptionResult } from '../constants/ai';
+import { fetchWithTimeout, httpError, toAIError } from './errors';
+import { postServerSentEvents } from './stream';
+import { audioUploadPart } from './audioFormat';
 
 /**
  * Android's MediaRecorder produces files with ftyp brand "3gp4" instead of
@@ -27,114 +30,218 @@ async function patchFileIfNeeded(filePath: string): Promise<void> {
   }
 }
 
-export async function transcribeWithOpenAI(
-  apiKey: string,
-  audioFilePath: string,
-  model: string
-): Promise<string> {
-  const file = new FSFile(audioFilePath);
-  if (!file.exists) throw new Error('Arquivo de áudio não encontrado');
-
-  // Patch 3GP header to MP4 so OpenAI accepts it
-  await patchFileIfNeeded(audioFilePath);
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const TRANSCRIPTION_TIMEOUT_MS = 5 * 60 * 1000;
 
-  const formData = new FormData();
-  formData.append('file', {
-    uri: audioFilePath,
-    type: 'audio/mp4',
-    name: 'audio.mp4',
-  } as any);
-  formData.append('model', model);
-  formData.append('language', 'pt');
-  formData.append('response_format', 'text');
-
-  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: formData,
-  });
+/**
+ * Servidor que fala o protocolo da API da OpenAI. Além da própria OpenAI,
+ * atende o provedor personalizado (whisper.cpp, faster-whisper, Ollama, vLLM).
+ */
+export interface OpenAICompatibleEndpoint {
+  label: string;
+  baseUrl: string;
+  apiKey: string;
+  // Servers that accept stream_options.include_usage (not every self-hosted one does)
+  streamUsage?: boolean;
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Erro na transcrição OpenAI: ${error}`);
-  }
+function openAIEndpoint(apiKey: string): OpenAICompatibleEndpoint {
+  return { label: 'OpenAI', baseUrl: OPENAI_BASE_URL, apiKey, streamUsage: true };
+}
 
-  return response.text();
+function authHeaders(apiKey: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
 }
 
-export async function transcribeWithOpenAITimestamped(
-  apiKey: string,
+export async function requestTranscription(
+  endpoint: OpenAICompatibleEndpoint,
   audioFilePath: string,
-  model: string
-): Promise<{ segments: TimestampedSegment[]; plainText: string }> {
+  model: string,
+  verbose: boolean,
+  prompt?: string
+): Promise<Response> {
   const file = new FSFile(audioFilePath);
   if (!file.exists) throw new Error('Arquivo de áudio não encontrado');
 
-  await patchFileIfNeeded(audioFilePath);
-
-  // verbose_json only works with whisper-1
-  const useVerbose = model === 'whisper-1';
+  const upload = audioUploadPart(audioFilePath);
+  // Patch 3GP header to MP4 so OpenAI accepts it
+  if (upload.type === 'audio/mp4') await patchFileIfNeeded(audioFilePath);
 
   const formData = new FormData();
-  formData.append('file', {
-    uri: audioFilePath,
-    type: 'audio/mp4',
-    name: 'audio.mp4',
-  } as any);
-  formData.append('model', useVerbose ? 'whisper-1' : model);
+  formData.append('file', upload as any);
+  formData.append('model', model);
   formData.append('language', 'pt');
-  formData.append('response_format', useVerbose ? 'verbose_json' : 'text');
-  if (useVerbose) {
+  if (prompt) formData.append('prompt', prompt);
+  formData.append('response_format', verbose ? 'verbose_json' : 'json');
+  if (verbose) {
     formData.append('timestamp_granularities[]', 'segment');
   }
 
-  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+  const response = await fetchWithTimeout(`${endpoint.baseUrl}/audio/transcriptions`, {
     method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-    },
+    headers: authHeaders(endpoint.apiKey),
     body: formData,
-  });
+  }, TRANSCRIPTION_TIMEOUT_MS, endpoint.label);
 
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Erro na transcrição OpenAI: ${error}`);
+    throw await httpError(response, endpoint.label);
   }
 
-  if (useVerbose) {
-    const data = await response.json();
-    const segments: TimestampedSegment[] = (data.segments || []).map((seg: any) => ({
-      start: seg.start,
-      end: seg.end,
-      text: seg.text?.trim() || '',
-    }));
-    return { segments, plainText: data.text || '' };
+  return response;
+}
+
+/**
+ * whisper-1 informa a duração cobrada; os modelos gpt-4o-*-transcribe
+ * informam tokens; o verbose_json traz `duration`.
+ */
+function parseTranscriptionUsage(data: any): AIUsage {
+  const usage = data.usage;
+  if (usage?.type === 'duration') return { audioSeconds: usage.seconds };
+  if (usage?.type === 'tokens') {
+    return {
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      audioSeconds: typeof data.duration === 'number' ? data.duration : undefined,
+    };
   }
+  if (typeof data.duration === 'number') return { audioSeconds: data.duration };
+  return {};
+}
 
-  // Fallback: no timestamps available
-  const text = await response.text();
-  return { segments: [{ start: 0, end: 0, text: text.trim() }], plainText: text.trim() };
+function parseChatUsage(usage: any): AIUsage {
+  if (!usage) return {};
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
 }
 
-export async function generateDossierWithOpenAI(
-  apiKey: string,
-  transcription: string,
-  model: string
-): Promise<string> {
-  const client = new OpenAI({ apiKey });
+export function parseTranscription(data: any): TranscriptionResult {
+  return { text: data.text || '', usage: parseTranscriptionUsage(data) };
+}
+
+export function parseVerboseTranscription(data: any): TimestampedTranscription {
+  const segments: TimestampedSegment[] = (data.segments || []).map((seg: any) => ({
+    start: seg.start,
+    end: seg.end,
+    text: seg.text?.trim() || '',
+    noSpeechProb: typeof seg.no_speech_prob === 'number' ? seg.no_speech_prob : undefined,
+    avgLogprob: typeof seg.avg_logprob === 'number' ? seg.avg_logprob : undefined,
+  }));
+  return { segments, plainText: data.text || '', usage: parseTranscriptionUsage(data) };
+}
+
+export async function completeWithEndpoint(
+  endpoint: OpenAICompatibleEndpoint,
+  prompt: string,
+  model: string,
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  // The SDK refuses an empty key; self-hosted servers usually ignore it.
+  // Retries are handled by withRetry in the provider registry.
+  const client = new OpenAI({ apiKey: endpoint.apiKey || 'sem-chave', baseURL: endpoint.baseUrl, maxRetries: 0 });
 
   const response = await client.chat.completions.create({
     model,
     messages: [
       {
         role: 'user',
-        content: DOSSIER_PROMPT + transcription,
+        content: prompt,
       },
     ],
     temperature: 0.3,
-  });
+    ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+  }).catch((error) => { throw toAIError(error, endpoint.label); });
+
+  return { text: response.choices[0]?.message?.content || '', usage: parseChatUsage(response.usage) };
+}
+
+export async function streamWithEndpoint(
+  endpoint: OpenAICompatibleEndpoint,
+  prompt: string,
+  model: string,
+  onPartial: (text: string) => void,
+  _options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  let text = '';
+  let usage: AIUsage = {};
+  await postServerSentEvents(
+    `${endpoint.baseUrl}/chat/completions`,
+    authHeaders(endpoint.apiKey),
+    {
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.3,
+      stream: true,
+      // No response_format here: Groq and many self-hosted servers reject JSON
+      // mode combined with streaming. The prompt asks for JSON and the caller
+      // validates/repairs it (ensureValidDossier).
+      ...(endpoint.streamUsage ? { stream_options: { include_usage: true } } : {}),
+    },
+    endpoint.label,
+    (chunk) => {
+      // Usage arrives on the last chunk (Groq nests it under x_groq)
+      const chunkUsage = chunk.usage || chunk.x_groq?.usage;
+      if (chunkUsage) usage = parseChatUsage(chunkUsage);
+
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onPartial(text);
+      }
+    }
+  );
+  return { text, usage };
+}
+
+export async function transcribeWithOpenAI(
+  apiKey: string,
+  audioFilePath: string,
+  model: string,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult> {
+  const response = await requestTranscription(openAIEndpoint(apiKey), audioFilePath, model, false, options.prompt);
+  return parseTranscription(await response.json());
+}
+
+export async function transcribeWithOpenAITimestamped(
+  apiKey: string,
+  audioFilePath: string,
+  model: string
+): Promise<TimestampedTranscription> {
+  // verbose_json only works with whisper-1
+  const useVerbose = model === 'whisper-1';
+
+  const response = await requestTranscription(openAIEndpoint(apiKey), audioFilePath, model, useVerbose);
+
+  if (useVerbose) {
+    return parseVerboseTranscription(await response.json());
+  }
 
-  return response.choices[0]?.message?.content || 'Erro ao gerar dossiê.';
+  // Fallback: no timestamps available
+  const { text, usage } = parseTranscription(await response.json());
+  return { segments: [{ start: 0, end: 0, text: text.trim() }], plainText: text.trim(), usage };
+}
+
+export async function completeWithOpenAI(
+  apiKey: string,
+  prompt: string,
+  model: string,
+  options?: CompletionOptions
+): Promise<CompletionResult> {
+  return completeWithEndpoint(openAIEndpoint(apiKey), prompt, model, options);
 }
+
+export async function streamWithOpenAI(
+  apiKey: string,
+  prompt: string,
+  model: string,
+  onPartial: (text: string) => void,
+  options?: CompletionOptions
+): Promise<CompletionResult> {
+  return streamWithEndpoint(openAIEndpoint(apiKey), prompt, model, onPartial, options);
+}
+
+export const openaiProvider: AIProviderService = {
+  transcribe: transcribeWithOpenAI,
+  transcribeTimestamped: transcribeWithOpenAITimestamped,
+  complete: completeWithOpenAI,
+  completeStream: streamWithOpenAI,
+};
@@ -0,0 +1,40 @@
+import { AIProvider, AIProviderService } from '../constants/ai';
+import { openaiProvider } from './openai';
+import { geminiProvider } from './gemini';
+import { groqProvider } from './groq';
+import { customProvider } from './custom';
+import { withRetry } from './errors';
+
+/**
+ * Registro de implementações por provedor. Para adicionar um backend, crie o
+ * módulo do serviço, declare sua configuração em AI_PROVIDERS e inclua-o aqui.
+ */
+const PROVIDER_REGISTRY: Record<AIProvider, AIProviderService> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  groq: groqProvider,
+  custom: customProvider,
+};
+
+/** Implementação do provedor com novas tentativas automáticas em falhas transitórias. */
+export function getProviderService(provider: AIProvider): AIProviderService {
+  const service = PROVIDER_REGISTRY[provider];
+  if (!service) throw new Error(`Provedor não suportado: ${provider}`);
+  return {
+    transcribe: (...args) => withRetry(() => service.transcribe(...args)),
+    transcribeTimestamped: (...args) => withRetry(() => service.transcribeTimestamped(...args)),
+    complete: (...args) => withRetry(() => service.complete(...args)),
+    // Once text has reached the screen, restarting would repeat it; only a
+    // stream that failed before its first delta is tried again
+    completeStream: (apiKey, prompt, model, onPartial, options) => {
+      let received = false;
+      return withRetry(
+        () => service.completeStream(apiKey, prompt, model, (text) => {
+          received = true;
+          onPartial(text);
+        }, options),
+        () => !received
+      );
+    },
+  };
+}
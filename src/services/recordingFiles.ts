@@ -0,0 +1,143 @@
+import { Paths, File, Directory } from 'expo-file-system';
+import { Recording, createRecording, getMarkers, getWaveform, updateMarkers, updateTranscription, updateWaveform } from '../database/recordings';
+import { RecordingMarker } from '../constants/ai';
+import { LEVEL_FLOOR_DB } from './levels';
+import { concatAudioFiles } from './mp4';
+
+// Onde ficam os arquivos de áudio: os trechos em andamento no cache e, ao
+// salvar, a gravação completa e as partes na pasta de documentos.
+
+export function ensureFileUri(path: string): string {
+  if (path.startsWith('file://')) return path;
+  return `file://${path}`;
+}
+
+export function getRecordingsDir(): Directory {
+  const dir = new Directory(Paths.document, 'recordings');
+  if (!dir.exists) dir.create();
+  return dir;
+}
+
+export function getChunksDir(): Directory {
+  const dir = new Directory(Paths.cache, 'chunks');
+  if (!dir.exists) dir.create();
+  return dir;
+}
+
+/** Move a gravação completa para a pasta definitiva; '' se o arquivo não existir. */
+export function moveFullRecording(sourcePath: string, timestamp: number): string {
+  const sourceFile = new File(ensureFileUri(sourcePath));
+  if (!sourceFile.exists) return '';
+  const destFile = new File(getRecordingsDir(), `gravacao_${timestamp}_full.m4a`);
+  sourceFile.move(destFile);
+  return destFile.uri;
+}
+
+export interface AudioParts {
+  paths: string[];
+  overlaps: number[]; // seconds at the start of each part repeated from the previous one
+}
+
+/**
+ * Só as partes que ainda existem no disco, com a sobreposição de cada uma.
+ * Uma parte cuja anterior sumiu não repete nada do que ficou, então fica sem
+ * sobreposição.
+ */
+export function existingParts(paths: string[], overlaps: number[]): AudioParts {
+  const result: AudioParts = { paths: [], overlaps: [] };
+  let previousKept = false;
+  paths.forEach((path, i) => {
+    let exists = false;
+    try {
+      exists = new File(ensureFileUri(path)).exists;
+    } catch {}
+    if (exists) {
+      result.paths.push(path);
+      result.overlaps.push(previousKept ? overlaps[i] ?? 0 : 0);
+    }
+    previousKept = exists;
+  });
+  return result;
+}
+
+/** Move os trechos para a pasta definitiva, numerados na ordem da gravação. */
+export function moveChunkParts(chunkUris: string[], timestamp: number): string[] {
+  const recordingsDir = getRecordingsDir();
+  const savedParts: string[] = [];
+  chunkUris.forEach((uri, i) => {
+    const chunkFile = new File(uri);
+    if (!chunkFile.exists) return;
+    const partNum = String(i + 1).padStart(3, '0');
+    const destFile = new File(recordingsDir, `gravacao_${timestamp}_${partNum}.m4a`);
+    chunkFile.move(destFile);
+    savedParts.push(destFile.uri);
+  });
+  return savedParts;
+}
+
+/**
+ * Sem o arquivo do gravador completo, junta as partes num arquivo principal
+ * para que a gravação não fique só com o primeiro trecho. O início de cada
+ * parte que repete o fim da anterior (sobreposição entre trechos) fica de fora.
+ */
+export async function mergePartsIntoFull(parts: string[], timestamp: number, overlaps: number[] = []): Promise<string> {
+  if (parts.length === 0) return '';
+  if (parts.length === 1) return parts[0];
+  const destFile = new File(getRecordingsDir(), `gravacao_${timestamp}_full.m4a`);
+  const slices = parts.map((path, i) => ({ path, start: overlaps[i] || undefined }));
+  return (await concatAudioFiles(slices, destFile.uri)) ? destFile.uri : parts[0];
+}
+
+/**
+ * Cria uma gravação nova com o áudio das gravações dadas, em ordem
+ * cronológica. As originais não são alteradas.
+ */
+export async function mergeRecordings(recordings: Recording[]): Promise<number> {
+  const ordered = [...recordings].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  // concatAudioFiles skips missing inputs; the durations, markers and waveform
+  // below would then point past the audio, so the merge is refused instead
+  const missing = ordered.filter(r => !new File(ensureFileUri(r.file_path)).exists);
+  if (missing.length > 0) {
+    throw new Error(`O áudio de "${missing[0].title}" não foi encontrado. Não é possível juntar as gravações sem ele.`);
+  }
+  const destFile = new File(getRecordingsDir(), `gravacao_${Date.now()}_unida.m4a`);
+  if (!(await concatAudioFiles(ordered.map(r => r.file_path), destFile.uri))) {
+    throw new Error('Não foi possível juntar os áudios. As gravações precisam ter o mesmo formato.');
+  }
+
+  const transcriptions = ordered.map(r => r.transcription?.trim() ?? '');
+  // No audio_parts: they still belong to the originals, and deleting this
+  // recording must not delete their files
+  const id = await createRecording(
+    `${ordered[0].title} (unida)`,
+    destFile.uri,
+    ordered.reduce((sum, r) => sum + r.duration, 0),
+    undefined,
+    ordered[0].template_id
+  );
+  // A transcription missing any of the pieces would be misleading, so it is kept only when complete
+  if (transcriptions.every(Boolean)) {
+    await updateTranscription(id, transcriptions.join('\n\n'));
+  }
+  // Markers move by the length of the recordings before theirs
+  let offset = 0;
+  const markers: RecordingMarker[] = [];
+  for (const recording of ordered) {
+    markers.push(...getMarkers(recording).map(m => ({ ...m, time: m.time + offset })));
+    offset += recording.duration;
+  }
+  if (markers.length > 0) await updateMarkers(id, markers);
+  // Each waveform is cut or padded to its recording's length so the next one lines up
+  const waveforms = ordered.map(getWaveform);
+  const bucketMs = waveforms[0]?.bucketMs;
+  if (bucketMs && waveforms.every(w => w?.bucketMs === bucketMs)) {
+    const levels: number[] = [];
+    ordered.forEach((recording, i) => {
+      const buckets = Math.round((recording.duration * 1000) / bucketMs);
+      const own = waveforms[i]!.levels.slice(0, buckets);
+      levels.push(...own, ...new Array<number>(buckets - own.length).fill(LEVEL_FLOOR_DB));
+    });
+    await updateWaveform(id, { bucketMs, levels });
+  }
+  return id;
+}
@@ -0,0 +1,87 @@
+import { File } from 'expo-file-system';
+import { createRecording, getRecordingSetup, updateMarkers, updatePartOverlaps, updateTranscription } from '../database/recordings';
+import { RecordingSession, deleteRecordingSession, getSessionChunkFiles, getSessionChunkOverlaps, getSessionMarkers } from '../database/sessions';
+import { getAudioDurationSeconds } from './mp4';
+import { ensureFileUri, existingParts, mergePartsIntoFull, moveChunkParts, moveFullRecording } from './recordingFiles';
+
+// Recuperação de atendimentos interrompidos (app encerrado pelo sistema,
+// bateria, travamento) a partir do que a sessão gravou até o último trecho.
+
+export interface SessionSummary {
+  chunks: number;         // chunk files still on disk
+  hasFullRecording: boolean;
+  hasTranscription: boolean;
+}
+
+function existingFiles(paths: string[]): string[] {
+  return paths.filter(path => new File(ensureFileUri(path)).exists);
+}
+
+export function summarizeSession(session: RecordingSession): SessionSummary {
+  return {
+    chunks: existingFiles(getSessionChunkFiles(session)).length,
+    hasFullRecording: !!session.full_file_path && existingFiles([session.full_file_path]).length > 0,
+    hasTranscription: !!session.transcription.trim(),
+  };
+}
+
+/**
+ * Transforma a sessão numa gravação comum. O arquivo completo só é usado se
+ * tiver sido finalizado (um MP4 interrompido não tem o `moov` e não toca);
+ * senão as partes são juntadas num arquivo novo. Retorna null se nada sobreviveu.
+ */
+export async function recoverSession(session: RecordingSession): Promise<number | null> {
+  const timestamp = Date.now();
+  const chunks = existingParts(getSessionChunkFiles(session), getSessionChunkOverlaps(session));
+
+  let fullUri = '';
+  let fullDuration: number | null = null;
+  if (session.full_file_path && existingFiles([session.full_file_path]).length > 0) {
+    fullDuration = await getAudioDurationSeconds(ensureFileUri(session.full_file_path));
+    if (fullDuration !== null) {
+      fullUri = moveFullRecording(session.full_file_path, timestamp);
+    } else {
+      new File(ensureFileUri(session.full_file_path)).delete();
+    }
+  }
+  const parts = moveChunkParts(chunks.paths, timestamp);
+
+  const primaryUri = fullUri || (await mergePartsIntoFull(parts, timestamp, chunks.overlaps));
+  if (!primaryUri && !session.transcription.trim()) {
+    await deleteRecordingSession(session.id);
+    return null;
+  }
+
+  const startedAt = new Date(session.started_at.replace(' ', 'T'));
+  const dateStr = startedAt.toLocaleDateString('pt-BR');
+  const timeStr = startedAt.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  const duration = Math.max(session.duration, Math.round(fullDuration ?? 0));
+
+  const id = await createRecording(
+    `Atendimento recuperado ${dateStr} ${timeStr}`,
+    primaryUri,
+    duration,
+    parts,
+    session.template_id,
+    getRecordingSetup(session)
+  );
+  if (session.transcription.trim()) {
+    await updateTranscription(id, session.transcription);
+  }
+  if (chunks.overlaps.some(Boolean)) await updatePartOverlaps(id, chunks.overlaps);
+  const markers = getSessionMarkers(session);
+  if (markers.length > 0) await updateMarkers(id, markers);
+  await deleteRecordingSession(session.id);
+  return id;
+}
+
+/** Apaga a sessão e os arquivos temporários dela. */
+export async function discardSession(session: RecordingSession): Promise<void> {
+  const paths = [...getSessionChunkFiles(session), ...(session.full_file_path ? [session.full_file_path] : [])];
+  for (const path of existingFiles(paths)) {
+    try {
+      new File(ensureFileUri(path)).delete();
+    } catch {}
+  }
+  await deleteRecordingSession(session.id);
+}
@@ -1,9 +1,16 @@
 import * as SecureStore from 'expo-secure-store';
-import { AIProvider } from '../constants/ai';
+import { AIProvider, AI_PROVIDERS } from '../constants/ai';
+import { VadSettings, normalizeVadSettings } from './vad';
+import { DEFAULT_CHUNK_PROFILE, DEFAULT_FULL_PROFILE, RecordingProfile, normalizeRecordingProfile } from '../constants/recordingProfiles';
 
 const KEYS = {
   PROVIDER: 'ai_provider',
   LIVE_TRANSCRIPTION: 'live_transcription_enabled',
+  CHUNK_OVERLAP: 'chunk_overlap_enabled',
+  VAD: 'vad_settings',
+  DOSSIER_TEMPLATE: 'dossier_template_id',
+  FULL_PROFILE: 'full_recording_profile',
+  CHUNK_PROFILE: 'chunk_recording_profile',
 };
 
 function providerKey(provider: AIProvider, field: string): string {
@@ -15,7 +22,52 @@ export interface AppSettings {
   apiKey: string;
   transcriptionModel: string;
   dossierModel: string;
+  // Only used by the custom (OpenAI-compatible) provider
+  baseUrl: string;
+  chatBaseUrl: string;
   liveTranscriptionEnabled: boolean;
+  // Live chunks start a little before the previous one ends, so no word is cut
+  chunkOverlapEnabled: boolean;
+  // Pause detection that decides where live chunks are cut
+  vad: VadSettings;
+  // Template pre-selected for new recordings; null falls back to the generic one
+  dossierTemplateId: number | null;
+  // Capture setup of the full-file recorder and of the live chunk recorder
+  fullRecordingProfile: RecordingProfile;
+  chunkRecordingProfile: RecordingProfile;
+}
+
+type SharedSettings = Pick<
+  AppSettings,
+  'liveTranscriptionEnabled' | 'chunkOverlapEnabled' | 'vad' | 'dossierTemplateId' | 'fullRecordingProfile' | 'chunkRecordingProfile'
+>;
+
+async function getStoredProfile(key: string, fallback: RecordingProfile): Promise<RecordingProfile> {
+  const raw = await SecureStore.getItemAsync(key);
+  try {
+    if (raw) return normalizeRecordingProfile(JSON.parse(raw), fallback);
+  } catch {}
+  return fallback;
+}
+
+// Preferences that do not depend on the provider
+async function getSharedSettings(): Promise<SharedSettings> {
+  const liveTranscriptionRaw = await SecureStore.getItemAsync(KEYS.LIVE_TRANSCRIPTION);
+  const chunkOverlapRaw = await SecureStore.getItemAsync(KEYS.CHUNK_OVERLAP);
+  const vadRaw = await SecureStore.getItemAsync(KEYS.VAD);
+  const templateRaw = await SecureStore.getItemAsync(KEYS.DOSSIER_TEMPLATE);
+  let vad = normalizeVadSettings(null);
+  try {
+    if (vadRaw) vad = normalizeVadSettings(JSON.parse(vadRaw));
+  } catch {}
+  return {
+    liveTranscriptionEnabled: liveTranscriptionRaw !== 'false', // default true
+    chunkOverlapEnabled: chunkOverlapRaw === 'true', // default false
+    vad,
+    dossierTemplateId: templateRaw ? parseInt(templateRaw) || null : null,
+    fullRecordingProfile: await getStoredProfile(KEYS.FULL_PROFILE, DEFAULT_FULL_PROFILE),
+    chunkRecordingProfile: await getStoredProfile(KEYS.CHUNK_PROFILE, DEFAULT_CHUNK_PROFILE),
+  };
 }
 
 export async function getSettings(): Promise<AppSettings> {
@@ -23,10 +75,10 @@ export async function getSettings(): Promise<AppSettings> {
   const apiKey = (await SecureStore.getItemAsync(providerKey(provider, 'api_key'))) || '';
   const transcriptionModel = (await SecureStore.getItemAsync(providerKey(provider, 'transcription_model'))) || '';
   const dossierModel = (await SecureStore.getItemAsync(providerKey(provider, 'dossier_model'))) || '';
-  const liveTranscriptionRaw = await SecureStore.getItemAsync(KEYS.LIVE_TRANSCRIPTION);
-  const liveTranscriptionEnabled = liveTranscriptionRaw !== 'false'; // default true
+  const baseUrl = (await SecureStore.getItemAsync(providerKey(provider, 'base_url'))) || '';
+  const chatBaseUrl = (await SecureStore.getItemAsync(providerKey(provider, 'chat_base_url'))) || '';
 
-  return { provider, apiKey, transcriptionModel, dossierModel, liveTranscriptionEnabled };
+  return { provider, apiKey, transcriptionModel, dossierModel, baseUrl, chatBaseUrl, ...(await getSharedSettings()) };
 }
 
 export async function saveSettings(settings: AppSettings): Promise<void> {
@@ -34,15 +86,37 @@ export async function saveSettings(settings: AppSettings): Promise<void> {
   await SecureStore.setItemAsync(providerKey(settings.provider, 'api_key'), settings.apiKey);
   await SecureStore.setItemAsync(providerKey(settings.provider, 'transcription_model'), settings.transcriptionModel);
   await SecureStore.setItemAsync(providerKey(settings.provider, 'dossier_model'), settings.dossierModel);
+  await SecureStore.setItemAsync(providerKey(settings.provider, 'base_url'), settings.baseUrl);
+  await SecureStore.setItemAsync(providerKey(settings.provider, 'chat_base_url'), settings.chatBaseUrl);
   await SecureStore.setItemAsync(KEYS.LIVE_TRANSCRIPTION, settings.liveTranscriptionEnabled ? 'true' : 'false');
+  await SecureStore.setItemAsync(KEYS.CHUNK_OVERLAP, settings.chunkOverlapEnabled ? 'true' : 'false');
+  await SecureStore.setItemAsync(KEYS.VAD, JSON.stringify(normalizeVadSettings(settings.vad)));
+  await SecureStore.setItemAsync(KEYS.FULL_PROFILE, JSON.stringify(normalizeRecordingProfile(settings.fullRecordingProfile, DEFAULT_FULL_PROFILE)));
+  await SecureStore.setItemAsync(KEYS.CHUNK_PROFILE, JSON.stringify(normalizeRecordingProfile(settings.chunkRecordingProfile, DEFAULT_CHUNK_PROFILE)));
+  if (settings.dossierTemplateId) {
+    await SecureStore.setItemAsync(KEYS.DOSSIER_TEMPLATE, String(settings.dossierTemplateId));
+  } else {
+    await SecureStore.deleteItemAsync(KEYS.DOSSIER_TEMPLATE);
+  }
 }
 
 export async function getSettingsForProvider(provider: AIProvider): Promise<AppSettings> {
   const apiKey = (await SecureStore.getItemAsync(providerKey(provider, 'api_key'))) || '';
   const transcriptionModel = (await SecureStore.getItemAsync(providerKey(provider, 'transcription_model'))) || '';
   const dossierModel = (await SecureStore.getItemAsync(providerKey(provider, 'dossier_model'))) || '';
-  const liveTranscriptionRaw = await SecureStore.getItemAsync(KEYS.LIVE_TRANSCRIPTION);
-  const liveTranscriptionEnabled = liveTranscriptionRaw !== 'false';
+  const baseUrl = (await SecureStore.getItemAsync(providerKey(provider, 'base_url'))) || '';
+  const chatBaseUrl = (await SecureStore.getItemAsync(providerKey(provider, 'chat_base_url'))) || '';
+
+  return { provider, apiKey, transcriptionModel, dossierModel, baseUrl, chatBaseUrl, ...(await getSharedSettings()) };
+}
 
-  return { provider, apiKey, transcriptionModel, dossierModel, liveTranscriptionEnabled };
+/**
+ * Indica se o provedor ativo tem o mínimo para ser chamado: chave de API nos
+ * provedores em nuvem, URL base no servidor próprio.
+ */
+export function isProviderConfigured(settings: AppSettings): boolean {
+  const config = AI_PROVIDERS[settings.provider];
+  if (config.requiresApiKey && !settings.apiKey) return false;
+  if (config.customEndpoint && !settings.baseUrl.trim()) return false;
+  return true;
 }
@@ -0,0 +1,68 @@
+import { DiarizedTranscription, Speaker, SpeakerRole } from '../constants/ai';
+import { speakerPalette } from '../constants/theme';
+
+function guessRole(label: string): SpeakerRole {
+  const text = label.toLowerCase();
+  if (text.includes('advogad')) return 'advogado';
+  if (text.includes('client')) return 'cliente';
+  if (text.includes('testemunha')) return 'testemunha';
+  if (text.includes('parte') || text.includes('réu') || text.includes('adversa')) return 'parte_contraria';
+  return 'outro';
+}
+
+/**
+ * Falantes do diálogo na ordem em que aparecem: os já salvos mantêm nome,
+ * papel e cor editados; rótulos novos da diarização ganham valores padrão.
+ */
+export function resolveSpeakers(dialogue: DiarizedTranscription, stored: Speaker[]): Speaker[] {
+  const keys = [...new Set(dialogue.segments.map(seg => seg.speaker))];
+  const usedColors = new Set(stored.filter(s => keys.includes(s.key)).map(s => s.color));
+  let nextColor = 0;
+
+  return keys.map((key) => {
+    const saved = stored.find(s => s.key === key);
+    if (saved) return saved;
+
+    while (nextColor < speakerPalette.length - 1 && usedColors.has(speakerPalette[nextColor])) nextColor++;
+    const color = speakerPalette[nextColor % speakerPalette.length];
+    usedColors.add(color);
+    nextColor++;
+    return { key, name: key, role: guessRole(key), color };
+  });
+}
+
+export function speakerName(speakers: Speaker[], key: string): string {
+  return speakers.find(s => s.key === key)?.name ?? key;
+}
+
+/** O advogado fica à direita no chat; sem advogado identificado, o primeiro falante. */
+export function rightAlignedSpeaker(speakers: Speaker[]): string | undefined {
+  return (speakers.find(s => s.role === 'advogado') ?? speakers[0])?.key;
+}
+
+export function updateSpeaker(speakers: Speaker[], updated: Speaker): Speaker[] {
+  return speakers.map(s => (s.key === updated.key ? updated : s));
+}
+
+/** Passa todas as falas de `fromKey` para `intoKey` e remove o falante de origem. */
+export function mergeSpeakers(
+  dialogue: DiarizedTranscription,
+  speakers: Speaker[],
+  fromKey: string,
+  intoKey: string
+): { dialogue: DiarizedTranscription; speakers: Speaker[] } {
+  return {
+    dialogue: {
+      ...dialogue,
+      segments: dialogue.segments.map(seg => (seg.speaker === fromKey ? { ...seg, speaker: intoKey } : seg)),
+    },
+    speakers: speakers.filter(s => s.key !== fromKey),
+  };
+}
+
+export function reassignSegment(dialogue: DiarizedTranscription, index: number, key: string): DiarizedTranscription {
+  return {
+    ...dialogue,
+    segments: dialogue.segments.map((seg, i) => (i === index ? { ...seg, speaker: key } : seg)),
+  };
+}
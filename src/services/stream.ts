@@ -0,0 +1,95 @@
+import { fetch as expoFetch } from 'expo/fetch';
+import { AIError, httpError, toAIError } from './errors';
+
+// Longest wait for the response or for the next piece of it; a server that
+// stalls mid-stream would otherwise leave the generation open forever
+const STREAM_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * POST que consome a resposta como Server-Sent Events, entregando o JSON de
+ * cada linha `data:`; linhas que não são JSON (comentários e avisos de
+ * servidores próprios) são ignoradas. Usa o fetch do Expo porque o fetch
+ * padrão do React Native não expõe o corpo da resposta como stream. Sem nada
+ * chegando por STREAM_IDLE_TIMEOUT_MS, a requisição é abortada com um
+ * AIError de timeout.
+ */
+export async function postServerSentEvents(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  provider: string,
+  onData: (chunk: any) => void
+): Promise<void> {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Rejects when nothing arrives in time; the abort also ends the pending read
+  const idle = <T>(promise: Promise<T>): Promise<T> => {
+    clearTimeout(timer);
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+        reject(new AIError('timeout', provider, { detail: `No data for ${STREAM_IDLE_TIMEOUT_MS / 1000}s` }));
+      }, STREAM_IDLE_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  };
+
+  let response;
+  try {
+    response = await idle(expoFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    }));
+  } catch (error) {
+    throw toAIError(error, provider);
+  }
+
+  if (!response.ok) {
+    throw await httpError(response as unknown as Response, provider);
+  }
+  if (!response.body) {
+    throw new Error('O servidor não retornou a resposta em streaming.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+    let chunk: unknown;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      console.log(`[AI] ${provider} stream: skipping non-JSON line:`, data.substring(0, 200));
+      return;
+    }
+    onData(chunk);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await idle(reader.read());
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline >= 0) {
+        flushLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+  } catch (error) {
+    if (timedOut) reader.cancel().catch(() => {});
+    throw toAIError(error, provider);
+  }
+  flushLine(buffer);
+}
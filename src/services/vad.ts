@@ -0,0 +1,69 @@
+// Detecção de voz pelo nível de entrada (metering) do gravador de trechos:
+// o trecho é cortado numa pausa da fala, dentro dos limites de duração, e
+// trechos só de silêncio não são enviados para transcrição.
+
+export interface VadSettings {
+  silenceThresholdDb: number; // below this level (dBFS) the input counts as silence
+  minSilenceMs: number;       // pause needed to cut a chunk
+  minChunkMs: number;
+  maxChunkMs: number;         // cut even without a pause
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  silenceThresholdDb: -45,
+  minSilenceMs: 600,
+  minChunkMs: 4000,
+  maxChunkMs: 15000,
+};
+
+// Less speech than this in a chunk is treated as noise (a cough, a door)
+const MIN_SPEECH_MS = 300;
+
+export interface VoiceActivityDetector {
+  /** Registra uma leitura do nível; retorna true quando é hora de cortar o trecho. */
+  update: (levelDb: number, elapsedMs: number) => boolean;
+  hasSpeech: () => boolean;
+  reset: () => void;
+}
+
+export function createVoiceActivityDetector(settings: VadSettings): VoiceActivityDetector {
+  let chunkMs = 0;
+  let speechMs = 0;
+  let silenceRunMs = 0;
+
+  return {
+    update(levelDb, elapsedMs) {
+      chunkMs += elapsedMs;
+      if (levelDb > settings.silenceThresholdDb) {
+        speechMs += elapsedMs;
+        silenceRunMs = 0;
+      } else {
+        silenceRunMs += elapsedMs;
+      }
+
+      if (chunkMs >= settings.maxChunkMs) return true;
+      return chunkMs >= settings.minChunkMs && speechMs > 0 && silenceRunMs >= settings.minSilenceMs;
+    },
+    hasSpeech: () => speechMs >= MIN_SPEECH_MS,
+    reset() {
+      chunkMs = 0;
+      speechMs = 0;
+      silenceRunMs = 0;
+    },
+  };
+}
+
+/** Corrige valores digitados nas configurações para uma combinação utilizável. */
+export function normalizeVadSettings(value: Partial<VadSettings> | null | undefined): VadSettings {
+  const pick = (key: keyof VadSettings, min: number, max: number) => {
+    const n = Number(value?.[key]);
+    return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : DEFAULT_VAD_SETTINGS[key];
+  };
+  const minChunkMs = pick('minChunkMs', 1000, 30000);
+  return {
+    silenceThresholdDb: pick('silenceThresholdDb', -80, -10),
+    minSilenceMs: pick('minSilenceMs', 200, 3000),
+    minChunkMs,
+    maxChunkMs: Math.max(minChunkMs, pick('maxChunkMs', 3000, 60000)),
+  };
+}
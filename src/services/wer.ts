@@ -0,0 +1,99 @@
+// Taxa de erro por palavra (WER) de uma transcrição contra um texto de
+// referência: substituições, remoções e inserções sobre o total de palavras
+// da referência. Maiúsculas, acentos, pontuação e a forma de escrever valores
+// (separador de milhar, centavos zerados) não contam como erro.
+
+export interface WerResult {
+  wer: number;             // 0 = perfect; can pass 1 when the hypothesis adds many words
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  referenceWords: number;
+}
+
+export function normalizeWords(text: string): string[] {
+  return text
+    // "15.000,00", "15.000" and "15000" are the same amount
+    .replace(/(\d)\.(?=\d{3}(?!\d))/g, '$1')
+    .replace(/(\d),00(?!\d)/g, '$1')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+export function wordErrorRate(reference: string, hypothesis: string): WerResult {
+  const ref = normalizeWords(reference);
+  const hyp = normalizeWords(hypothesis);
+  const width = hyp.length + 1;
+
+  // Edit distance over words, two rows at a time. Parallel rows carry the
+  // operation counts of each cell's best path, so memory stays O(m)
+  let cost = new Int32Array(width);
+  let sub = new Int32Array(width);
+  let del = new Int32Array(width);
+  let ins = new Int32Array(width);
+  let nextCost = new Int32Array(width);
+  let nextSub = new Int32Array(width);
+  let nextDel = new Int32Array(width);
+  let nextIns = new Int32Array(width);
+  for (let j = 0; j < width; j++) {
+    cost[j] = j;
+    ins[j] = j;
+  }
+
+  for (let i = 1; i <= ref.length; i++) {
+    nextCost[0] = i;
+    nextSub[0] = 0;
+    nextDel[0] = i;
+    nextIns[0] = 0;
+    const word = ref[i - 1];
+    for (let j = 1; j < width; j++) {
+      const diagonal = cost[j - 1];
+      if (word === hyp[j - 1]) {
+        nextCost[j] = diagonal;
+        nextSub[j] = sub[j - 1];
+        nextDel[j] = del[j - 1];
+        nextIns[j] = ins[j - 1];
+        continue;
+      }
+      const up = cost[j];          // reference word missing from the hypothesis
+      const left = nextCost[j - 1]; // extra word in the hypothesis
+      if (diagonal <= up && diagonal <= left) {
+        nextCost[j] = diagonal + 1;
+        nextSub[j] = sub[j - 1] + 1;
+        nextDel[j] = del[j - 1];
+        nextIns[j] = ins[j - 1];
+      } else if (up <= left) {
+        nextCost[j] = up + 1;
+        nextSub[j] = sub[j];
+        nextDel[j] = del[j] + 1;
+        nextIns[j] = ins[j];
+      } else {
+        nextCost[j] = left + 1;
+        nextSub[j] = nextSub[j - 1];
+        nextDel[j] = nextDel[j - 1];
+        nextIns[j] = nextIns[j - 1] + 1;
+      }
+    }
+    [cost, nextCost] = [nextCost, cost];
+    [sub, nextSub] = [nextSub, sub];
+    [del, nextDel] = [nextDel, del];
+    [ins, nextIns] = [nextIns, ins];
+  }
+
+  const last = hyp.length;
+  return {
+    wer: ref.length > 0 ? cost[last] / ref.length : hyp.length > 0 ? 1 : 0,
+    substitutions: sub[last],
+    deletions: del[last],
+    insertions: ins[last],
+    referenceWords: ref.length,
+  };
+}
+
+export function formatWer(wer: number): string {
+  return `${(wer * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+}